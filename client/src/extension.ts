@@ -4,13 +4,15 @@
  */
 
 import * as path from 'path';
-import { workspace, ExtensionContext } from 'vscode';
+import { commands, window, workspace, ExtensionContext } from 'vscode';
 import {
     LanguageClient,
     LanguageClientOptions,
     ServerOptions,
     TransportKind
 } from 'vscode-languageclient/node';
+import { FlowsheetPanel } from './flowsheetPanel';
+import { exportFlowsheet } from './flowsheetExport';
 
 let client: LanguageClient;
 
@@ -43,8 +45,13 @@ export function activate(context: ExtensionContext) {
             { scheme: 'untitled', language: 'proii' }
         ],
         synchronize: {
-            // Notify server when .proii config files change
-            fileEvents: workspace.createFileSystemWatcher('**/.proii')
+            // Notify server when .proii config files, PRO/II input files or
+            // project component files change
+            fileEvents: [
+                workspace.createFileSystemWatcher('**/.proii'),
+                workspace.createFileSystemWatcher('**/*.{inp,p2i}'),
+                workspace.createFileSystemWatcher('**/proii-components.json')
+            ]
         }
     };
 
@@ -59,6 +66,26 @@ export function activate(context: ExtensionContext) {
     // Start the client (and server)
     client.start();
     
+    // Flowsheet diagram of the active document
+    context.subscriptions.push(
+        commands.registerCommand('proii.showFlowsheet', () => {
+            const editor = window.activeTextEditor;
+            if (!editor || editor.document.languageId !== 'proii') {
+                window.showInformationMessage('Open a PRO/II file to show its flowsheet.');
+                return;
+            }
+            FlowsheetPanel.show(client, editor.document);
+        }),
+        commands.registerCommand('proii.exportFlowsheet', () => {
+            const editor = window.activeTextEditor;
+            if (!editor || editor.document.languageId !== 'proii') {
+                window.showInformationMessage('Open a PRO/II file to export its flowsheet.');
+                return;
+            }
+            return exportFlowsheet(client, editor.document);
+        })
+    );
+    
     console.log('✅ PRO/II Language Server v2.0 activated!');
 }
 
@@ -0,0 +1,46 @@
+/**
+ * PRO/II Flowsheet Export
+ * Asks the server for the flowsheet as DOT, Mermaid or JSON and opens it
+ * in a new editor
+ */
+
+import { languages, window, workspace, TextDocument, ViewColumn } from 'vscode';
+import { ExecuteCommandRequest, LanguageClient } from 'vscode-languageclient/node';
+
+/**
+ * Export formats offered to the user, with the language used to open the result
+ */
+const FORMATS = [
+    { label: 'Graphviz DOT', description: '.dot', format: 'dot', language: 'dot' },
+    { label: 'Mermaid', description: 'flowchart', format: 'mermaid', language: 'mermaid' },
+    { label: 'JSON', description: '.json', format: 'json', language: 'json' }
+];
+
+/**
+ * Export the flowsheet of a document in a format picked by the user
+ */
+export async function exportFlowsheet(client: LanguageClient, document: TextDocument): Promise<void> {
+    const choice = await window.showQuickPick(FORMATS, { placeHolder: 'Export flowsheet as' });
+    if (!choice) return;
+
+    try {
+        const content = await client.sendRequest(ExecuteCommandRequest.type, {
+            command: 'proii.server.exportFlowsheet',
+            arguments: [document.uri.toString(), choice.format]
+        });
+        if (typeof content !== 'string') {
+            window.showWarningMessage('No flowsheet to export. Check the file for parse errors.');
+            return;
+        }
+
+        // DOT and Mermaid need an extension for highlighting; fall back to plain text
+        const known = await languages.getLanguages();
+        const language = known.includes(choice.language) ? choice.language : 'plaintext';
+
+        const exported = await workspace.openTextDocument({ content, language });
+        await window.showTextDocument(exported, ViewColumn.Beside);
+    } catch (error) {
+        console.error(`❌ Failed to export flowsheet: ${error}`);
+        window.showErrorMessage(`Failed to export flowsheet: ${error}`);
+    }
+}
@@ -0,0 +1,271 @@
+/**
+ * PRO/II Flowsheet Diagram
+ * Webview that draws the units and streams of the active PRO/II document
+ */
+
+import {
+    window, workspace, Disposable, Position, Range, Selection,
+    TextDocument, TextEditorRevealType, Uri, ViewColumn, WebviewPanel
+} from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/node';
+
+/**
+ * Diagram model returned by the server's proii/flowsheet request
+ */
+interface FlowsheetView {
+    units: Array<{ id: string; unitType: string; line: number; layer: number; row: number }>;
+    streams: Array<{ name: string; from?: string; to?: string; tear: boolean }>;
+}
+
+/**
+ * Delay before redrawing after an edit (ms)
+ */
+const REFRESH_DELAY = 300;
+
+/**
+ * Single flowsheet panel that follows the active PRO/II document
+ */
+export class FlowsheetPanel {
+    private static current: FlowsheetPanel | undefined;
+
+    private readonly panel: WebviewPanel;
+    private readonly disposables: Disposable[] = [];
+    private documentUri: Uri;
+    private refreshTimer: NodeJS.Timeout | undefined;
+
+    /**
+     * Show the flowsheet of a document, reusing the open panel
+     */
+    public static show(client: LanguageClient, document: TextDocument): void {
+        if (FlowsheetPanel.current) {
+            FlowsheetPanel.current.documentUri = document.uri;
+            FlowsheetPanel.current.panel.reveal(ViewColumn.Beside, true);
+            FlowsheetPanel.current.refresh();
+            return;
+        }
+
+        FlowsheetPanel.current = new FlowsheetPanel(client, document.uri);
+    }
+
+    private constructor(private readonly client: LanguageClient, documentUri: Uri) {
+        this.documentUri = documentUri;
+        this.panel = window.createWebviewPanel(
+            'proiiFlowsheet',
+            'PRO/II Flowsheet',
+            { viewColumn: ViewColumn.Beside, preserveFocus: true },
+            { enableScripts: true, localResourceRoots: [] }
+        );
+        this.panel.webview.html = getHtml(createNonce());
+
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+
+        // Clicking a unit reveals its line
+        this.panel.webview.onDidReceiveMessage(message => {
+            if (message.type === 'reveal') {
+                this.revealLine(message.line);
+            } else if (message.type === 'ready') {
+                this.refresh();
+            }
+        }, null, this.disposables);
+
+        // Redraw as the document is edited
+        workspace.onDidChangeTextDocument(event => {
+            if (event.document.uri.toString() === this.documentUri.toString()) {
+                this.scheduleRefresh();
+            }
+        }, null, this.disposables);
+
+        // Follow the active PRO/II editor
+        window.onDidChangeActiveTextEditor(editor => {
+            if (editor && editor.document.languageId === 'proii' &&
+                editor.document.uri.toString() !== this.documentUri.toString()) {
+                this.documentUri = editor.document.uri;
+                this.refresh();
+            }
+        }, null, this.disposables);
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) clearTimeout(this.refreshTimer);
+        this.refreshTimer = setTimeout(() => this.refresh(), REFRESH_DELAY);
+    }
+
+    /**
+     * Fetch the diagram model from the server and send it to the webview
+     */
+    private async refresh(): Promise<void> {
+        try {
+            const view = await this.client.sendRequest<FlowsheetView | null>('proii/flowsheet', {
+                uri: this.documentUri.toString()
+            });
+            this.panel.title = `Flowsheet: ${this.documentUri.path.split('/').pop()}`;
+            this.panel.webview.postMessage({ type: 'update', view });
+        } catch (error) {
+            console.error(`❌ Failed to get flowsheet: ${error}`);
+        }
+    }
+
+    /**
+     * Select a line in the document's editor. The line comes from the last
+     * refresh, so the document may have shrunk since.
+     */
+    private async revealLine(line: number): Promise<void> {
+        const document = await workspace.openTextDocument(this.documentUri);
+        if (!Number.isInteger(line) || line < 0 || line >= document.lineCount) return;
+
+        const visible = window.visibleTextEditors.find(e => e.document.uri.toString() === this.documentUri.toString());
+        const editor = await window.showTextDocument(document, visible ? visible.viewColumn : ViewColumn.One);
+
+        const range = new Range(new Position(line, 0), new Position(line, document.lineAt(line).text.length));
+        editor.selection = new Selection(range.start, range.end);
+        editor.revealRange(range, TextEditorRevealType.InCenterIfOutsideViewport);
+    }
+
+    private dispose(): void {
+        FlowsheetPanel.current = undefined;
+        if (this.refreshTimer) clearTimeout(this.refreshTimer);
+        this.disposables.forEach(d => d.dispose());
+    }
+}
+
+function createNonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return nonce;
+}
+
+/**
+ * Webview page. The script lays units out on a grid (columns from the
+ * server's layers) and draws streams as arrows; feeds and final products
+ * are drawn as short arrows into or out of their unit.
+ */
+function getHtml(nonce: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { margin: 0; padding: 8px; color: var(--vscode-foreground); font-family: var(--vscode-font-family); }
+    #empty { opacity: 0.7; }
+    .unit rect { fill: var(--vscode-editor-background); stroke: var(--vscode-focusBorder); stroke-width: 1.5; rx: 4; }
+    .unit:hover rect { fill: var(--vscode-list-hoverBackground); }
+    .unit { cursor: pointer; }
+    .unit text { fill: var(--vscode-foreground); font-size: 12px; text-anchor: middle; }
+    .unit .type { opacity: 0.7; font-size: 10px; }
+    .stream { fill: none; stroke: var(--vscode-foreground); stroke-width: 1.2; opacity: 0.8; }
+    .stream.tear { stroke-dasharray: 5 3; stroke: var(--vscode-editorWarning-foreground); }
+    .label { fill: var(--vscode-descriptionForeground); font-size: 10px; text-anchor: middle; }
+    marker path { fill: var(--vscode-foreground); }
+</style>
+</head>
+<body>
+<div id="empty">Parsing…</div>
+<svg id="diagram" xmlns="http://www.w3.org/2000/svg"></svg>
+<script nonce="${nonce}">
+(function () {
+    const vscode = acquireVsCodeApi();
+    const SVG = 'http://www.w3.org/2000/svg';
+    const WIDTH = 120, HEIGHT = 44, COLUMN = 200, ROW = 90, MARGIN = 70, STUB = 50;
+    const svg = document.getElementById('diagram');
+    const empty = document.getElementById('empty');
+
+    function element(name, attrs, parent) {
+        const el = document.createElementNS(SVG, name);
+        for (const key in attrs) el.setAttribute(key, attrs[key]);
+        parent.appendChild(el);
+        return el;
+    }
+
+    function draw(view) {
+        svg.innerHTML = '';
+        if (!view || view.units.length === 0) {
+            empty.textContent = 'No unit operations found.';
+            empty.style.display = '';
+            return;
+        }
+        empty.style.display = 'none';
+
+        const defs = element('defs', {}, svg);
+        const marker = element('marker', { id: 'arrow', viewBox: '0 0 10 10', refX: 10, refY: 5,
+            markerWidth: 7, markerHeight: 7, orient: 'auto-start-reverse' }, defs);
+        element('path', { d: 'M 0 0 L 10 5 L 0 10 z' }, marker);
+
+        const boxes = {};
+        let width = 0, height = 0;
+        for (const unit of view.units) {
+            const x = MARGIN + unit.layer * COLUMN;
+            const y = 20 + unit.row * ROW;
+            boxes[unit.id] = { x, y };
+            width = Math.max(width, x + WIDTH + MARGIN);
+            height = Math.max(height, y + HEIGHT + 40);
+        }
+
+        // Streams first so boxes are drawn on top
+        const outgoing = {}, incoming = {};
+        for (const stream of view.streams) {
+            const from = stream.from && boxes[stream.from];
+            const to = stream.to && boxes[stream.to];
+            let d, lx, ly;
+
+            if (from && to) {
+                const sx = from.x + WIDTH, sy = from.y + HEIGHT / 2;
+                const ex = to.x, ey = to.y + HEIGHT / 2;
+                if (ex > sx) {
+                    const mid = (sx + ex) / 2;
+                    d = 'M ' + sx + ' ' + sy + ' C ' + mid + ' ' + sy + ', ' + mid + ' ' + ey + ', ' + ex + ' ' + ey;
+                    lx = mid; ly = (sy + ey) / 2 - 4;
+                } else {
+                    // Backward stream (recycle): route below the boxes
+                    const below = Math.max(from.y, to.y) + HEIGHT + 25;
+                    d = 'M ' + (from.x + WIDTH / 2) + ' ' + (from.y + HEIGHT) + ' L ' + (from.x + WIDTH / 2) + ' ' + below +
+                        ' L ' + (to.x + WIDTH / 2) + ' ' + below + ' L ' + (to.x + WIDTH / 2) + ' ' + (to.y + HEIGHT);
+                    lx = (from.x + to.x + WIDTH) / 2; ly = below - 4;
+                }
+            } else if (to) {
+                const n = incoming[stream.to] = (incoming[stream.to] || 0) + 1;
+                const ey = to.y + 10 + (n - 1) * 12;
+                d = 'M ' + (to.x - STUB) + ' ' + ey + ' L ' + to.x + ' ' + ey;
+                lx = to.x - STUB / 2; ly = ey - 3;
+            } else if (from) {
+                const n = outgoing[stream.from] = (outgoing[stream.from] || 0) + 1;
+                const sy = from.y + 10 + (n - 1) * 12;
+                d = 'M ' + (from.x + WIDTH) + ' ' + sy + ' L ' + (from.x + WIDTH + STUB) + ' ' + sy;
+                lx = from.x + WIDTH + STUB / 2; ly = sy - 3;
+            } else {
+                continue;
+            }
+
+            element('path', { d, class: 'stream' + (stream.tear ? ' tear' : ''), 'marker-end': 'url(#arrow)' }, svg);
+            const label = element('text', { x: lx, y: ly, class: 'label' }, svg);
+            label.textContent = stream.name + (stream.tear ? ' (tear)' : '');
+        }
+
+        for (const unit of view.units) {
+            const box = boxes[unit.id];
+            const group = element('g', { class: 'unit', transform: 'translate(' + box.x + ',' + box.y + ')' }, svg);
+            element('rect', { width: WIDTH, height: HEIGHT }, group);
+            const name = element('text', { x: WIDTH / 2, y: 19 }, group);
+            name.textContent = unit.id;
+            const type = element('text', { x: WIDTH / 2, y: 34, class: 'type' }, group);
+            type.textContent = unit.unitType;
+            group.addEventListener('click', () => vscode.postMessage({ type: 'reveal', line: unit.line }));
+        }
+
+        svg.setAttribute('width', width);
+        svg.setAttribute('height', height);
+    }
+
+    window.addEventListener('message', event => {
+        if (event.data.type === 'update') draw(event.data.view);
+    });
+
+    vscode.postMessage({ type: 'ready' });
+})();
+</script>
+</body>
+</html>`;
+}
@@ -7,12 +7,21 @@
 import { Token } from './types';
 
 /**
- * Base interface for all AST nodes
+ * Source position of a node or error.
+ * Lines and columns are 1-based; endColumn is exclusive.
  */
-export interface ASTNode {
-    type: string;
+export interface SourceSpan {
     startLine: number;
+    startColumn: number;
     endLine: number;
+    endColumn: number;
+}
+
+/**
+ * Base interface for all AST nodes
+ */
+export interface ASTNode extends SourceSpan {
+    type: string;
 }
 
 /**
@@ -21,6 +30,7 @@ export interface ASTNode {
 export interface ProgramNode extends ASTNode {
     type: 'Program';
     sections: SectionNode[];
+    comments: CommentNode[]; // All comments, in document order
 }
 
 /**
@@ -65,6 +75,7 @@ export interface UnitOperationNode extends StatementNode {
 export interface ParameterNode extends ASTNode {
     type: 'Parameter';
     name: IdentifierNode;
+    qualifier?: string; // Text in parentheses after the name (e.g., WT for RATE(WT)=...)
     value: ValueNode;
 }
 
@@ -92,7 +103,8 @@ export interface ComponentDataNode extends StatementNode {
 export interface ComponentNode extends ASTNode {
     type: 'Component';
     identifier: string; // 'C1', 'METHANE', etc.
-    libid?: NumberNode; // Library ID number (e.g., 2 for C1/2)
+    libid?: NumberNode; // Component number (e.g., 2 for 2, C2)
+    column: number; // 1-based column of the identifier
 }
 
 /**
@@ -165,11 +177,20 @@ export interface ListNode extends ASTNode {
 }
 
 /**
- * Comment node
+ * Region the parser could not understand and skipped during error recovery
+ */
+export interface ErrorNode extends StatementNode {
+    type: 'Error';
+    statementType: 'ERROR';
+    message: string;
+}
+
+/**
+ * Comment node ($ or % to end of line)
  */
 export interface CommentNode extends ASTNode {
     type: 'Comment';
-    text: string;
+    text: string; // Including the $ or %
 }
 
 /**
@@ -177,14 +198,12 @@ export interface CommentNode extends ASTNode {
  */
 export function createNode<T extends ASTNode>(
     type: T['type'],
-    startLine: number,
-    endLine: number,
-    props: Omit<T, 'type' | 'startLine' | 'endLine'>
+    span: SourceSpan,
+    props: Omit<T, 'type' | keyof SourceSpan>
 ): T {
     return {
         type,
-        startLine,
-        endLine,
+        ...span,
         ...props
     } as T;
 }
@@ -214,6 +233,7 @@ export interface ASTVisitor {
     visitString?(node: StringNode): void;
     visitList?(node: ListNode): void;
     visitComment?(node: CommentNode): void;
+    visitError?(node: ErrorNode): void;
 }
 
 /**
@@ -265,5 +285,8 @@ export function traverse(node: ASTNode, visitor: ASTVisitor): void {
         case 'Comment':
             visitor.visitComment?.(node as CommentNode);
             break;
+        case 'Error':
+            visitor.visitError?.(node as ErrorNode);
+            break;
     }
 }
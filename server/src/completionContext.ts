@@ -0,0 +1,147 @@
+/**
+ * Completion Context for PRO/II Language Server
+ * Works out where the cursor is from the parsed tree and the statement
+ * text before it: which section, which unit block, and whether a
+ * statement, a parameter or a value is being typed
+ */
+
+import { Position } from 'vscode-languageserver/node';
+import { ProgramNode, SectionType, UnitOperationNode } from './ast';
+import { SymbolKind } from './symbolTable';
+import { getKeywordDoc } from './keywordDocs';
+import { splitLines } from './documentUtils';
+
+/**
+ * Where completion was requested
+ */
+export interface CompletionContext {
+    section?: SectionType; // Undefined before the first section
+    unit?: UnitOperationNode; // Unit block the cursor is in (UNIT OPERATIONS only)
+    statementText: string; // Statement text before the cursor, continuation lines joined
+    keyword?: string; // First word of the statement, once it is complete (FLASH, PROP, METHOD)
+    atStatementStart: boolean; // Nothing before the cursor but the start of the first word
+    parameter?: string; // Parameter whose value is being typed (TEMP for TEMP=1)
+    reference?: SymbolReference; // Name of a stream, unit or component being typed
+}
+
+/**
+ * A reference to a symbol of the document
+ */
+export interface SymbolReference {
+    kind: SymbolKind.STREAM | SymbolKind.UNIT | SymbolKind.COMPONENT;
+    unitType?: string; // Only units of this type (FLASH=...)
+}
+
+/**
+ * A value being typed: NAME=, NAME(QUALIFIER)= and the start of the value
+ */
+const VALUE_PATTERN = /([A-Za-z][\w-]*)\s*(?:\([^)]*\))?\s*=\s*[^\s,=/]*$/;
+
+/**
+ * FEED and PROD keywords, not as part of a name such as PROD-1
+ */
+const STREAM_LIST_KEYWORD = /(?<![\w-])(?:FEED|PRODUCT|PROD)(?![\w-])/gi;
+
+/**
+ * Parameters whose value names a stream
+ */
+const STREAM_PARAMETERS = new Set(['STREAM', 'FEED', 'PROD', 'PRODUCT']);
+
+/**
+ * Statements that refer to streams, units and components by name
+ */
+const REFERENCE_STATEMENTS = new Set(['SPEC', 'VARY', 'DEFINE']);
+
+/**
+ * Work out the completion context at a position
+ */
+export function getCompletionContext(ast: ProgramNode, text: string, position: Position): CompletionContext {
+    const lines = splitLines(text);
+    const line = position.line + 1;
+    const statementText = getStatementText(lines, position);
+
+    // The section header line itself belongs to the section before it
+    const section = ast.sections.filter(s => s.startLine < line).pop();
+    const atStatementStart = /^\s*[\w-]*$/.test(statementText);
+    const keyword = atStatementStart ? undefined : /^\s*([A-Za-z][\w-]*)/.exec(statementText)?.[1].toUpperCase();
+    const parameter = VALUE_PATTERN.exec(statementText)?.[1].toUpperCase();
+
+    let unit: UnitOperationNode | undefined;
+    if (section?.sectionType === 'UNIT_OPERATIONS') {
+        // A unit block carries on until the next unit starts
+        unit = section.statements
+            .filter((stmt): stmt is UnitOperationNode => stmt.type === 'UnitOperation' && stmt.startLine <= line)
+            .pop();
+    }
+
+    return {
+        section: section?.sectionType,
+        unit,
+        statementText,
+        keyword,
+        atStatementStart,
+        parameter,
+        reference: getSymbolReference(section?.sectionType, statementText, keyword, parameter)
+    };
+}
+
+/**
+ * Kind of symbol being typed, if any: streams after FEED, PROD, DATA= and
+ * STREAM=, units after UID=, UNIT= and FLASH=, and components in SPEC,
+ * VARY and DEFINE statements
+ */
+function getSymbolReference(
+    section: SectionType | undefined,
+    statementText: string,
+    keyword: string | undefined,
+    parameter: string | undefined
+): SymbolReference | undefined {
+    if (section === 'UNIT_OPERATIONS' && isInStreamList(statementText)) {
+        return { kind: SymbolKind.STREAM };
+    }
+    if (!parameter) return undefined;
+
+    if (STREAM_PARAMETERS.has(parameter) || (parameter === 'DATA' && section === 'STREAM_DATA')) {
+        return { kind: SymbolKind.STREAM };
+    }
+    if (parameter === 'UID' || parameter === 'UNIT') {
+        return { kind: SymbolKind.UNIT };
+    }
+    if (getKeywordDoc(parameter)?.category === 'unit-operation' && keyword !== parameter) {
+        return { kind: SymbolKind.UNIT, unitType: parameter };
+    }
+    if ((parameter === 'COMP' || parameter === 'COMPONENT') && keyword && REFERENCE_STATEMENTS.has(keyword)) {
+        return { kind: SymbolKind.COMPONENT };
+    }
+    return undefined;
+}
+
+/**
+ * Check if the cursor is in the stream list of a FEED or PROD statement:
+ * FEED A, |  or  PROD=V=VAPOR, L=|  or  FEED=10/|
+ */
+function isInStreamList(statementText: string): boolean {
+    const matches = Array.from(statementText.matchAll(STREAM_LIST_KEYWORD));
+    const last = matches[matches.length - 1];
+    if (!last) return false;
+
+    const tail = statementText.substring(last.index! + last[0].length);
+    // Only stream names, stage numbers and V=/L= labels until the cursor
+    return /^(\s*=|\s)[\w\s,/=-]*$/.test(tail) && !/[A-Za-z][\w-]+\s*=/.test(tail);
+}
+
+/**
+ * Text of the statement before the cursor. Lines ending in & continue on
+ * the next line, so those before the cursor's line are joined to it.
+ */
+function getStatementText(lines: string[], position: Position): string {
+    let text = (lines[position.line] ?? '').substring(0, position.character);
+
+    for (let index = position.line - 1; index >= 0; index--) {
+        const previous = lines[index].trimEnd();
+        if (!previous.endsWith('&')) break;
+        text = `${previous.slice(0, -1)} ${text.trimStart()}`;
+    }
+
+    return text;
+}
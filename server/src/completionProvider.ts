@@ -3,8 +3,14 @@
  * Generates completion items for keywords, unit operations, parameters, etc.
  */
 
-import { CompletionItem, CompletionItemKind, InsertTextFormat } from 'vscode-languageserver/node';
-import { KEYWORD_DOCS, KeywordDoc } from './keywordDocs';
+import { Command, CompletionItem, CompletionItemKind, InsertTextFormat, Position } from 'vscode-languageserver/node';
+import { KEYWORD_DOCS, KeywordDoc, getKeywordDoc } from './keywordDocs';
+import { ComponentDatabank, getDefaultDatabank } from './componentDatabank';
+import { ProgramNode, SectionType, UnitOperationNode } from './ast';
+import { CompletionContext, SymbolReference, getCompletionContext } from './completionContext';
+import { Symbol, SymbolKind, SymbolTable } from './symbolTable';
+import { getUnitSchema } from './unitSchema';
+import { isInComment, splitLines } from './documentUtils';
 
 /**
  * Get all completion items for keywords
@@ -173,34 +179,39 @@ export function getSectionCompletions(): CompletionItem[] {
     ];
 }
 
+/**
+ * Common parameters with their snippet placeholders
+ */
+const COMMON_PARAMETERS: ParameterCompletion[] = [
+    { name: 'UID', detail: 'Unit identifier', value: '${1:U-101}' },
+    { name: 'NAME', detail: 'Descriptive name', value: '"${1:Unit Name}"' },
+    { name: 'FEED', detail: 'Inlet stream(s)', value: '${1:STREAM1}' },
+    { name: 'PROD', detail: 'Outlet stream(s)', value: '${1:STREAM1}' },
+    { name: 'TEMP', detail: 'Temperature', value: '${1:100}' },
+    { name: 'PRES', detail: 'Pressure', value: '${1:50}' },
+    { name: 'RATE', detail: 'Flow rate', value: '${1:1000}' },
+    { name: 'DUTY', detail: 'Heat duty', value: '${1:1.5E6}' },
+    { name: 'EFF', detail: 'Efficiency', value: '${1:0.75}' },
+    { name: 'FRAC', detail: 'Split fraction', value: '${1:0.5}' },
+    { name: 'NSTAGE', detail: 'Number of stages', value: '${1:20}' },
+    { name: 'REFLUX', detail: 'Reflux ratio', value: '${1:2.5}' },
+    { name: 'VFRAC', detail: 'Vapor fraction', value: '${1:0.5}' }
+];
+
+/**
+ * A parameter offered as NAME=value
+ */
+interface ParameterCompletion {
+    name: string;
+    detail: string;
+    value: string; // Snippet for the value
+}
+
 /**
  * Get completion items for common parameters
  */
 export function getParameterCompletions(): CompletionItem[] {
-    const parameters = [
-        { name: 'UID', detail: 'Unit identifier', value: '${1:U-101}' },
-        { name: 'NAME', detail: 'Descriptive name', value: '"${1:Unit Name}"' },
-        { name: 'FEED', detail: 'Inlet stream(s)', value: '${1:STREAM1}' },
-        { name: 'PROD', detail: 'Outlet stream(s)', value: '${1:STREAM1}' },
-        { name: 'TEMP', detail: 'Temperature', value: '${1:100}' },
-        { name: 'PRES', detail: 'Pressure', value: '${1:50}' },
-        { name: 'RATE', detail: 'Flow rate', value: '${1:1000}' },
-        { name: 'DUTY', detail: 'Heat duty', value: '${1:1.5E6}' },
-        { name: 'EFF', detail: 'Efficiency', value: '${1:0.75}' },
-        { name: 'FRAC', detail: 'Split fraction', value: '${1:0.5}' },
-        { name: 'NSTAGE', detail: 'Number of stages', value: '${1:20}' },
-        { name: 'REFLUX', detail: 'Reflux ratio', value: '${1:2.5}' },
-        { name: 'VFRAC', detail: 'Vapor fraction', value: '${1:0.5}' }
-    ];
-    
-    return parameters.map(p => ({
-        label: p.name,
-        kind: CompletionItemKind.Property,
-        detail: p.detail,
-        insertText: `${p.name}=${p.value}`,
-        insertTextFormat: InsertTextFormat.Snippet,
-        sortText: `B_${p.name}`
-    }));
+    return COMMON_PARAMETERS.map(p => createParameterItem(p, `B_${p.name}`));
 }
 
 /**
@@ -228,6 +239,21 @@ export function getThermodynamicMethodCompletions(): CompletionItem[] {
     }));
 }
 
+/**
+ * Get completion items for library components in LIBID statements
+ */
+export function getComponentCompletions(databank: ComponentDatabank = getDefaultDatabank()): CompletionItem[] {
+    return databank.getComponents().map(c => ({
+        label: c.id,
+        kind: CompletionItemKind.Constant,
+        detail: [c.name, c.formula, c.mw !== undefined ? `MW ${c.mw}` : undefined].filter(Boolean).join(' · '),
+        documentation: c.aliases.length > 0 ? `Also: ${c.aliases.join(', ')}` : undefined,
+        filterText: [c.id, ...c.aliases].join(' '),
+        insertText: c.id,
+        sortText: `D_${c.id}`
+    }));
+}
+
 /**
  * Get completion kind based on category
  */
@@ -287,6 +313,11 @@ export function getContextAwareCompletions(lineText: string, position: number):
         return getThermodynamicMethodCompletions();
     }
     
+    // Component name after LIBID 1, or /2,
+    if (beforeCursor.match(/^LIBID\b.*,\s*[\w-]*$/)) {
+        return getComponentCompletions();
+    }
+    
     // After parameter=
     if (beforeCursor.match(/[A-Z]+\s*=\s*$/)) {
         // After FEED=, PROD=, etc. - could suggest stream names (future: from symbol table)
@@ -301,3 +332,247 @@ export function getContextAwareCompletions(lineText: string, position: number):
     // Default: all completions
     return [];
 }
+
+/**
+ * Statements that can start a line in each section
+ */
+const SECTION_STATEMENTS: Partial<Record<SectionType, { label: string; detail: string; insertText: string }[]>> = {
+    COMPONENT_DATA: [
+        { label: 'LIBID', detail: 'Library components', insertText: 'LIBID ${1:1}, ${2:METHANE}' },
+        { label: 'NAME', detail: 'Component display names', insertText: 'NAME ${1:1}, ${2:name}' },
+        { label: 'BANK', detail: 'Component data bank', insertText: 'BANK=${1:SIMSCI}' }
+    ],
+    STREAM_DATA: [
+        { label: 'PROP', detail: 'Stream conditions', insertText: 'PROP DATA=${1:FEED1}, TEMP=${2:25}, PRES=${3:100}, RATE=${4:1000}' },
+        { label: 'COMP', detail: 'Stream composition', insertText: 'COMP DATA=${1:FEED1}, RATE(M)=${2:300}, ${3:400}' }
+    ],
+    THERMODYNAMIC_DATA: [
+        { label: 'METHOD', detail: 'Thermodynamic method', insertText: 'METHOD SYSTEM=${1:SRK}, SET=${2:SET01}' },
+        { label: 'SET', detail: 'Method set', insertText: 'SET=${1:SET01}' }
+    ]
+};
+
+/**
+ * Parameters of STREAM DATA and THERMODYNAMIC DATA statements
+ */
+const STATEMENT_PARAMETERS: Record<string, ParameterCompletion[]> = {
+    PROP: [
+        { name: 'TEMP', detail: 'Temperature', value: '${1:25}' },
+        { name: 'PRES', detail: 'Pressure', value: '${1:100}' },
+        { name: 'RATE', detail: 'Flow rate', value: '${1:1000}' },
+        { name: 'VFRAC', detail: 'Vapor fraction', value: '${1:0.5}' },
+        { name: 'COMP', detail: 'Composition', value: '${1:0.5}, ${2:0.5}' }
+    ],
+    COMP: [
+        { name: 'RATE', detail: 'Component flow rates', value: '${1:300}, ${2:400}' },
+        { name: 'COMP', detail: 'Mole fractions', value: '${1:0.5}, ${2:0.5}' },
+        { name: 'FRAC', detail: 'Fractions', value: '${1:0.5}, ${2:0.5}' }
+    ],
+    METHOD: [
+        { name: 'SYSTEM', detail: 'Thermodynamic method', value: '${1:SRK}' },
+        { name: 'SET', detail: 'Method set name', value: '${1:SET01}' }
+    ]
+};
+
+/**
+ * Completions at a position, offering only what is legal there: statements
+ * of the cursor's section at the start of a statement, the statement's or
+ * unit's own parameters after it, and values after NAME=. Stream, unit and
+ * component names come from the symbol table, built from the tree if not
+ * given.
+ */
+export function provideCompletions(
+    ast: ProgramNode,
+    text: string,
+    position: Position,
+    symbolTable?: SymbolTable,
+    databank: ComponentDatabank = getDefaultDatabank()
+): CompletionItem[] {
+    const lineText = splitLines(text)[position.line] ?? '';
+    if (isInComment(lineText, position.character)) return [];
+
+    const context = getCompletionContext(ast, text, position);
+
+    if (context.reference) {
+        if (!symbolTable) {
+            symbolTable = new SymbolTable(databank);
+            symbolTable.build(ast, text);
+        }
+        return getSymbolCompletions(symbolTable, context.reference);
+    }
+    if (context.parameter || (context.section === 'COMPONENT_DATA' && !context.atStatementStart)) {
+        return getValueCompletions(context, databank);
+    }
+    if (context.atStatementStart) {
+        return getStatementCompletions(context);
+    }
+    return getStatementParameterCompletions(context);
+}
+
+/**
+ * Statements that can start here: the section's statements, the unit's
+ * parameters inside a unit block, and the section headers
+ */
+function getStatementCompletions(context: CompletionContext): CompletionItem[] {
+    const items: CompletionItem[] = [];
+
+    if (context.section === 'UNIT_OPERATIONS') {
+        const units = getUnitOperationCompletions();
+        if (context.unit) {
+            // Inside a unit block its own parameters come first
+            items.push(...getUnitParameterCompletions(context.unit));
+            items.push(...units.map(item => ({ ...item, sortText: `1_${item.label}` })));
+        } else {
+            items.push(...units);
+        }
+    } else if (context.section) {
+        items.push(...(SECTION_STATEMENTS[context.section] ?? []).map(statement => ({
+            label: statement.label,
+            kind: CompletionItemKind.Keyword,
+            detail: statement.detail,
+            insertText: statement.insertText,
+            insertTextFormat: InsertTextFormat.Snippet,
+            sortText: `0_${statement.label}`
+        })));
+    }
+
+    return [...items, ...getSectionCompletions()];
+}
+
+/**
+ * Parameters of the statement being typed
+ */
+function getStatementParameterCompletions(context: CompletionContext): CompletionItem[] {
+    if (context.unit && context.section === 'UNIT_OPERATIONS') {
+        return getUnitParameterCompletions(context.unit);
+    }
+
+    const parameters = (context.keyword && STATEMENT_PARAMETERS[context.keyword]) || [];
+    return parameters.map(p => createParameterItem(p, `0_${p.name}`));
+}
+
+/**
+ * Values of the parameter being typed: the choices of a unit parameter,
+ * thermodynamic methods and library components
+ */
+function getValueCompletions(context: CompletionContext, databank: ComponentDatabank): CompletionItem[] {
+    if (context.unit && context.parameter) {
+        const values = getUnitSchema(context.unit.statementType)?.parameters
+            .find(p => p.name === context.parameter)?.values;
+        if (values) {
+            return values.map(value => ({
+                label: value,
+                kind: CompletionItemKind.EnumMember,
+                detail: `${context.parameter} of ${context.unit!.statementType}`,
+                insertText: value
+            }));
+        }
+    }
+
+    if (context.section === 'COMPONENT_DATA' && /^\s*LIBID\b.*,\s*[\w-]*$/i.test(context.statementText)) {
+        return getComponentCompletions(databank);
+    }
+
+    return getContextAwareCompletions(context.statementText, context.statementText.length);
+}
+
+/**
+ * Names of the document's streams, units or components
+ */
+function getSymbolCompletions(symbolTable: SymbolTable, reference: SymbolReference): CompletionItem[] {
+    return symbolTable.getSymbolsByKind(reference.kind)
+        .filter(symbol => !reference.unitType || symbol.metadata?.unitType === reference.unitType)
+        .map(symbol => ({
+            label: symbol.name,
+            kind: SYMBOL_COMPLETION_KINDS[reference.kind],
+            detail: describeSymbol(symbol),
+            insertText: symbol.name,
+            sortText: `0_${symbol.name}`
+        }));
+}
+
+const SYMBOL_COMPLETION_KINDS: Record<SymbolReference['kind'], CompletionItemKind> = {
+    [SymbolKind.STREAM]: CompletionItemKind.Variable,
+    [SymbolKind.UNIT]: CompletionItemKind.Module,
+    [SymbolKind.COMPONENT]: CompletionItemKind.Constant
+};
+
+/**
+ * Where a symbol comes from, e.g. "defined in STREAM DATA" or "product of F-100"
+ */
+function describeSymbol(symbol: Symbol): string {
+    const metadata = symbol.metadata ?? {};
+
+    switch (symbol.kind) {
+        case SymbolKind.STREAM:
+            if (symbol.references.some(ref => ref.context === 'definition')) return 'defined in STREAM DATA';
+            if (metadata.producedBy) return `product of ${metadata.producedBy}`;
+            return 'not defined';
+        case SymbolKind.UNIT:
+            return `${metadata.unitType} on line ${symbol.definedAt.line}`;
+        default: {
+            const number = metadata.libid !== undefined ? `Component ${metadata.libid}` : 'Component';
+            return metadata.componentName ? `${number} · ${metadata.componentName}` : number;
+        }
+    }
+}
+
+/**
+ * Unit operation snippets, plus keywords for units without a snippet
+ */
+function getUnitOperationCompletions(): CompletionItem[] {
+    const snippets = getUnitOperationSnippets();
+    const keywords = getKeywordCompletions().filter(item =>
+        item.kind === CompletionItemKind.Class && !snippets.some(snippet => snippet.label === item.label));
+
+    return [...snippets, ...keywords];
+}
+
+/**
+ * Parameters a unit accepts, from its schema or keyword documentation.
+ * Parameters the unit already has are left out; FEED and PROD can repeat.
+ */
+function getUnitParameterCompletions(unit: UnitOperationNode): CompletionItem[] {
+    const schema = getUnitSchema(unit.statementType);
+    const names = new Set([
+        'UID', 'FEED', 'PROD',
+        ...(schema ? schema.parameters.map(p => p.name) : getKeywordDoc(unit.statementType)?.parameters ?? [])
+    ]);
+
+    const given = new Set(unit.parameters.map(p => p.name.name.toUpperCase()));
+    if (unit.uid) given.add('UID');
+
+    return Array.from(names)
+        .filter(name => !given.has(name))
+        .map(name => {
+            const common = COMMON_PARAMETERS.find(p => p.name === name);
+            const param = schema?.parameters.find(p => p.name === name);
+            const value = param?.values ? `\${1|${param.values.join(',')}|}` : common?.value ?? '$1';
+            const detail = param?.description ?? common?.detail ?? `${unit.statementType} parameter`;
+
+            // Stream names are completed from the symbol table rather than a placeholder
+            if (name === 'FEED' || name === 'PROD') {
+                return { ...createParameterItem({ name, detail, value: '' }, `0_${name}`), command: TRIGGER_SUGGEST };
+            }
+            return createParameterItem({ name, detail, value }, `0_${name}`);
+        });
+}
+
+/**
+ * Command that opens the completion list again after an item is inserted
+ */
+const TRIGGER_SUGGEST: Command = { title: 'Suggest', command: 'editor.action.triggerSuggest' };
+
+/**
+ * Completion item inserting NAME=value
+ */
+function createParameterItem(param: ParameterCompletion, sortText: string): CompletionItem {
+    return {
+        label: param.name,
+        kind: CompletionItemKind.Property,
+        detail: param.detail,
+        insertText: `${param.name}=${param.value}`,
+        insertTextFormat: InsertTextFormat.Snippet,
+        sortText
+    };
+}
@@ -0,0 +1,236 @@
+/**
+ * Component Databank for PRO/II Language Server
+ * Pure-component properties for LIBID lookups, from the bundled offline
+ * library (data/components.json) and optional project-local files
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Name of the project-local component file, looked up in workspace folders
+ */
+export const PROJECT_COMPONENT_FILE = 'proii-components.json';
+
+/**
+ * Bundled component library, next to the compiled and source folders
+ */
+const BUNDLED_COMPONENT_FILE = path.join(__dirname, '..', 'data', 'components.json');
+
+/**
+ * A pure component. Properties are in SI-based units: Tc and NBP in K,
+ * Pc in kPa, MW in g/mol.
+ */
+export interface PureComponent {
+    id: string; // Library ID used in LIBID statements (METHANE)
+    name: string; // Display name (Methane)
+    aliases: string[]; // Other accepted names (C1, CH4)
+    formula?: string;
+    family?: string; // Paraffin, Aromatic, Inorganic, Amine, ...
+    mw?: number;
+    tc?: number;
+    pc?: number;
+    omega?: number;
+    nbp?: number;
+}
+
+/**
+ * Components read from a component file, with any problems found
+ */
+export interface ComponentFileResult {
+    components: PureComponent[];
+    errors: string[];
+}
+
+const NUMERIC_PROPERTIES = ['mw', 'tc', 'pc', 'omega', 'nbp'] as const;
+
+/**
+ * Read components from the text of a component file:
+ * { "components": [{ "id": "MYCOMP", "name": "...", "mw": 100.2, ... }] }
+ */
+export function parseComponentFile(text: string): ComponentFileResult {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        return { components: [], errors: [`Invalid JSON: ${(error as Error).message}`] };
+    }
+
+    const entries = typeof data === 'object' && data !== null ? (data as { components?: unknown }).components : undefined;
+    if (!Array.isArray(entries)) {
+        return { components: [], errors: ['Expected a "components" array'] };
+    }
+
+    const components: PureComponent[] = [];
+    const errors: string[] = [];
+
+    entries.forEach((value: unknown, index) => {
+        const entry = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+        const id = typeof entry.id === 'string' ? entry.id.trim() : '';
+        if (!id) {
+            errors.push(`Component ${index + 1}: missing "id"`);
+            return;
+        }
+
+        const component: PureComponent = {
+            id: id.toUpperCase(),
+            name: typeof entry.name === 'string' ? entry.name : id,
+            aliases: Array.isArray(entry.aliases)
+                ? entry.aliases.filter((alias): alias is string => typeof alias === 'string').map(alias => alias.toUpperCase())
+                : []
+        };
+        if (typeof entry.formula === 'string') component.formula = entry.formula;
+        if (typeof entry.family === 'string') component.family = entry.family;
+
+        for (const property of NUMERIC_PROPERTIES) {
+            const propertyValue = entry[property];
+            if (propertyValue === undefined) continue;
+            if (typeof propertyValue === 'number') {
+                component[property] = propertyValue;
+            } else {
+                errors.push(`Component ${component.id}: "${property}" must be a number`);
+            }
+        }
+
+        components.push(component);
+    });
+
+    return { components, errors };
+}
+
+/**
+ * Components of the bundled library, with any problems found. A missing
+ * library leaves every LIBID unknown, so it is reported, not ignored.
+ */
+export function loadBundledComponents(filePath: string = BUNDLED_COMPONENT_FILE): ComponentFileResult {
+    let text: string;
+    try {
+        text = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+        return { components: [], errors: [`Cannot read the component library ${filePath}: ${(error as Error).message}`] };
+    }
+    return parseComponentFile(text);
+}
+
+/**
+ * Formula with subscript digits, e.g. C₃H₈
+ */
+export function formatFormula(formula: string): string {
+    return formula.replace(/\d/g, digit => String.fromCharCode(0x2080 + Number(digit)));
+}
+
+/**
+ * Pure-component library. Project files extend the bundled library and
+ * replace bundled components with the same ID.
+ */
+export class ComponentDatabank {
+    private bundled: PureComponent[];
+    private bundledErrors: string[] = [];
+    private projectFiles: Map<string, PureComponent[]> = new Map();
+    private index: Map<string, PureComponent> = new Map();
+
+    constructor(components?: PureComponent[]) {
+        if (components) {
+            this.bundled = components;
+        } else {
+            const result = loadBundledComponents();
+            this.bundled = result.components;
+            this.bundledErrors = result.errors;
+        }
+        this.rebuildIndex();
+    }
+
+    /**
+     * Problems found loading the bundled library
+     */
+    public getBundledErrors(): string[] {
+        return this.bundledErrors;
+    }
+
+    /**
+     * Find a component by library ID or alias (case-insensitive)
+     */
+    public lookup(name: string): PureComponent | undefined {
+        return this.index.get(name.toUpperCase());
+    }
+
+    /**
+     * All components, project components last
+     */
+    public getComponents(): PureComponent[] {
+        const byId = new Map<string, PureComponent>();
+        for (const component of [...this.bundled, ...Array.from(this.projectFiles.values()).flat()]) {
+            byId.delete(component.id);
+            byId.set(component.id, component);
+        }
+        return Array.from(byId.values());
+    }
+
+    /**
+     * Every name a component can be referred to by
+     */
+    public getNames(): string[] {
+        return Array.from(this.index.keys());
+    }
+
+    /**
+     * Add or replace the components of a project file
+     */
+    public setProjectComponents(source: string, components: PureComponent[]): void {
+        this.projectFiles.set(source, components);
+        this.rebuildIndex();
+    }
+
+    /**
+     * Forget the components of a project file (e.g. deleted from disk)
+     */
+    public removeProjectComponents(source: string): void {
+        if (this.projectFiles.delete(source)) {
+            this.rebuildIndex();
+        }
+    }
+
+    /**
+     * Read a project component file from disk
+     *
+     * @returns Problems found in the file; empty if it loaded cleanly
+     */
+    public async loadProjectFile(filePath: string): Promise<string[]> {
+        let text: string;
+        try {
+            text = await fs.promises.readFile(filePath, 'utf8');
+        } catch {
+            this.removeProjectComponents(filePath);
+            return [];
+        }
+
+        const { components, errors } = parseComponentFile(text);
+        this.setProjectComponents(filePath, components);
+        return errors;
+    }
+
+    /**
+     * Map every ID and alias to its component. Later sources win.
+     */
+    private rebuildIndex(): void {
+        this.index.clear();
+
+        for (const component of this.getComponents()) {
+            for (const name of [component.id, ...component.aliases]) {
+                this.index.set(name.toUpperCase(), component);
+            }
+        }
+    }
+}
+
+let defaultDatabank: ComponentDatabank | undefined;
+
+/**
+ * The databank shared by the server, loaded on first use
+ */
+export function getDefaultDatabank(): ComponentDatabank {
+    if (!defaultDatabank) {
+        defaultDatabank = new ComponentDatabank();
+    }
+    return defaultDatabank;
+}
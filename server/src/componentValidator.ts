@@ -0,0 +1,196 @@
+/**
+ * Component Validator for PRO/II Language Server
+ * Checks LIBID statements against the component databank: unknown
+ * components (with suggestions), duplicate components and component
+ * numbers that repeat or skip
+ */
+
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver/node';
+import { ProgramNode, ComponentDataNode, ComponentNode, NumberNode } from './ast';
+import { ComponentDatabank, getDefaultDatabank } from './componentDatabank';
+import { createDiagnostic, spanToRange } from './documentUtils';
+
+/**
+ * Diagnostic codes reported by the component validator
+ */
+export const ComponentCodes = {
+    UNKNOWN_COMPONENT: 'unknown-component',
+    DUPLICATE_COMPONENT: 'duplicate-component',
+    DUPLICATE_COMPONENT_NUMBER: 'duplicate-component-number',
+    SKIPPED_COMPONENT_NUMBER: 'skipped-component-number'
+} as const;
+
+/**
+ * Maximum number of "did you mean" suggestions
+ */
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Run all component checks on a parsed document
+ */
+export function validateComponents(ast: ProgramNode, databank: ComponentDatabank = getDefaultDatabank()): Diagnostic[] {
+    const components = getLibraryComponents(ast);
+
+    return [
+        ...checkUnknownComponents(components, databank),
+        ...checkDuplicateComponents(components, databank),
+        ...checkComponentNumbers(components)
+    ];
+}
+
+/**
+ * Levenshtein distance between two names, ignoring case
+ */
+export function editDistance(a: string, b: string): number {
+    const s = a.toUpperCase();
+    const t = b.toUpperCase();
+    let previous = Array.from({ length: t.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= s.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= t.length; j++) {
+            const substitution = previous[j - 1] + (s[i - 1] === t[j - 1] ? 0 : 1);
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+        }
+        previous = current;
+    }
+
+    return previous[t.length];
+}
+
+/**
+ * Known names closest to an unknown one. Only the names at the smallest
+ * distance are suggested, and none further than a third of the name's
+ * length (at least 1).
+ */
+export function suggestNames(name: string, candidates: string[], limit = MAX_SUGGESTIONS): string[] {
+    const maxDistance = Math.max(1, Math.floor(name.length / 3));
+    const matches = candidates
+        .map(candidate => ({ candidate, distance: editDistance(name, candidate) }))
+        .filter(match => match.distance <= maxDistance);
+    const best = Math.min(...matches.map(match => match.distance));
+
+    return matches
+        .filter(match => match.distance === best)
+        .map(match => match.candidate)
+        .sort()
+        .slice(0, limit);
+}
+
+/**
+ * Component names that are not in the databank
+ */
+function checkUnknownComponents(components: ComponentNode[], databank: ComponentDatabank): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const names = databank.getNames();
+
+    for (const comp of components) {
+        if (databank.lookup(comp.identifier)) continue;
+
+        const suggestions = suggestNames(comp.identifier, names);
+        const hint = suggestions.length > 0
+            ? `. Did you mean ${suggestions.map(s => `'${s}'`).join(', ')}?`
+            : '';
+        diagnostics.push(createDiagnostic(
+            getIdentifierRange(comp),
+            DiagnosticSeverity.Warning,
+            ComponentCodes.UNKNOWN_COMPONENT,
+            `Component '${comp.identifier}' is not in the component library${hint}`
+        ));
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Components listed more than once, under the same name or an alias
+ */
+function checkDuplicateComponents(components: ComponentNode[], databank: ComponentDatabank): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const first = new Map<string, ComponentNode>();
+
+    for (const comp of components) {
+        const key = databank.lookup(comp.identifier)?.id ?? comp.identifier.toUpperCase();
+        const previous = first.get(key);
+
+        if (!previous) {
+            first.set(key, comp);
+            continue;
+        }
+
+        const alias = previous.identifier.toUpperCase() === comp.identifier.toUpperCase() ? '' : ` as '${previous.identifier}'`;
+        diagnostics.push(createDiagnostic(
+            getIdentifierRange(comp),
+            DiagnosticSeverity.Warning,
+            ComponentCodes.DUPLICATE_COMPONENT,
+            `Duplicate component '${comp.identifier}' (already listed${alias} on line ${previous.endLine})`
+        ));
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Component numbers must run 1, 2, 3, ... Entries without a number take
+ * the next one.
+ */
+function checkComponentNumbers(components: ComponentNode[]): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const used = new Map<number, ComponentNode>();
+    let expected = 1;
+
+    for (const comp of components) {
+        const libid: NumberNode | undefined = comp.libid;
+        const number = libid ? libid.value : expected;
+
+        const previous = used.get(number);
+        if (libid && previous) {
+            diagnostics.push(createDiagnostic(
+                spanToRange(libid),
+                DiagnosticSeverity.Warning,
+                ComponentCodes.DUPLICATE_COMPONENT_NUMBER,
+                `Component number ${number} is already used by '${previous.identifier}'`
+            ));
+        } else if (libid && number > expected) {
+            const skipped = number === expected + 1 ? `${expected}` : `${expected}-${number - 1}`;
+            diagnostics.push(createDiagnostic(
+                spanToRange(libid),
+                DiagnosticSeverity.Warning,
+                ComponentCodes.SKIPPED_COMPONENT_NUMBER,
+                `Component number ${number} skips ${skipped}`
+            ));
+        }
+
+        if (!previous) used.set(number, comp);
+        expected = Math.max(expected, number + 1);
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Components of all LIBID statements, in document order
+ */
+function getLibraryComponents(ast: ProgramNode): ComponentNode[] {
+    const components: ComponentNode[] = [];
+
+    for (const section of ast.sections) {
+        for (const stmt of section.statements) {
+            if (stmt.type === 'ComponentData' && (stmt as ComponentDataNode).statementType === 'LIBID') {
+                components.push(...(stmt as ComponentDataNode).components);
+            }
+        }
+    }
+
+    return components;
+}
+
+/**
+ * Range of a component's name (the component span also covers its number)
+ */
+function getIdentifierRange(comp: ComponentNode): Range {
+    return {
+        start: { line: comp.endLine - 1, character: comp.column - 1 },
+        end: { line: comp.endLine - 1, character: comp.column - 1 + comp.identifier.length }
+    };
+}
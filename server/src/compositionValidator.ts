@@ -0,0 +1,269 @@
+/**
+ * Composition Validator for PRO/II Language Server
+ * Checks stream compositions (COMP DATA and PROP ... COMP=) against the
+ * components declared in COMPONENT DATA, and offers a quick fix that
+ * normalizes them
+ */
+
+import { CodeAction, CodeActionKind, Diagnostic, DiagnosticSeverity, TextEdit } from 'vscode-languageserver/node';
+import { ASTNode, ProgramNode, StreamDataNode, ComponentDataNode, ParameterNode, NumberNode } from './ast';
+import { createDiagnostic, spanToRange } from './documentUtils';
+import { formatValue } from './units';
+import { SyntaxNode, findSyntaxNode, printNodeText } from './syntaxTree';
+
+/**
+ * Diagnostic codes reported by the composition validator
+ */
+export const CompositionCodes = {
+    COUNT_MISMATCH: 'composition-count',
+    SUM_MISMATCH: 'composition-sum',
+    NEGATIVE_VALUE: 'negative-composition'
+} as const;
+
+/**
+ * Relative tolerance for fractions summing to 1 or percentages to 100
+ */
+const SUM_TOLERANCE = 1e-3;
+
+/**
+ * Parameters given as fractions, which must sum to 1 or 100. RATE lists
+ * absolute component flows and has no fixed total.
+ */
+const FRACTION_PARAMETERS = new Set(['COMP', 'FRAC']);
+
+/**
+ * Parameters of COMP DATA statements that list one value per component
+ */
+const COMPOSITION_PARAMETERS = new Set(['COMP', 'FRAC', 'RATE']);
+
+/**
+ * A composition found in the document
+ */
+interface Composition {
+    stream: string;
+    param: ParameterNode;
+    values: NumberNode[]; // One value per component, without component numbers
+    indexed: boolean; // Given as number,value pairs (1,0.5/2,0.5)
+    target?: number; // 1 or 100 when the values are fractions or percentages
+}
+
+/**
+ * Run all composition checks on a parsed document
+ */
+export function validateCompositions(ast: ProgramNode): Diagnostic[] {
+    const componentCount = countComponents(ast);
+    const diagnostics: Diagnostic[] = [];
+
+    for (const composition of getCompositions(ast, componentCount)) {
+        diagnostics.push(...checkComposition(composition, componentCount));
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Quick fixes for composition diagnostics: normalize the composition in
+ * place. The edit is printed from the syntax tree, so comments and &
+ * continuations inside the value list are kept.
+ */
+export function provideCompositionActions(tree: SyntaxNode, uri: string, diagnostics: Diagnostic[]): CodeAction[] {
+    const ast = tree.node as ProgramNode;
+    const codes: string[] = Object.values(CompositionCodes);
+    const compositions = getCompositions(ast, countComponents(ast));
+    const actions: CodeAction[] = [];
+    const fixed = new Set<Composition>();
+
+    for (const diagnostic of diagnostics) {
+        if (diagnostic.code === CompositionCodes.COUNT_MISMATCH || !codes.includes(String(diagnostic.code))) continue;
+
+        const line = diagnostic.range.start.line + 1;
+        const column = diagnostic.range.start.character + 1;
+        const composition = compositions.find(c => isInside(c.param, line, column));
+        if (!composition || fixed.has(composition)) continue;
+
+        const edits = getNormalizeEdits(tree, composition);
+        if (edits.length === 0) continue;
+
+        fixed.add(composition);
+        actions.push({
+            title: composition.target !== undefined
+                ? `Normalize composition of ${composition.stream} to ${composition.target}`
+                : `Replace negative values in ${composition.stream} with 0`,
+            kind: CodeActionKind.QuickFix,
+            diagnostics: [diagnostic],
+            isPreferred: true,
+            edit: { changes: { [uri]: edits } }
+        });
+    }
+
+    return actions;
+}
+
+/**
+ * Normalize values to a total: negative values become 0 and the rest are
+ * scaled. Without a total, only the negative values change.
+ */
+export function normalizeComposition(values: number[], target?: number): number[] {
+    const clamped = values.map(value => Math.max(0, value));
+    const sum = clamped.reduce((total, value) => total + value, 0);
+
+    if (target === undefined || sum === 0) return clamped;
+    return clamped.map(value => value * target / sum);
+}
+
+/**
+ * Checks on a single composition
+ */
+function checkComposition(composition: Composition, componentCount: number): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const { stream, param, values, indexed, target } = composition;
+    const valueRange = spanToRange(param.value);
+
+    if (componentCount > 0 && !indexed && values.length !== componentCount) {
+        diagnostics.push(createDiagnostic(
+            valueRange,
+            DiagnosticSeverity.Warning,
+            CompositionCodes.COUNT_MISMATCH,
+            `${param.name.name} of ${stream} has ${values.length} value(s) but ${componentCount} component(s) are declared`
+        ));
+    }
+
+    for (const value of values) {
+        if (value.value < 0) {
+            diagnostics.push(createDiagnostic(
+                spanToRange(value),
+                DiagnosticSeverity.Warning,
+                CompositionCodes.NEGATIVE_VALUE,
+                `Negative value ${value.raw} in ${param.name.name} of ${stream}`
+            ));
+        }
+    }
+
+    const sum = values.reduce((total, value) => total + value.value, 0);
+    if (target !== undefined && Math.abs(sum - target) > target * SUM_TOLERANCE) {
+        diagnostics.push(createDiagnostic(
+            valueRange,
+            DiagnosticSeverity.Warning,
+            CompositionCodes.SUM_MISMATCH,
+            `${param.name.name} of ${stream} sums to ${formatValue(sum)}, not ${target}`
+        ));
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Edit replacing the value list with its normalized values
+ */
+function getNormalizeEdits(tree: SyntaxNode, composition: Composition): TextEdit[] {
+    const normalized = normalizeComposition(composition.values.map(v => v.value), composition.target);
+    const valueNode = findSyntaxNode(tree, composition.param.value);
+    const replacements = new Map<ASTNode, string>();
+
+    composition.values.forEach((value, i) => {
+        const text = formatValue(normalized[i]);
+        if (Number(text) !== value.value) replacements.set(value, text);
+    });
+    if (!valueNode || replacements.size === 0) return [];
+
+    return [TextEdit.replace(spanToRange(composition.param.value), printNodeText(valueNode, replacements))];
+}
+
+/**
+ * Compositions of all stream statements: the composition parameters of
+ * COMP DATA and COMP= of PROP DATA
+ */
+function getCompositions(ast: ProgramNode, componentCount: number): Composition[] {
+    const compositions: Composition[] = [];
+
+    for (const section of ast.sections) {
+        for (const stmt of section.statements) {
+            if (stmt.type !== 'StreamData') continue;
+
+            const data = stmt as StreamDataNode;
+            for (const param of data.parameters) {
+                const name = param.name.name.toUpperCase();
+                const isComposition = data.statementType === 'COMP' ? COMPOSITION_PARAMETERS.has(name) : name === 'COMP';
+                if (!isComposition) continue;
+
+                const composition = readComposition(data.streamName.name, param, componentCount);
+                if (composition) compositions.push(composition);
+            }
+        }
+    }
+
+    return compositions;
+}
+
+/**
+ * Read the values of a composition parameter. Lists of number,value pairs
+ * (1,0.5/2,0.5) are recognized by their increasing component numbers.
+ */
+function readComposition(stream: string, param: ParameterNode, componentCount: number): Composition | null {
+    const items = param.value.type === 'List' ? param.value.values : [param.value];
+    if (items.length === 0 || !items.every(item => item.type === 'Number')) return null;
+
+    const numbers = items as NumberNode[];
+    const indexed = param.value.type === 'List' && param.value.separator === ',' && isIndexed(numbers, componentCount);
+    const values = indexed ? numbers.filter((_, i) => i % 2 === 1) : numbers;
+
+    return {
+        stream,
+        param,
+        values,
+        indexed,
+        target: getTarget(param.name.name.toUpperCase(), values)
+    };
+}
+
+/**
+ * Check if numbers alternate between increasing component numbers and values
+ */
+function isIndexed(numbers: NumberNode[], componentCount: number): boolean {
+    if (numbers.length % 2 !== 0) return false;
+
+    let previous = 0;
+    for (let i = 0; i < numbers.length; i += 2) {
+        const index = numbers[i].value;
+        if (!Number.isInteger(index) || index <= previous || (componentCount > 0 && index > componentCount)) return false;
+        previous = index;
+    }
+    return true;
+}
+
+/**
+ * Total the values should sum to: 1 for fractions, 100 for percentages,
+ * none for rates
+ */
+function getTarget(name: string, values: NumberNode[]): number | undefined {
+    if (!FRACTION_PARAMETERS.has(name)) return undefined;
+
+    const sum = values.reduce((total, value) => total + Math.max(0, value.value), 0);
+    return sum > 10 ? 100 : 1;
+}
+
+/**
+ * Number of components declared in LIBID statements
+ */
+function countComponents(ast: ProgramNode): number {
+    let count = 0;
+
+    for (const section of ast.sections) {
+        for (const stmt of section.statements) {
+            if (stmt.type === 'ComponentData' && (stmt as ComponentDataNode).statementType === 'LIBID') {
+                count += (stmt as ComponentDataNode).components.length;
+            }
+        }
+    }
+
+    return count;
+}
+
+/**
+ * Check if a 1-based position falls inside a node
+ */
+function isInside(node: ParameterNode, line: number, column: number): boolean {
+    const afterStart = line > node.startLine || (line === node.startLine && column >= node.startColumn);
+    const beforeEnd = line < node.endLine || (line === node.endLine && column < node.endColumn);
+    return afterStart && beforeEnd;
+}
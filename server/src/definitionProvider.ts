@@ -0,0 +1,52 @@
+/**
+ * Definition Provider for PRO/II Language Server
+ * Resolves streams, unit UIDs and components to where they are defined
+ */
+
+import { Location, Position, Range } from 'vscode-languageserver/node';
+import { SymbolTable, SymbolKind, Symbol } from './symbolTable';
+import { getWordAtPosition, isInComment } from './documentUtils';
+
+/**
+ * Get the range of a symbol's definition (LSP 0-based positions)
+ */
+export function getDefinitionRange(symbol: Symbol): Range {
+    const line = symbol.definedAt.line - 1;
+    const character = symbol.definedAt.column !== undefined ? symbol.definedAt.column - 1 : 0;
+
+    return {
+        start: { line, character },
+        end: { line, character: character + symbol.name.length }
+    };
+}
+
+/**
+ * Find the definition of the symbol under the cursor
+ *
+ * - Streams resolve to their PROP DATA / COMP DATA entry in STREAM DATA,
+ *   or to the unit producing them when they have no stream data
+ * - Unit UIDs resolve to the unit header
+ * - Components resolve to their LIBID / NAME entry
+ */
+export function provideDefinition(
+    symbolTable: SymbolTable,
+    uri: string,
+    lineText: string,
+    position: Position
+): Location | null {
+    if (isInComment(lineText, position.character)) {
+        return null;
+    }
+
+    const word = getWordAtPosition(lineText, position.character);
+    if (!word) {
+        return null;
+    }
+
+    const symbol = symbolTable.getSymbol(word.word);
+    if (!symbol || symbol.kind === SymbolKind.PARAMETER) {
+        return null;
+    }
+
+    return Location.create(uri, getDefinitionRange(symbol));
+}
@@ -0,0 +1,163 @@
+/**
+ * Document Symbol Provider for PRO/II Language Server
+ * Builds the hierarchical outline (sections > units, streams, components)
+ */
+
+import { DocumentSymbol, Range, SymbolKind } from 'vscode-languageserver/node';
+import {
+    ProgramNode, SectionNode, StatementNode, UnitOperationNode,
+    ComponentDataNode, ComponentNode, StreamDataNode, ThermodynamicDataNode,
+    IdentifierNode, SectionType
+} from './ast';
+
+/**
+ * Display names for section headers
+ */
+const SECTION_NAMES: Record<SectionType, string> = {
+    'COMPONENT_DATA': 'COMPONENT DATA',
+    'STREAM_DATA': 'STREAM DATA',
+    'THERMODYNAMIC_DATA': 'THERMODYNAMIC DATA',
+    'UNIT_OPERATIONS': 'UNIT OPERATIONS',
+    'PRINT': 'PRINT',
+    'OTHER': 'OTHER'
+};
+
+/**
+ * Build the document outline from the AST
+ *
+ * @param ast Parsed program
+ * @param lines Document lines, used to end ranges at the end of the last line
+ */
+export function provideDocumentSymbols(ast: ProgramNode, lines: string[]): DocumentSymbol[] {
+    // OTHER sections only hold regions the parser skipped
+    return ast.sections
+        .filter(section => section.sectionType !== 'OTHER')
+        .map(section => createSectionSymbol(section, lines));
+}
+
+/**
+ * Create the symbol for a section with its statements nested inside
+ */
+function createSectionSymbol(section: SectionNode, lines: string[]): DocumentSymbol {
+    const range = lineRange(section.startLine, section.endLine, lines);
+    const children: DocumentSymbol[] = [];
+
+    for (const stmt of section.statements) {
+        const symbol = createStatementSymbol(stmt, lines);
+        if (symbol) children.push(symbol);
+    }
+
+    return {
+        name: SECTION_NAMES[section.sectionType],
+        kind: SymbolKind.Namespace,
+        range,
+        selectionRange: lineRange(section.startLine, section.startLine, lines),
+        children
+    };
+}
+
+/**
+ * Create the symbol for a statement inside a section
+ */
+function createStatementSymbol(stmt: StatementNode, lines: string[]): DocumentSymbol | null {
+    const range = lineRange(stmt.startLine, stmt.endLine, lines);
+    const header = lineRange(stmt.startLine, stmt.startLine, lines);
+
+    switch (stmt.type) {
+        case 'UnitOperation': {
+            const unit = stmt as UnitOperationNode;
+            return {
+                name: unit.uid ? unit.uid.name : unit.statementType,
+                detail: unit.statementType,
+                kind: SymbolKind.Class,
+                range,
+                selectionRange: unit.uid ? identifierRange(unit.uid, header) : header
+            };
+        }
+        case 'StreamData': {
+            const stream = stmt as StreamDataNode;
+            return {
+                name: stream.streamName.name || stream.statementType,
+                detail: `${stream.statementType} ${stream.dataType}`.trim(),
+                kind: SymbolKind.Variable,
+                range,
+                selectionRange: identifierRange(stream.streamName, header)
+            };
+        }
+        case 'ComponentData': {
+            const compData = stmt as ComponentDataNode;
+            return {
+                name: compData.statementType,
+                detail: `${compData.components.length} component(s)`,
+                kind: SymbolKind.Array,
+                range,
+                selectionRange: header,
+                children: compData.components.map(createComponentSymbol)
+            };
+        }
+        case 'ThermodynamicData': {
+            const thermo = stmt as ThermodynamicDataNode;
+            return {
+                name: thermo.method ? `${thermo.statementType} ${thermo.method}` : thermo.statementType,
+                kind: SymbolKind.Property,
+                range,
+                selectionRange: header
+            };
+        }
+        case 'PrintStatement':
+            return {
+                name: 'PRINT',
+                kind: SymbolKind.Property,
+                range,
+                selectionRange: header
+            };
+        default:
+            return null;
+    }
+}
+
+/**
+ * Create the symbol for a component entry
+ */
+function createComponentSymbol(comp: ComponentNode): DocumentSymbol {
+    const line = comp.endLine - 1;
+    const character = comp.column - 1;
+    const range: Range = {
+        start: { line, character },
+        end: { line, character: character + comp.identifier.length }
+    };
+
+    return {
+        name: comp.identifier,
+        detail: comp.libid ? `${comp.libid.value}` : undefined,
+        kind: SymbolKind.Constant,
+        range,
+        selectionRange: range
+    };
+}
+
+/**
+ * Range covering whole lines (1-based AST lines to 0-based LSP positions)
+ */
+function lineRange(startLine: number, endLine: number, lines: string[]): Range {
+    const end = Math.max(startLine, endLine) - 1;
+    return {
+        start: { line: startLine - 1, character: 0 },
+        end: { line: end, character: (lines[end] || '').replace(/\r$/, '').length }
+    };
+}
+
+/**
+ * Range of an identifier, falling back to the statement header line when
+ * the name is missing
+ */
+function identifierRange(identifier: IdentifierNode, header: Range): Range {
+    if (!identifier.name) {
+        return header;
+    }
+
+    return {
+        start: { line: identifier.startLine - 1, character: identifier.startColumn - 1 },
+        end: { line: identifier.endLine - 1, character: identifier.endColumn - 1 }
+    };
+}
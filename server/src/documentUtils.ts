@@ -0,0 +1,85 @@
+/**
+ * Document text helpers shared by the LSP providers
+ */
+
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver/node';
+import { SourceSpan } from './ast';
+
+/**
+ * A word found at a cursor position (0-based columns, end exclusive)
+ */
+export interface WordAtPosition {
+    word: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Characters that make up PRO/II names (stream names like FEED-3, UIDs like F-100)
+ */
+const WORD_CHAR = /[A-Za-z0-9_-]/;
+
+/**
+ * Split document text into lines, accepting LF and CRLF line endings
+ */
+export function splitLines(text: string): string[] {
+    return text.split(/\r?\n/);
+}
+
+/**
+ * Get the word under the cursor on a line
+ */
+export function getWordAtPosition(lineText: string, character: number): WordAtPosition | null {
+    let start = character;
+    let end = character;
+    while (start > 0 && WORD_CHAR.test(lineText[start - 1])) start--;
+    while (end < lineText.length && WORD_CHAR.test(lineText[end])) end++;
+
+    const word = lineText.substring(start, end);
+    if (!word) return null;
+
+    return { word, start, end };
+}
+
+/**
+ * Check if a position on a line falls inside a $ or % comment
+ */
+export function isInComment(lineText: string, character: number): boolean {
+    let quote: string | null = null;
+
+    for (let i = 0; i < character && i < lineText.length; i++) {
+        const char = lineText[i];
+        if (quote) {
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '$' || char === '%') {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Convert a 1-based AST span (end column exclusive) to a 0-based LSP range
+ */
+export function spanToRange(span: SourceSpan): Range {
+    return {
+        start: { line: span.startLine - 1, character: span.startColumn - 1 },
+        end: { line: span.endLine - 1, character: span.endColumn - 1 }
+    };
+}
+
+/**
+ * Create a diagnostic reported by the language server
+ */
+export function createDiagnostic(range: Range, severity: DiagnosticSeverity, code: string, message: string): Diagnostic {
+    return {
+        severity,
+        range,
+        message,
+        code,
+        source: 'proii-lsp'
+    };
+}
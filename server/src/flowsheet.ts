@@ -0,0 +1,505 @@
+/**
+ * Flowsheet Graph for PRO/II Language Server
+ * Directed graph of unit operations connected by streams, with connected
+ * components, recycle loops (with suggested tear streams) and the
+ * calculation order
+ */
+
+import { ProgramNode, UnitOperationNode } from './ast';
+
+/**
+ * A unit operation in the flowsheet
+ */
+export interface FlowsheetUnit {
+    id: string; // UID, or TYPE@line for units without one
+    unitType: string; // FLASH, COLUMN, etc.
+    line: number; // 1-based line of the unit keyword
+    feeds: string[]; // Stream names (uppercase)
+    products: string[];
+    node: UnitOperationNode;
+}
+
+/**
+ * A stream and the units it connects
+ */
+export interface FlowsheetStream {
+    name: string; // Uppercase stream name
+    producers: string[]; // Unit ids; empty for external feeds
+    consumers: string[]; // Unit ids; empty for final products
+}
+
+/**
+ * A stream carrying material from one unit to another
+ */
+export interface FlowsheetEdge {
+    from: string;
+    to: string;
+    stream: string;
+}
+
+/**
+ * A recycle loop (strongly connected set of units)
+ */
+export interface RecycleLoop {
+    units: string[]; // Unit ids in calculation order
+    streams: string[]; // Streams between units of the loop
+    tearStreams: string[]; // Streams to tear so the loop can be calculated in sequence
+}
+
+/**
+ * Diagram model of a flowsheet: units placed in columns (layers) and rows,
+ * and one connection per stream between two units. Feeds have no source
+ * unit and final products no target unit.
+ */
+export interface FlowsheetView {
+    units: Array<{
+        id: string;
+        unitType: string;
+        line: number; // 0-based, for revealing in the editor
+        layer: number;
+        row: number;
+    }>;
+    streams: Array<{
+        name: string;
+        from?: string;
+        to?: string;
+        tear: boolean;
+    }>;
+}
+
+/**
+ * Flowsheet graph built from the UNIT OPERATIONS section
+ */
+export class FlowsheetGraph {
+    private units: Map<string, FlowsheetUnit> = new Map();
+    private streams: Map<string, FlowsheetStream> = new Map();
+    private edges: FlowsheetEdge[] = [];
+    private loops: RecycleLoop[] = [];
+    private order: string[] = [];
+
+    /**
+     * Build the graph from an AST
+     */
+    public build(ast: ProgramNode): void {
+        this.units.clear();
+        this.streams.clear();
+        this.edges = [];
+
+        for (const section of ast.sections) {
+            for (const stmt of section.statements) {
+                if (stmt.type === 'UnitOperation') {
+                    this.addUnit(stmt as UnitOperationNode);
+                }
+            }
+        }
+
+        for (const stream of this.streams.values()) {
+            for (const from of stream.producers) {
+                for (const to of stream.consumers) {
+                    this.edges.push({ from, to, stream: stream.name });
+                }
+            }
+        }
+
+        this.loops = this.findRecycleLoops();
+        this.order = this.computeCalculationOrder();
+        this.loops.sort((a, b) => this.order.indexOf(a.units[0]) - this.order.indexOf(b.units[0]));
+    }
+
+    /**
+     * Add a unit and register its streams
+     */
+    private addUnit(node: UnitOperationNode): void {
+        let id = node.uid && node.uid.name ? node.uid.name.toUpperCase() : `${node.statementType}@${node.startLine}`;
+        if (this.units.has(id)) {
+            id = `${id}@${node.startLine}`;
+        }
+
+        const feeds = node.feedStreams.map(ref => ref.streamName.name.toUpperCase());
+        const products = node.productStreams.map(ref => ref.streamName.name.toUpperCase());
+
+        this.units.set(id, { id, unitType: node.statementType, line: node.startLine, feeds, products, node });
+
+        for (const name of feeds) {
+            this.getOrCreateStream(name).consumers.push(id);
+        }
+        for (const name of products) {
+            this.getOrCreateStream(name).producers.push(id);
+        }
+    }
+
+    private getOrCreateStream(name: string): FlowsheetStream {
+        let stream = this.streams.get(name);
+        if (!stream) {
+            stream = { name, producers: [], consumers: [] };
+            this.streams.set(name, stream);
+        }
+        return stream;
+    }
+
+    /**
+     * Get all units in document order
+     */
+    public getUnits(): FlowsheetUnit[] {
+        return Array.from(this.units.values());
+    }
+
+    /**
+     * Get a unit by id or UID (case insensitive)
+     */
+    public getUnit(id: string): FlowsheetUnit | undefined {
+        return this.units.get(id.toUpperCase()) || this.units.get(id);
+    }
+
+    /**
+     * Get all streams
+     */
+    public getStreams(): FlowsheetStream[] {
+        return Array.from(this.streams.values());
+    }
+
+    /**
+     * Get a stream by name (case insensitive)
+     */
+    public getStream(name: string): FlowsheetStream | undefined {
+        return this.streams.get(name.toUpperCase());
+    }
+
+    /**
+     * Get all unit-to-unit connections
+     */
+    public getEdges(): FlowsheetEdge[] {
+        return this.edges;
+    }
+
+    /**
+     * Streams entering the flowsheet (not produced by any unit)
+     */
+    public getFeedStreams(): FlowsheetStream[] {
+        return this.getStreams().filter(stream => stream.producers.length === 0);
+    }
+
+    /**
+     * Streams leaving the flowsheet (not fed to any unit)
+     */
+    public getProductStreams(): FlowsheetStream[] {
+        return this.getStreams().filter(stream => stream.consumers.length === 0);
+    }
+
+    /**
+     * Units whose products reach this unit, directly or through other units
+     */
+    public getUpstreamUnits(id: string): string[] {
+        return this.reachable(id, edge => edge.to, edge => edge.from);
+    }
+
+    /**
+     * Units fed by this unit's products, directly or through other units
+     */
+    public getDownstreamUnits(id: string): string[] {
+        return this.reachable(id, edge => edge.from, edge => edge.to);
+    }
+
+    /**
+     * Groups of units connected by streams (ignoring direction), each in
+     * document order
+     */
+    public getConnectedComponents(): string[][] {
+        const parent = new Map<string, string>();
+        const find = (id: string): string => {
+            while (parent.get(id) !== id) {
+                parent.set(id, parent.get(parent.get(id)!)!);
+                id = parent.get(id)!;
+            }
+            return id;
+        };
+
+        for (const id of this.units.keys()) {
+            parent.set(id, id);
+        }
+        for (const edge of this.edges) {
+            parent.set(find(edge.from), find(edge.to));
+        }
+
+        const groups = new Map<string, string[]>();
+        for (const id of this.units.keys()) {
+            const root = find(id);
+            if (!groups.has(root)) groups.set(root, []);
+            groups.get(root)!.push(id);
+        }
+
+        return Array.from(groups.values());
+    }
+
+    /**
+     * Recycle loops, in calculation order
+     */
+    public getRecycleLoops(): RecycleLoop[] {
+        return this.loops;
+    }
+
+    /**
+     * Order in which units can be calculated: every unit comes after the
+     * units feeding it, except across the tear streams of recycle loops
+     */
+    public getCalculationOrder(): string[] {
+        return this.order;
+    }
+
+    /**
+     * Units grouped into layers for drawing: each unit is one layer after
+     * the furthest unit feeding it, not counting tear streams
+     */
+    public getLayers(): string[][] {
+        const tears = this.getTearEdges();
+        const depth = new Map<string, number>();
+
+        for (const id of this.order) {
+            let layer = 0;
+            for (const edge of this.edges) {
+                if (edge.to === id && !tears.has(edge) && depth.has(edge.from)) {
+                    layer = Math.max(layer, depth.get(edge.from)! + 1);
+                }
+            }
+            depth.set(id, layer);
+        }
+
+        const layers: string[][] = [];
+        for (const id of this.order) {
+            const layer = depth.get(id)!;
+            while (layers.length <= layer) layers.push([]);
+            layers[layer].push(id);
+        }
+
+        return layers;
+    }
+
+    /**
+     * Diagram model with unit positions and stream connections
+     */
+    public getView(): FlowsheetView {
+        const tears = this.getTearEdges();
+        const units: FlowsheetView['units'] = [];
+
+        this.getLayers().forEach((ids, layer) => {
+            ids.forEach((id, row) => {
+                const unit = this.units.get(id)!;
+                units.push({ id, unitType: unit.unitType, line: unit.line - 1, layer, row });
+            });
+        });
+
+        const streams: FlowsheetView['streams'] = [];
+        for (const stream of this.streams.values()) {
+            if (stream.producers.length === 0) {
+                stream.consumers.forEach(to => streams.push({ name: stream.name, to, tear: false }));
+            } else if (stream.consumers.length === 0) {
+                stream.producers.forEach(from => streams.push({ name: stream.name, from, tear: false }));
+            }
+        }
+        for (const edge of this.edges) {
+            streams.push({ name: edge.stream, from: edge.from, to: edge.to, tear: tears.has(edge) });
+        }
+
+        return { units, streams };
+    }
+
+    /**
+     * Edges carrying a tear stream between two units of the same loop
+     */
+    private getTearEdges(): Set<FlowsheetEdge> {
+        const tears = new Set<FlowsheetEdge>();
+
+        for (const loop of this.loops) {
+            for (const edge of this.edges) {
+                if (loop.tearStreams.includes(edge.stream) &&
+                    loop.units.includes(edge.from) && loop.units.includes(edge.to)) {
+                    tears.add(edge);
+                }
+            }
+        }
+
+        return tears;
+    }
+
+    /**
+     * Units reachable from a unit by following edges
+     */
+    private reachable(
+        id: string,
+        edgeStart: (edge: FlowsheetEdge) => string,
+        edgeEnd: (edge: FlowsheetEdge) => string
+    ): string[] {
+        const unit = this.getUnit(id);
+        if (!unit) return [];
+
+        const visited = new Set<string>([unit.id]);
+        const queue = [unit.id];
+
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            for (const edge of this.edges) {
+                if (edgeStart(edge) === current && !visited.has(edgeEnd(edge))) {
+                    visited.add(edgeEnd(edge));
+                    queue.push(edgeEnd(edge));
+                }
+            }
+        }
+
+        visited.delete(unit.id);
+        return this.sortByDocumentOrder(Array.from(visited));
+    }
+
+    /**
+     * Find strongly connected components with more than one unit (or a unit
+     * feeding itself) using Tarjan's algorithm, and pick tear streams for each
+     */
+    private findRecycleLoops(): RecycleLoop[] {
+        const index = new Map<string, number>();
+        const lowLink = new Map<string, number>();
+        const onStack = new Set<string>();
+        const stack: string[] = [];
+        const components: string[][] = [];
+        let counter = 0;
+
+        const connect = (id: string): void => {
+            index.set(id, counter);
+            lowLink.set(id, counter);
+            counter++;
+            stack.push(id);
+            onStack.add(id);
+
+            for (const next of this.successors(id)) {
+                if (!index.has(next)) {
+                    connect(next);
+                    lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+                } else if (onStack.has(next)) {
+                    lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+                }
+            }
+
+            if (lowLink.get(id) === index.get(id)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== id);
+                components.push(component);
+            }
+        };
+
+        for (const id of this.units.keys()) {
+            if (!index.has(id)) connect(id);
+        }
+
+        return components
+            .filter(component => component.length > 1 ||
+                this.edges.some(edge => edge.from === component[0] && edge.to === component[0]))
+            .map(component => this.createLoop(new Set(component)));
+    }
+
+    /**
+     * Describe a loop and choose its tear streams: a depth-first search from
+     * the unit where material enters the loop, tearing the streams that lead
+     * back to a unit still being visited. Removing them leaves no cycle.
+     */
+    private createLoop(members: Set<string>): RecycleLoop {
+        const inner = this.edges.filter(edge => members.has(edge.from) && members.has(edge.to));
+        const ordered = this.sortByDocumentOrder(Array.from(members));
+        const entry = ordered.find(id =>
+            this.edges.some(edge => edge.to === id && !members.has(edge.from)) ||
+            this.units.get(id)!.feeds.some(name => this.streams.get(name)!.producers.length === 0)
+        ) || ordered[0];
+
+        const tearStreams = new Set<string>();
+        const state = new Map<string, 'visiting' | 'done'>();
+        const finished: string[] = [];
+
+        const visit = (id: string): void => {
+            state.set(id, 'visiting');
+            for (const edge of inner.filter(e => e.from === id)) {
+                const nextState = state.get(edge.to);
+                if (nextState === 'visiting') {
+                    tearStreams.add(edge.stream);
+                } else if (!nextState) {
+                    visit(edge.to);
+                }
+            }
+            state.set(id, 'done');
+            finished.push(id);
+        };
+
+        visit(entry);
+        for (const id of ordered) {
+            if (!state.has(id)) visit(id);
+        }
+
+        return {
+            units: finished.reverse(),
+            streams: Array.from(new Set(inner.map(edge => edge.stream))),
+            tearStreams: Array.from(tearStreams)
+        };
+    }
+
+    /**
+     * Topological order of the units, with each recycle loop calculated as a
+     * block in its own order. Ties are broken by document order.
+     */
+    private computeCalculationOrder(): string[] {
+        // Each unit belongs to a block: its loop, or itself
+        const blockOf = new Map<string, number>();
+        const blocks: string[][] = [];
+
+        for (const loop of this.loops) {
+            loop.units.forEach(id => blockOf.set(id, blocks.length));
+            blocks.push(loop.units);
+        }
+        for (const id of this.units.keys()) {
+            if (!blockOf.has(id)) {
+                blockOf.set(id, blocks.length);
+                blocks.push([id]);
+            }
+        }
+
+        const inDegree = blocks.map(() => 0);
+        const successors = blocks.map(() => new Set<number>());
+        for (const edge of this.edges) {
+            const from = blockOf.get(edge.from)!;
+            const to = blockOf.get(edge.to)!;
+            if (from !== to && !successors[from].has(to)) {
+                successors[from].add(to);
+                inDegree[to]++;
+            }
+        }
+
+        const position = (block: number) => Math.min(...blocks[block].map(id => this.units.get(id)!.line));
+        const ready = blocks.map((_, i) => i).filter(i => inDegree[i] === 0);
+        const order: string[] = [];
+
+        while (ready.length > 0) {
+            ready.sort((a, b) => position(a) - position(b));
+            const block = ready.shift()!;
+            order.push(...blocks[block]);
+
+            for (const next of successors[block]) {
+                if (--inDegree[next] === 0) ready.push(next);
+            }
+        }
+
+        return order;
+    }
+
+    /**
+     * Units fed directly by a unit, in document order
+     */
+    private successors(id: string): string[] {
+        return this.sortByDocumentOrder(Array.from(new Set(
+            this.edges.filter(edge => edge.from === id).map(edge => edge.to)
+        )));
+    }
+
+    private sortByDocumentOrder(ids: string[]): string[] {
+        return ids.sort((a, b) => this.units.get(a)!.line - this.units.get(b)!.line);
+    }
+}
@@ -0,0 +1,274 @@
+/**
+ * Flowsheet Export for PRO/II Language Server
+ * Writes the unit and stream connectivity of a flowsheet as Graphviz DOT,
+ * a Mermaid flowchart or JSON
+ */
+
+import { ParameterNode, ValueNode } from './ast';
+import { FlowsheetGraph, FlowsheetUnit } from './flowsheet';
+
+/**
+ * Supported export formats
+ */
+export type ExportFormat = 'dot' | 'mermaid' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['dot', 'mermaid', 'json'];
+
+/**
+ * Version of the JSON export schema. Bump when fields are renamed or removed.
+ */
+export const EXPORT_SCHEMA_VERSION = 1;
+
+/**
+ * JSON export of a flowsheet
+ */
+export interface FlowsheetExport {
+    schema: 'proii-flowsheet';
+    version: number;
+    units: ExportedUnit[];
+    streams: ExportedStream[];
+}
+
+/**
+ * A unit operation in the JSON export
+ */
+export interface ExportedUnit {
+    id: string; // Unique id, as used in stream producers/consumers
+    uid: string | null; // UID as written, null when the unit has none
+    type: string;
+    line: number; // 1-based
+    feeds: string[];
+    products: string[];
+    parameters: ExportedParameter[];
+}
+
+/**
+ * A unit parameter in the JSON export (e.g., TEMP=100, RATE(WT)=500)
+ */
+export interface ExportedParameter {
+    name: string;
+    qualifier?: string;
+    value: ExportedValue;
+}
+
+export type ExportedValue = number | string | ExportedValue[];
+
+/**
+ * A stream in the JSON export
+ */
+export interface ExportedStream {
+    name: string;
+    producers: string[]; // Empty for feeds to the flowsheet
+    consumers: string[]; // Empty for final products
+}
+
+/**
+ * Export a flowsheet in the given format
+ */
+export function exportFlowsheet(graph: FlowsheetGraph, format: ExportFormat): string {
+    switch (format) {
+        case 'dot':
+            return exportDot(graph);
+        case 'mermaid':
+            return exportMermaid(graph);
+        case 'json':
+            return JSON.stringify(exportJson(graph), null, 2) + '\n';
+    }
+}
+
+/**
+ * Check that a string names a supported export format
+ */
+export function isExportFormat(format: unknown): format is ExportFormat {
+    return typeof format === 'string' && (EXPORT_FORMATS as string[]).includes(format);
+}
+
+/**
+ * JSON model of a flowsheet. Units are in document order and streams in
+ * order of first use, so the output only changes when the input does.
+ */
+export function exportJson(graph: FlowsheetGraph): FlowsheetExport {
+    return {
+        schema: 'proii-flowsheet',
+        version: EXPORT_SCHEMA_VERSION,
+        units: graph.getUnits().map(unit => ({
+            id: unit.id,
+            uid: unit.node.uid && unit.node.uid.name ? unit.node.uid.name : null,
+            type: unit.unitType,
+            line: unit.line,
+            feeds: unit.feeds,
+            products: unit.products,
+            parameters: unit.node.parameters.map(param => {
+                const exported: ExportedParameter = { name: param.name.name.toUpperCase(), value: toExportedValue(param.value) };
+                if (param.qualifier) exported.qualifier = param.qualifier.toUpperCase();
+                return exported;
+            })
+        })),
+        streams: graph.getStreams().map(stream => ({
+            name: stream.name,
+            producers: stream.producers,
+            consumers: stream.consumers
+        }))
+    };
+}
+
+/**
+ * Graphviz DOT digraph. Feeds and final products are drawn from or to
+ * point nodes so every stream appears as an edge.
+ */
+export function exportDot(graph: FlowsheetGraph): string {
+    const lines: string[] = [
+        'digraph flowsheet {',
+        '    rankdir=LR;',
+        '    node [shape=box, fontname="Helvetica"];',
+        '    edge [fontname="Helvetica", fontsize=10];',
+        ''
+    ];
+
+    for (const unit of graph.getUnits()) {
+        lines.push(`    ${dotString(unit.id)} [label=${dotString(getUnitLabel(unit).join('\n'))}];`);
+    }
+
+    const terminals = getTerminals(graph);
+    if (terminals.length > 0) lines.push('');
+    for (const terminal of terminals) {
+        lines.push(`    ${dotString(terminal.id)} [shape=point, label=""];`);
+    }
+
+    lines.push('');
+    for (const { from, to, stream } of getConnections(graph)) {
+        lines.push(`    ${dotString(from)} -> ${dotString(to)} [label=${dotString(stream)}];`);
+    }
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Mermaid flowchart. Unit ids such as F-100 are not valid Mermaid node ids,
+ * so nodes are numbered and the id is shown in the label.
+ */
+export function exportMermaid(graph: FlowsheetGraph): string {
+    const lines: string[] = ['flowchart LR'];
+    const nodeIds = new Map<string, string>();
+
+    graph.getUnits().forEach((unit, index) => {
+        const nodeId = `U${index + 1}`;
+        nodeIds.set(unit.id, nodeId);
+        lines.push(`    ${nodeId}["${getUnitLabel(unit).map(mermaidText).join('<br/>')}"]`);
+    });
+
+    getTerminals(graph).forEach((terminal, index) => {
+        const nodeId = `${terminal.kind === 'feed' ? 'IN' : 'OUT'}${index + 1}`;
+        nodeIds.set(terminal.id, nodeId);
+        lines.push(`    ${nodeId}(("${mermaidText(terminal.stream)}"))`);
+    });
+
+    for (const { from, to, stream } of getConnections(graph)) {
+        lines.push(`    ${nodeIds.get(from)} -->|"${mermaidText(stream)}"| ${nodeIds.get(to)}`);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Label lines for a unit: id, type, then one line per parameter
+ */
+function getUnitLabel(unit: FlowsheetUnit): string[] {
+    return [unit.id, unit.unitType, ...unit.node.parameters.map(formatParameter)];
+}
+
+/**
+ * Parameter as written in the input (e.g., RATE(WT)=500)
+ */
+function formatParameter(param: ParameterNode): string {
+    const qualifier = param.qualifier ? `(${param.qualifier.toUpperCase()})` : '';
+    return `${param.name.name.toUpperCase()}${qualifier}=${formatValue(param.value)}`;
+}
+
+function formatValue(value: ValueNode): string {
+    switch (value.type) {
+        case 'Number':
+            return value.raw;
+        case 'Identifier':
+            return value.name;
+        case 'String':
+            return value.value;
+        case 'List':
+            return value.values.map(formatValue).join(value.separator);
+    }
+}
+
+function toExportedValue(value: ValueNode): ExportedValue {
+    switch (value.type) {
+        case 'Number':
+            return value.value;
+        case 'Identifier':
+            return value.name;
+        case 'String':
+            return value.value;
+        case 'List':
+            return value.values.map(toExportedValue);
+    }
+}
+
+/**
+ * Placeholder node at the open end of a feed or final product
+ */
+interface Terminal {
+    id: string;
+    kind: 'feed' | 'product';
+    stream: string;
+}
+
+/**
+ * Placeholder nodes for streams entering or leaving the flowsheet
+ */
+function getTerminals(graph: FlowsheetGraph): Terminal[] {
+    const terminals: Terminal[] = [];
+
+    for (const stream of graph.getStreams()) {
+        if (stream.producers.length === 0) {
+            terminals.push({ id: `feed:${stream.name}`, kind: 'feed', stream: stream.name });
+        } else if (stream.consumers.length === 0) {
+            terminals.push({ id: `product:${stream.name}`, kind: 'product', stream: stream.name });
+        }
+    }
+
+    return terminals;
+}
+
+/**
+ * All stream connections, including those from feeds and to final products,
+ * in order of first use of each stream
+ */
+function getConnections(graph: FlowsheetGraph): Array<{ from: string; to: string; stream: string }> {
+    const connections: Array<{ from: string; to: string; stream: string }> = [];
+
+    for (const stream of graph.getStreams()) {
+        const producers = stream.producers.length > 0 ? stream.producers : [`feed:${stream.name}`];
+        const consumers = stream.consumers.length > 0 ? stream.consumers : [`product:${stream.name}`];
+
+        for (const from of producers) {
+            for (const to of consumers) {
+                connections.push({ from, to, stream: stream.name });
+            }
+        }
+    }
+
+    return connections;
+}
+
+/**
+ * Quoted DOT string
+ */
+function dotString(text: string): string {
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+/**
+ * Escape text for a quoted Mermaid label
+ */
+function mermaidText(text: string): string {
+    return text.replace(/"/g, '#quot;');
+}
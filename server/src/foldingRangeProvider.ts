@@ -0,0 +1,116 @@
+/**
+ * Folding Range Provider for PRO/II Language Server
+ * Folds sections, unit operation blocks, statements continued with &,
+ * CALCULATOR procedures and runs of $ comment lines
+ */
+
+import { FoldingRange, FoldingRangeKind } from 'vscode-languageserver/node';
+import { ProgramNode, UnitOperationNode } from './ast';
+
+/**
+ * Build the folding ranges of a document from the AST
+ *
+ * @param ast Parsed program
+ * @param lines Document lines, for continuations, procedures and comments
+ */
+export function provideFoldingRanges(ast: ProgramNode, lines: string[]): FoldingRange[] {
+    const ranges: FoldingRange[] = [];
+
+    for (const section of ast.sections) {
+        // OTHER sections only hold regions the parser skipped
+        if (section.sectionType === 'OTHER') continue;
+        addRange(ranges, section.startLine, section.endLine);
+
+        for (const stmt of section.statements) {
+            if (stmt.type === 'Error') continue;
+            addRange(ranges, stmt.startLine, stmt.endLine);
+
+            if (stmt.type === 'UnitOperation') {
+                ranges.push(...getUnitBodyRanges(stmt as UnitOperationNode, lines));
+            }
+        }
+    }
+
+    ranges.push(...getCommentRanges(ast, lines));
+
+    // Editors keep one range per start line: the outer one, added first
+    const byStartLine = new Map<number, FoldingRange>();
+    for (const range of ranges) {
+        if (!byStartLine.has(range.startLine)) byStartLine.set(range.startLine, range);
+    }
+
+    return Array.from(byStartLine.values()).sort((a, b) => a.startLine - b.startLine);
+}
+
+/**
+ * Ranges inside a unit block: statements continued with & (a long SPEC or
+ * DEFINE in a COLUMN) and the PROCEDURE of a CALCULATOR, which runs to its
+ * RETURN statement
+ */
+function getUnitBodyRanges(unit: UnitOperationNode, lines: string[]): FoldingRange[] {
+    const ranges: FoldingRange[] = [];
+    let procedureStart: number | undefined;
+    let continuationStart: number | undefined;
+
+    for (let line = unit.startLine; line <= unit.endLine; line++) {
+        const text = (lines[line - 1] ?? '').trim();
+        const word = /^[A-Za-z]+/.exec(text)?.[0].toUpperCase();
+
+        if (unit.statementType === 'CALCULATOR') {
+            if (word === 'PROCEDURE') {
+                procedureStart = line;
+            } else if (word === 'RETURN' && procedureStart !== undefined) {
+                addRange(ranges, procedureStart, line);
+                procedureStart = undefined;
+            }
+        }
+
+        if (text.endsWith('&')) {
+            continuationStart ??= line;
+        } else if (continuationStart !== undefined) {
+            addRange(ranges, continuationStart, line);
+            continuationStart = undefined;
+        }
+    }
+
+    // A procedure without RETURN runs to the end of the unit
+    if (procedureStart !== undefined) {
+        addRange(ranges, procedureStart, unit.endLine);
+    }
+
+    return ranges;
+}
+
+/**
+ * Ranges for runs of two or more lines holding only a comment
+ */
+function getCommentRanges(ast: ProgramNode, lines: string[]): FoldingRange[] {
+    const ranges: FoldingRange[] = [];
+    let runStart: number | undefined;
+    let runEnd = 0;
+
+    for (const comment of ast.comments) {
+        const lineText = lines[comment.startLine - 1] ?? '';
+        if (lineText.substring(0, comment.startColumn - 1).trim()) continue;
+
+        if (runStart === undefined || comment.startLine !== runEnd + 1) {
+            addRange(ranges, runStart, runEnd, FoldingRangeKind.Comment);
+            runStart = comment.startLine;
+        }
+        runEnd = comment.startLine;
+    }
+    addRange(ranges, runStart, runEnd, FoldingRangeKind.Comment);
+
+    return ranges;
+}
+
+/**
+ * Add a range for 1-based AST lines, if it spans more than one line
+ */
+function addRange(ranges: FoldingRange[], startLine: number | undefined, endLine: number, kind?: FoldingRangeKind): void {
+    if (startLine === undefined || endLine <= startLine) return;
+
+    const range: FoldingRange = { startLine: startLine - 1, endLine: endLine - 1 };
+    if (kind) range.kind = kind;
+    ranges.push(range);
+}
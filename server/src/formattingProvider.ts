@@ -0,0 +1,553 @@
+/**
+ * Formatting Provider for PRO/II Language Server
+ * Indents unit operation sub-statements, aligns = in parameter blocks,
+ * upper-cases keywords, wraps long lines with & continuations and keeps one
+ * blank line between sections. Comments are copied unchanged.
+ */
+
+import { FormattingOptions, Range, TextEdit } from 'vscode-languageserver/node';
+import { Lexer } from './lexer';
+import { Parser } from './parser';
+import { TokenType, UNIT_OPERATION_TYPES } from './types';
+import { splitLines } from './documentUtils';
+import { SyntaxNode, SyntaxToken, buildSyntaxTree, getSyntaxTokens } from './syntaxTree';
+
+/**
+ * Formatter settings
+ */
+export interface FormatSettings {
+    indent: string; // One indentation level
+    maxLineLength: number; // Lines longer than this are wrapped with &
+}
+
+/**
+ * PRO/II reads 80 columns of keyword input
+ */
+export const DEFAULT_FORMAT_SETTINGS: FormatSettings = {
+    indent: '  ',
+    maxLineLength: 80
+};
+
+/**
+ * One physical line of a statement
+ */
+interface StatementLine {
+    tokens: SyntaxToken[]; // Code tokens, without & and the comment
+    continued: boolean; // Ends with &
+    comment?: string; // Trailing $ comment
+}
+
+/**
+ * A blank line, a comment line or a statement (with its continuation lines)
+ */
+type Entry =
+    | { kind: 'blank'; startLine: number; endLine: number }
+    | { kind: 'comment'; startLine: number; endLine: number; text: string }
+    | { kind: 'statement'; startLine: number; endLine: number; lines: StatementLine[] };
+
+/**
+ * Formatted output for the source lines startLine..endLine (0-based)
+ */
+interface FormattedChunk {
+    startLine: number;
+    endLine: number;
+    lines: string[];
+}
+
+/**
+ * Format a whole document
+ */
+export function formatText(text: string, settings: FormatSettings = DEFAULT_FORMAT_SETTINGS): string {
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    const lines = formatChunks(text, settings).flatMap(chunk => chunk.lines);
+    return lines.length > 0 ? lines.join(eol) + eol : '';
+}
+
+/**
+ * Format a whole document, returning a single edit (or none if unchanged)
+ */
+export function provideFormatting(text: string, options: FormattingOptions): TextEdit[] {
+    const formatted = formatText(text, getFormatSettings(options));
+    if (formatted === text) return [];
+
+    const sourceLines = splitLines(text);
+    const lastLine = sourceLines.length - 1;
+    return [TextEdit.replace(Range.create(0, 0, lastLine, sourceLines[lastLine].length), formatted)];
+}
+
+/**
+ * Format the statements touched by a range. The whole document is formatted
+ * so that indentation and alignment match full-document formatting, and only
+ * the lines in the range are replaced.
+ */
+export function provideRangeFormatting(text: string, range: Range, options: FormattingOptions): TextEdit[] {
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    const sourceLines = splitLines(text);
+
+    // A selection ending at the start of a line does not include that line
+    const lastSelected = range.end.character === 0 && range.end.line > range.start.line
+        ? range.end.line - 1
+        : range.end.line;
+
+    const chunks = formatChunks(text, getFormatSettings(options))
+        .filter(chunk => chunk.endLine >= range.start.line && chunk.startLine <= lastSelected);
+    if (chunks.length === 0) return [];
+
+    const startLine = chunks[0].startLine;
+    const endLine = chunks[chunks.length - 1].endLine;
+    const lines = chunks.flatMap(chunk => chunk.lines);
+
+    // Replace whole lines, including the line break when there is one
+    let editRange: Range;
+    let newText: string;
+    if (endLine + 1 < sourceLines.length) {
+        editRange = Range.create(startLine, 0, endLine + 1, 0);
+        newText = lines.map(line => line + eol).join('');
+    } else {
+        editRange = Range.create(startLine, 0, endLine, sourceLines[endLine].length);
+        newText = lines.join(eol);
+    }
+
+    const oldLines = sourceLines.slice(startLine, endLine + 1);
+    const oldText = endLine + 1 < sourceLines.length ? oldLines.map(line => line + eol).join('') : oldLines.join(eol);
+    if (oldText === newText) return [];
+
+    return [TextEdit.replace(editRange, newText)];
+}
+
+/**
+ * Formatter settings from the editor's tab options
+ */
+export function getFormatSettings(options: FormattingOptions): FormatSettings {
+    return {
+        ...DEFAULT_FORMAT_SETTINGS,
+        indent: options.insertSpaces ? ' '.repeat(options.tabSize) : '\t'
+    };
+}
+
+/**
+ * Format a document into chunks of output lines, one per source entry
+ */
+function formatChunks(text: string, settings: FormatSettings): FormattedChunk[] {
+    const sourceLines = splitLines(text);
+    if (sourceLines.length > 1 && sourceLines[sourceLines.length - 1] === '') {
+        sourceLines.pop();
+    }
+
+    const tokens = new Lexer(text).tokenize();
+    const entries = readEntries(sourceLines, buildSyntaxTree(text, new Parser(tokens).parse(), tokens));
+    const levels = getIndentLevels(entries);
+    const alignWidths = getAlignWidths(entries, levels, settings);
+    const blankBefore = getSectionBreaks(entries);
+    const chunks: FormattedChunk[] = [];
+
+    entries.forEach((entry, index) => {
+        const lines: string[] = [];
+        if (blankBefore.has(index)) lines.push('');
+
+        if (entry.kind === 'blank') {
+            if (keepBlank(entries, index)) lines.push('');
+        } else if (entry.kind === 'comment') {
+            lines.push(entry.text);
+        } else {
+            lines.push(...formatStatement(entry.lines, levels[index], alignWidths.get(index), settings));
+        }
+
+        chunks.push({ startLine: entry.startLine, endLine: entry.endLine, lines });
+    });
+
+    return chunks;
+}
+
+/**
+ * Split the document into blank lines, comment lines and statements.
+ * A statement includes the lines it continues onto with &. Code comes from
+ * the tokens of the syntax tree, comments and & from their trivia.
+ */
+function readEntries(sourceLines: string[], tree: SyntaxNode): Entry[] {
+    const byLine: StatementLine[] = sourceLines.map(() => ({ tokens: [], continued: false }));
+    for (const token of getSyntaxTokens(tree)) {
+        if (token.tokenType !== TokenType.EOF) byLine[token.line - 1]?.tokens.push(token);
+
+        for (const trivia of [...token.leadingTrivia, ...token.trailingTrivia]) {
+            const statementLine = byLine[trivia.line - 1];
+            if (!statementLine) continue;
+            if (trivia.kind === 'comment') statementLine.comment = trivia.text.trimEnd();
+            if (trivia.kind === 'continuation') statementLine.continued = true;
+        }
+    }
+
+    const entries: Entry[] = [];
+    let line = 0;
+
+    while (line < sourceLines.length) {
+        const { tokens, comment, continued } = byLine[line];
+
+        if (tokens.length === 0 && comment === undefined && !continued) {
+            entries.push({ kind: 'blank', startLine: line, endLine: line });
+            line++;
+            continue;
+        }
+
+        // Comment lines, and & lines with no code to continue, are copied unchanged
+        if (tokens.length === 0) {
+            entries.push({ kind: 'comment', startLine: line, endLine: line, text: sourceLines[line].trimEnd() });
+            line++;
+            continue;
+        }
+
+        const startLine = line;
+        const lines: StatementLine[] = [];
+        for (;;) {
+            lines.push(byLine[line]);
+
+            // Continue onto the next line only if it has code
+            const next = byLine[line + 1];
+            if (!byLine[line].continued || !next || next.tokens.length === 0) break;
+            line++;
+        }
+
+        entries.push({ kind: 'statement', startLine, endLine: line, lines });
+        line++;
+    }
+
+    return entries;
+}
+
+/**
+ * Indentation level of each entry: unit operation sub-statements are
+ * indented one level, everything else starts at the margin
+ */
+function getIndentLevels(entries: Entry[]): number[] {
+    let inUnitOperations = false;
+    let inUnit = false;
+
+    return entries.map(entry => {
+        if (entry.kind !== 'statement') return 0;
+
+        const first = entry.lines[0].tokens[0];
+        if (!first) return inUnit ? 1 : 0;
+
+        if (isSectionHeader(entry)) {
+            inUnitOperations = first.tokenType === TokenType.UNIT_OPERATIONS;
+            inUnit = false;
+            return 0;
+        }
+
+        if (first.tokenType === TokenType.PRINT || first.text.toUpperCase() === 'END') {
+            // Top-level statements end the unit operations
+            inUnitOperations = false;
+            inUnit = false;
+            return 0;
+        }
+
+        if (inUnitOperations && UNIT_OPERATION_TYPES.has(first.tokenType)) {
+            inUnit = true;
+            return 0;
+        }
+
+        return inUnit ? 1 : 0;
+    });
+}
+
+/**
+ * Section headers: UNIT OPERATIONS and <NAME> DATA lines
+ */
+function isSectionHeader(entry: Entry): boolean {
+    return entry.kind === 'statement' && isHeaderLine(entry.lines);
+}
+
+function isHeaderLine(lines: StatementLine[]): boolean {
+    if (lines.length !== 1) return false;
+
+    const tokens = lines[0].tokens;
+    if (tokens.length === 0 || !tokens.every(isWord)) return false;
+
+    return (tokens[0].tokenType === TokenType.UNIT_OPERATIONS && tokens.length <= 2) ||
+           (tokens.length === 2 && tokens[1].tokenType === TokenType.DATA);
+}
+
+/**
+ * Entries that need a blank line inserted before them: the first line of
+ * each section header (or of the comments directly above it) that is not
+ * already preceded by a blank line or at the top of the file
+ */
+function getSectionBreaks(entries: Entry[]): Set<number> {
+    const breaks = new Set<number>();
+
+    entries.forEach((entry, index) => {
+        if (!isSectionHeader(entry)) return;
+
+        let start = index;
+        while (start > 0 && entries[start - 1].kind === 'comment') start--;
+
+        const hasContentBefore = entries.slice(0, start).some(e => e.kind !== 'blank');
+        if (hasContentBefore && entries[start - 1].kind !== 'blank') {
+            breaks.add(start);
+        }
+    });
+
+    return breaks;
+}
+
+/**
+ * Keep the first blank line of a run, except at the start or end of the file
+ */
+function keepBlank(entries: Entry[], index: number): boolean {
+    if (index > 0 && entries[index - 1].kind === 'blank') return false;
+
+    const before = entries.slice(0, index).some(e => e.kind !== 'blank');
+    const after = entries.slice(index + 1).some(e => e.kind !== 'blank');
+    return before && after;
+}
+
+/**
+ * Column to pad the name of NAME=value statements to, for runs of such
+ * statements at the same level. Statements that would not fit the line
+ * once padded are left unpadded.
+ */
+function getAlignWidths(entries: Entry[], levels: number[], settings: FormatSettings): Map<number, number> {
+    const widths = new Map<number, number>();
+    let run: number[] = [];
+
+    const flush = () => {
+        let members = run;
+        let width = 0;
+        for (;;) {
+            width = Math.max(0, ...members.map(index => getAssignmentHead(entries[index])!.length));
+            const fitting = members.filter(index => {
+                const entry = entries[index] as Extract<Entry, { kind: 'statement' }>;
+                const head = getAssignmentHead(entry)!;
+                const length = settings.indent.length * levels[index] +
+                    renderTokens(entry.lines[0].tokens, getKeywordFlags(entry.lines)[0]).length + width - head.length;
+                return length <= settings.maxLineLength;
+            });
+            if (fitting.length === members.length) break;
+            members = fitting;
+        }
+
+        if (members.length > 1) {
+            for (const index of members) widths.set(index, width);
+        }
+        run = [];
+    };
+
+    entries.forEach((entry, index) => {
+        const head = getAssignmentHead(entry);
+        const fits = head !== null && getCodeLength(entry, levels[index], settings) <= settings.maxLineLength;
+
+        if (!fits || (run.length > 0 && levels[run[0]] !== levels[index])) flush();
+        if (fits) run.push(index);
+    });
+    flush();
+
+    return widths;
+}
+
+/**
+ * The NAME or NAME(QUALIFIER) before the = of a one-line statement that
+ * starts with an assignment (TEMP=100, RATE(WT)=50)
+ */
+function getAssignmentHead(entry: Entry): string | null {
+    if (entry.kind !== 'statement' || entry.lines.length !== 1 || entry.lines[0].continued) return null;
+
+    const tokens = entry.lines[0].tokens;
+    const equals = findAssignmentEquals(tokens, 0);
+    if (equals !== 1 && !(equals > 1 && tokens[1].tokenType === TokenType.LPAREN)) return null;
+
+    return renderTokens(tokens.slice(0, equals), getKeywordFlags(entry.lines)[0]);
+}
+
+function getCodeLength(entry: Entry, level: number, settings: FormatSettings): number {
+    if (entry.kind !== 'statement') return 0;
+    return settings.indent.length * level + renderTokens(entry.lines[0].tokens, getKeywordFlags(entry.lines)[0]).length;
+}
+
+/**
+ * Index of the = after the word at `index`, skipping a (qualifier), or -1
+ */
+function findAssignmentEquals(tokens: SyntaxToken[], index: number): number {
+    if (!tokens[index] || !isWord(tokens[index])) return -1;
+
+    let next = index + 1;
+    if (tokens[next]?.tokenType === TokenType.LPAREN) {
+        while (next < tokens.length && tokens[next].tokenType !== TokenType.RPAREN) next++;
+        next++;
+    }
+
+    return tokens[next]?.tokenType === TokenType.EQUALS ? next : -1;
+}
+
+/**
+ * Which words of a statement are upper-cased: the statement keyword, the
+ * words of a section header, and parameter names and qualifiers before =.
+ * Values such as stream names keep their case.
+ */
+function getKeywordFlags(lines: StatementLine[]): boolean[][] {
+    const tokens = lines.flatMap(line => line.tokens);
+    const flags = tokens.map(() => false);
+    const header = isHeaderLine(lines);
+
+    tokens.forEach((token, index) => {
+        if (!isWord(token)) return;
+        if (index === 0 || header) flags[index] = true;
+
+        const equals = findAssignmentEquals(tokens, index);
+        if (equals !== -1) {
+            for (let i = index; i < equals; i++) flags[i] = isWord(tokens[i]);
+        }
+    });
+
+    // Split back into lines
+    const result: boolean[][] = [];
+    let offset = 0;
+    for (const line of lines) {
+        result.push(flags.slice(offset, offset + line.tokens.length));
+        offset += line.tokens.length;
+    }
+    return result;
+}
+
+/**
+ * Format a statement: indent its lines, pad the = if aligned, and wrap lines
+ * that are too long
+ */
+function formatStatement(lines: StatementLine[], level: number, alignWidth: number | undefined, settings: FormatSettings): string[] {
+    const indent = settings.indent.repeat(level);
+    const continuationIndent = settings.indent.repeat(level + 1);
+    const flags = getKeywordFlags(lines);
+    const output: string[] = [];
+
+    lines.forEach((line, index) => {
+        const lineIndent = index === 0 ? indent : continuationIndent;
+        const pieces = alignWidth !== undefined
+            ? [renderAligned(line.tokens, flags[index], alignWidth)]
+            : wrapTokens(line.tokens, flags[index], lineIndent, continuationIndent, line.continued, settings);
+
+        pieces.forEach((piece, pieceIndex) => {
+            const isLast = pieceIndex === pieces.length - 1;
+            let text = (pieceIndex === 0 ? lineIndent : continuationIndent) + piece;
+            if (!isLast || line.continued) text += piece ? ' &' : '&';
+            if (isLast && line.comment) text += ' ' + line.comment;
+            output.push(text);
+        });
+    });
+
+    return output;
+}
+
+/**
+ * Render tokens with the name before the first = padded to a width
+ */
+function renderAligned(tokens: SyntaxToken[], flags: boolean[], width: number): string {
+    const equals = findAssignmentEquals(tokens, 0);
+    const head = renderTokens(tokens.slice(0, equals), flags.slice(0, equals));
+    return head.padEnd(width) + renderTokens(tokens.slice(equals), flags.slice(equals));
+}
+
+/**
+ * Split a line's tokens into pieces that fit the line length. Lines are
+ * broken after commas, or after slashes when there is no comma to break at.
+ */
+function wrapTokens(
+    tokens: SyntaxToken[],
+    flags: boolean[],
+    indent: string,
+    continuationIndent: string,
+    continued: boolean,
+    settings: FormatSettings
+): string[] {
+    const pieces: string[] = [];
+    let start = 0;
+    let currentIndent = indent;
+
+    for (;;) {
+        const rest = tokens.slice(start);
+        const text = renderTokens(rest, flags.slice(start));
+        const suffix = continued ? 2 : 0;
+        if (currentIndent.length + text.length + suffix <= settings.maxLineLength) {
+            pieces.push(text);
+            return pieces;
+        }
+
+        const end = findBreak(tokens, flags, start, currentIndent.length, settings.maxLineLength);
+        if (end === -1) {
+            pieces.push(text);
+            return pieces;
+        }
+
+        pieces.push(renderTokens(tokens.slice(start, end + 1), flags.slice(start, end + 1)));
+        start = end + 1;
+        currentIndent = continuationIndent;
+    }
+}
+
+/**
+ * Last token index to end a wrapped line at, or -1 if the line cannot be
+ * broken. Prefers the last comma that fits, then the last slash that fits;
+ * if nothing fits, breaks at the first opportunity.
+ */
+function findBreak(tokens: SyntaxToken[], flags: boolean[], start: number, indentLength: number, maxLength: number): number {
+    let lastComma = -1;
+    let lastSlash = -1;
+    let first = -1;
+
+    // The last token cannot be a break: nothing would follow it
+    for (let i = start; i < tokens.length - 1; i++) {
+        const type = tokens[i].tokenType;
+        if (type !== TokenType.COMMA && type !== TokenType.SLASH) continue;
+        if (first === -1) first = i;
+
+        const length = indentLength + renderTokens(tokens.slice(start, i + 1), flags.slice(start, i + 1)).length + 2;
+        if (length > maxLength) break;
+
+        if (type === TokenType.COMMA) lastComma = i;
+        else lastSlash = i;
+    }
+
+    if (lastComma !== -1) return lastComma;
+    if (lastSlash !== -1) return lastSlash;
+    return first;
+}
+
+/**
+ * Render tokens with normalised spacing: no spaces around = and / or inside
+ * parentheses, one space after commas, and otherwise a single space where
+ * the source had one
+ */
+function renderTokens(tokens: SyntaxToken[], flags: boolean[]): string {
+    let text = '';
+
+    tokens.forEach((token, index) => {
+        if (index > 0) {
+            text += getSpacing(tokens[index - 1], token);
+        }
+        text += flags[index] ? token.text.toUpperCase() : token.text;
+    });
+
+    return text;
+}
+
+function getSpacing(previous: SyntaxToken, token: SyntaxToken): string {
+    if (token.tokenType === TokenType.COMMA || token.tokenType === TokenType.RPAREN ||
+        token.tokenType === TokenType.EQUALS || token.tokenType === TokenType.SLASH) {
+        return '';
+    }
+    if (previous.tokenType === TokenType.LPAREN || previous.tokenType === TokenType.EQUALS ||
+        previous.tokenType === TokenType.SLASH) {
+        return '';
+    }
+    if (previous.tokenType === TokenType.COMMA) {
+        return ' ';
+    }
+
+    const gap = previous.line === token.line ? token.column - (previous.column + previous.text.length) : 1;
+    return gap > 0 ? ' ' : '';
+}
+
+/**
+ * Identifiers and keywords
+ */
+function isWord(token: SyntaxToken): boolean {
+    return token.tokenType !== TokenType.STRING && token.tokenType !== TokenType.COMMENT && /^[A-Za-z]/.test(token.text);
+}
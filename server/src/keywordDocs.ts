@@ -10,6 +10,7 @@ export interface KeywordDoc {
     parameters?: string[];
     example?: string;
     syntax?: string;
+    deprecated?: string; // What to use instead, for keywords kept for old input files
 }
 
 export const KEYWORD_DOCS: Map<string, KeywordDoc> = new Map([
@@ -194,6 +195,14 @@ export const KEYWORD_DOCS: Map<string, KeywordDoc> = new Map([
         example: 'PROD=PRODUCT1 or PROD=V=VAPOR, L=LIQUID'
     }],
     
+    ['PRODUCT', {
+        keyword: 'PRODUCT',
+        category: 'parameter',
+        description: 'Long form of PROD, still read in older input files.',
+        syntax: 'PRODUCT=stream',
+        deprecated: 'Use PROD'
+    }],
+    
     ['TEMP', {
         keyword: 'TEMP',
         category: 'parameter',
@@ -230,7 +239,7 @@ export const KEYWORD_DOCS: Map<string, KeywordDoc> = new Map([
         keyword: 'COMP',
         category: 'parameter',
         description: 'Component data or composition specification. Used in stream definitions and component selection.',
-        syntax: 'COMP DATA or COMP=component',
+        syntax: 'COMP DATA, STREAM=name, RATE(M)=r1, r2, ... or COMP=component',
         example: 'COMP DATA, STREAM=S1, RATE(M)=100,200,300'
     }],
     
@@ -375,6 +384,25 @@ export const KEYWORD_DOCS: Map<string, KeywordDoc> = new Map([
         syntax: 'SET=set_name',
         example: 'SET=SRK01'
     }],
+    
+    // ============================================================================
+    // SPECIFICATIONS
+    // ============================================================================
+    ['SPEC', {
+        keyword: 'SPEC',
+        category: 'parameter',
+        description: 'Performance specification. Fixes a stream or unit property that the unit (or a controller) must meet, such as a product purity or rate.',
+        syntax: 'SPEC STREAM=name, property, COMP=number, VALUE=value',
+        example: 'SPEC STREAM=OVHD, RATE(M), COMP=2, VALUE=95'
+    }],
+    
+    ['VARY', {
+        keyword: 'VARY',
+        category: 'parameter',
+        description: 'Manipulated variable. Names the unit parameter that is adjusted to meet the specifications.',
+        syntax: 'VARY unit_type=uid, parameter',
+        example: 'VARY FLASH=F-101, TEMP'
+    }],
 ]);
 
 /**
@@ -385,9 +413,10 @@ export function getKeywordDoc(keyword: string): KeywordDoc | undefined {
 }
 
 /**
- * Format keyword documentation for hover display
+ * Format keyword documentation for hover display. `units` describes the
+ * units the keyword's value is in, when the document is known.
  */
-export function formatHoverDoc(doc: KeywordDoc): string {
+export function formatHoverDoc(doc: KeywordDoc, units?: string): string {
     let markdown = `### ${doc.keyword}\n\n`;
     
     // Category badge
@@ -403,6 +432,14 @@ export function formatHoverDoc(doc: KeywordDoc): string {
     // Description
     markdown += `${doc.description}\n\n`;
     
+    if (doc.deprecated) {
+        markdown += `**Deprecated:** ${doc.deprecated}\n\n`;
+    }
+    
+    if (units) {
+        markdown += `**Units:** ${units}\n\n`;
+    }
+    
     // Syntax
     if (doc.syntax) {
         markdown += `**Syntax:**\n\`\`\`proii\n${doc.syntax}\n\`\`\`\n\n`;
@@ -222,8 +222,10 @@ export class Lexer {
         const startColumn = this.column;
         let value = '';
         
-        // Read alphanumeric characters and underscores
-        while (this.isAlphaNumeric(this.currentChar()) || this.currentChar() === '_') {
+        // Read alphanumeric characters and underscores. A hyphen followed by
+        // another alphanumeric character is part of the name (F-100, N-BUTANE)
+        while (this.isAlphaNumeric(this.currentChar()) || this.currentChar() === '_' ||
+               (this.currentChar() === '-' && this.isAlphaNumeric(this.peek()))) {
             value += this.currentChar();
             this.advance();
         }
@@ -3,29 +3,102 @@
  * Converts token stream into Abstract Syntax Tree (AST)
  */
 
-import { Token, TokenType } from './types';
+import { Token, TokenType, UNIT_OPERATION_TYPES } from './types';
 import {
     ProgramNode, SectionNode, StatementNode, UnitOperationNode,
     ParameterNode, StreamReferenceNode, ComponentDataNode,
     StreamDataNode, ThermodynamicDataNode, PrintStatementNode,
     NumberNode, IdentifierNode, StringNode, ListNode,
-    ComponentNode, ValueNode, SectionType
+    ComponentNode, ValueNode, SectionType, SourceSpan, ErrorNode, CommentNode
 } from './ast';
 
+/**
+ * Parse error codes
+ */
+export type ParseErrorCode =
+    | 'expected-equals'      // UID value without =
+    | 'expected-identifier'  // Missing name (UID=, PROP DATA=, V=)
+    | 'expected-value'       // Missing value after NAME=
+    | 'unknown-statement'    // Line starting with a keyword the section does not accept
+    | 'unmodelled-statement' // Valid statement the parser skips without checking
+    | 'unexpected-token'     // Token that cannot be used where it appears
+    | 'internal-error';      // Parser safety limit hit
+
+/**
+ * Parse error with the source span of the offending token
+ */
+export interface ParseError extends SourceSpan {
+    code: ParseErrorCode;
+    message: string;
+}
+
+/**
+ * Phase labels in product lists (PROD=V=VAPOR, L=LIQUID, D=OVHD, B=BTMS)
+ * and the column product labels (PROD OVHD=D1,50, BTMS=B1, LDRAW=S1,10,5)
+ */
+const PHASE_LABELS = new Set(['V', 'L', 'W', 'M', 'D', 'B', 'OVHD', 'BTMS', 'LDRAW', 'VDRAW', 'WDRAW']);
+
+/**
+ * Phase codes that may follow a product stream (PROD 1, OVHD, V)
+ */
+const PHASE_CODES = new Set(['V', 'L', 'W', 'M']);
+
+/**
+ * Valid statements of each section that the parser does not model. They
+ * are skipped and noted, not reported as unknown.
+ */
+const UNMODELLED_STATEMENTS: Record<string, Set<string>> = {
+    'COMPONENT DATA': new Set(['PETRO', 'NONLIB', 'ATTR', 'ASSAY', 'CUTPOINTS', 'TBPCUTS']),
+    'STREAM DATA': new Set(['TBP', 'D86', 'D1160', 'D2887', 'REFSTREAM']),
+    'THERMODYNAMIC DATA': new Set([
+        'KVALUE', 'ENTHALPY', 'ENTROPY', 'DENSITY', 'VISCOSITY', 'CONDUCTIVITY', 'SURFACE', 'WATER', 'TRANSPORT'
+    ])
+};
+
+/**
+ * General data statements, valid outside the modelled sections. They are
+ * not parsed; features that need them (DIMENSION) read the tokens.
+ */
+const GENERAL_STATEMENTS = new Set([
+    'TITLE', 'IDNO', 'DIMENSION', 'SEQUENCE', 'CALCULATION', 'TOLERANCE', 'DBASE', 'OUTPUT', 'FORMAT',
+    'DESCRIPTION', 'END'
+]);
+
+/**
+ * Sections that are valid but not modelled, skipped up to the next section
+ */
+const UNMODELLED_SECTIONS = new Set(['REACTION', 'PROCEDURE', 'RECYCLE', 'CASESTUDY']);
+
+/**
+ * Words that start sub-statement lines in unit operations. Their positional
+ * values are not modelled; their NAME=value parameters are.
+ */
+const UNIT_SUB_STATEMENTS = new Set([
+    'SPEC', 'VARY', 'PARA', 'PSPEC', 'TPSPEC', 'DUTY', 'ESTI', 'ESTIMATE', 'CEST', 'METHOD', 'OPER', 'OPERATION',
+    'ISO', 'ISOT', 'ISOTHERMAL', 'ADIA', 'ADIABATIC', 'CONDENSER', 'COND', 'REBOILER', 'HOT', 'COLD',
+    'HOTSIDE', 'COLDSIDE', 'CONFIG', 'EVALUATE', 'DEFINE', 'CPARAM', 'CONSTR', 'OBJECT', 'PARAM', 'PARAMETER',
+    'RESULT', 'PACKING', 'RXCALC', 'TPRINT', 'PROCEDURE'
+]);
+
 export class Parser {
     private tokens: Token[];
     private position: number = 0;
     private currentLine: number = 1;
+    private errors: ParseError[] = [];
+    private pendingErrorNodes: ErrorNode[] = []; // Found inside a unit block, added to its section after the unit
 
     constructor(tokens: Token[]) {
         this.tokens = tokens;
     }
 
     /**
-     * Parse the entire token stream into a Program AST node
+     * Parse the entire token stream into a Program AST node.
+     * Does not throw: problems are collected and returned by getErrors().
      */
     public parse(): ProgramNode {
         const sections: SectionNode[] = [];
+        this.errors = [];
+        this.pendingErrorNodes = [];
 
         // Skip initial comments and newlines
         this.skipWhitespaceAndComments();
@@ -39,7 +112,8 @@ export class Parser {
             
             if (++loopGuard > maxIterations) {
                 const token = this.current();
-                throw new Error(`Parser infinite loop detected at position ${this.position}/${this.tokens.length}, token: ${token.type} "${token.value}" on line ${token.line}`);
+                this.addError('internal-error', `Parser stopped at ${token.type} "${token.value}" (iteration limit reached)`, token);
+                break;
             }
             
             const section = this.parseSection();
@@ -52,24 +126,56 @@ export class Parser {
             // Safety: if position didn't advance, force skip to prevent infinite loop
             if (this.position === beforePos && !this.isAtEnd()) {
                 console.log(`Parser: Stuck at position ${this.position}, forcing advance`);
-                this.advance();
+                const token = this.advance();
+                this.addError('unexpected-token', `Unexpected '${token.value}'`, token);
                 this.skipWhitespaceAndComments();
             }
         }
 
+        const last = this.getLastContentToken();
+
         return {
             type: 'Program',
             startLine: 1,
-            endLine: this.currentLine,
-            sections
+            startColumn: 1,
+            endLine: last ? last.line : 1,
+            endColumn: last ? last.column + last.length : 1,
+            sections,
+            comments: this.collectComments()
         };
     }
 
+    /**
+     * Comment nodes for every $ or % comment in the file
+     */
+    private collectComments(): CommentNode[] {
+        return this.tokens
+            .filter(token => token.type === TokenType.COMMENT)
+            .map(token => {
+                const text = token.value.trimEnd();
+                return {
+                    type: 'Comment',
+                    startLine: token.line,
+                    startColumn: token.column,
+                    endLine: token.line,
+                    endColumn: token.column + text.length,
+                    text
+                };
+            });
+    }
+
+    /**
+     * Get the errors collected by the last parse
+     */
+    public getErrors(): ParseError[] {
+        return this.errors;
+    }
+
     /**
      * Parse a section (COMPONENT DATA, STREAM DATA, UNIT OPERATIONS, etc.)
      */
     private parseSection(): SectionNode | null {
-        const startLine = this.getCurrentLine();
+        const start = this.current();
         let sectionType: SectionType = 'OTHER';
         const statements: StatementNode[] = [];
 
@@ -78,85 +184,68 @@ export class Parser {
             sectionType = 'COMPONENT_DATA';
             this.advance(); // COMPONENT
             this.advance(); // DATA
-            this.consumeNewlines();
-
-            // Parse component statements until next section
-            while (!this.isAtEnd() && !this.isNextSection()) {
-                const beforePos = this.position;
-                const stmt = this.parseComponentStatement();
-                if (stmt) statements.push(stmt);
-                this.skipWhitespaceAndComments();
-                
-                // Safety: prevent infinite loop
-                if (this.position === beforePos && !this.isAtEnd()) {
-                    this.advanceLine();
-                }
-            }
+            statements.push(...this.parseSectionBody(
+                'COMPONENT DATA',
+                () => this.parseComponentStatement(),
+                () => this.check(TokenType.LIBID) || this.check(TokenType.NAME) || this.check(TokenType.BANK)
+            ));
         } else if (this.check(TokenType.STREAM) && this.checkNext(TokenType.DATA)) {
             sectionType = 'STREAM_DATA';
             this.advance(); // STREAM
             this.advance(); // DATA
-            this.consumeNewlines();
-
-            while (!this.isAtEnd() && !this.isNextSection()) {
-                const beforePos = this.position;
-                const stmt = this.parseStreamStatement();
-                if (stmt) statements.push(stmt);
-                this.skipWhitespaceAndComments();
-                
-                // Safety: prevent infinite loop
-                if (this.position === beforePos && !this.isAtEnd()) {
-                    this.advanceLine();
-                }
-            }
+            statements.push(...this.parseSectionBody(
+                'STREAM DATA',
+                () => this.parseStreamStatement(),
+                () => this.check(TokenType.PROP) || this.check(TokenType.COMP)
+            ));
         } else if (this.check(TokenType.THERMODYNAMIC) && this.checkNext(TokenType.DATA)) {
             sectionType = 'THERMODYNAMIC_DATA';
             this.advance(); // THERMODYNAMIC
             this.advance(); // DATA
-            this.consumeNewlines();
-
-            while (!this.isAtEnd() && !this.isNextSection()) {
-                const beforePos = this.position;
-                const stmt = this.parseThermodynamicStatement();
-                if (stmt) statements.push(stmt);
-                this.skipWhitespaceAndComments();
-                
-                // Safety: prevent infinite loop
-                if (this.position === beforePos && !this.isAtEnd()) {
-                    this.advanceLine();
-                }
-            }
+            statements.push(...this.parseSectionBody(
+                'THERMODYNAMIC DATA',
+                () => this.parseThermodynamicStatement(),
+                () => this.check(TokenType.METHOD) || this.check(TokenType.SET)
+            ));
         } else if (this.check(TokenType.UNIT_OPERATIONS)) {
             sectionType = 'UNIT_OPERATIONS';
             this.advance(); // UNIT
-            this.consumeNewlines();
-
-            while (!this.isAtEnd() && !this.isNextSection()) {
-                const beforePos = this.position;
-                const stmt = this.parseUnitOperation();
-                if (stmt) statements.push(stmt);
-                this.skipWhitespaceAndComments();
-                
-                // Safety: if position didn't advance, force advance to prevent infinite loop
-                if (this.position === beforePos && !this.isAtEnd()) {
-                    this.advanceLine();
-                }
+            if (this.isWordToken() && this.current().value.toUpperCase() === 'OPERATIONS') {
+                this.advance();
             }
+            statements.push(...this.parseSectionBody(
+                'UNIT OPERATIONS',
+                () => this.parseUnitOperation(),
+                () => !this.isAtEnd() && this.isUnitOperationType(this.current().type)
+            ));
         } else if (this.check(TokenType.PRINT)) {
             sectionType = 'PRINT';
             const stmt = this.parsePrintStatement();
             if (stmt) statements.push(stmt);
             this.consumeNewlines();
-        } else {
-            // Unknown section, skip line
+        } else if (this.isGeneralStatement()) {
+            // General data statements (TITLE, DIMENSION, ...) are not modelled
             this.advanceLine();
             return null;
+        } else if (this.isUnmodelledSection()) {
+            const token = this.current();
+            statements.push(this.recover('unmodelled-statement',
+                `${token.value.toUpperCase()} DATA is not checked`, () => false));
+        } else if (this.isWordToken()) {
+            // Anything else, such as a misspelled section header, is skipped
+            // up to the next section or general statement
+            const token = this.current();
+            statements.push(this.recover('unknown-statement',
+                `Unknown statement '${token.value.toUpperCase()}'`, () => this.isGeneralStatement()));
+        } else {
+            // Stray tokens outside any section
+            const token = this.current();
+            statements.push(this.recover('unexpected-token', `Unexpected '${token.value}'`, () => this.isWordToken()));
         }
 
         return {
             type: 'Section',
-            startLine,
-            endLine: this.getCurrentLine(),
+            ...this.spanFrom(start),
             sectionType,
             statements
         };
@@ -166,7 +255,6 @@ export class Parser {
      * Parse a unit operation (FLASH, COLUMN, etc.)
      */
     private parseUnitOperation(): UnitOperationNode | null {
-        const startLine = this.getCurrentLine();
         const unitType = this.current();
 
         if (!this.isUnitOperationType(unitType.type)) {
@@ -181,12 +269,16 @@ export class Parser {
         const feedStreams: StreamReferenceNode[] = [];
         const productStreams: StreamReferenceNode[] = [];
 
-        // Parse rest of line and continuations
+        // Parse the header line, continuations and the sub-statement lines
+        // (FEED, PROD, TEMP=...) that follow until the next unit or section
+        let atLineStart = false;
+        let inSubStatement = false;
         let unitLoopGuard = 0;
-        while (!this.isAtEnd() && !this.check(TokenType.NEWLINE)) {
-            if (++unitLoopGuard > 1000) {
+        while (!this.isAtEnd()) {
+            if (++unitLoopGuard > 10000) {
                 const token = this.current();
-                throw new Error(`Infinite loop in parseUnitOperation at position ${this.position}, token: ${token.type} "${token.value}"`);
+                this.addError('internal-error', `Parser stopped in ${statementType} at ${token.type} "${token.value}" (iteration limit reached)`, token);
+                break;
             }
             
             const beforePos = this.position;
@@ -198,49 +290,89 @@ export class Parser {
                 continue;
             }
 
+            // End of line: the block carries on unless a new unit or section starts
+            if (this.check(TokenType.NEWLINE) || this.check(TokenType.COMMENT)) {
+                this.skipWhitespaceAndComments();
+                if (this.isAtEnd() || this.isUnitOperationType(this.current().type) || this.isNextSection()) {
+                    break;
+                }
+                atLineStart = true;
+                inSubStatement = false;
+                continue;
+            }
+
+            const lineStart = atLineStart;
+            atLineStart = false;
+
             // UID=value
             if (this.check(TokenType.UID)) {
-                this.advance();
+                const uidToken = this.advance();
                 if (this.consume(TokenType.EQUALS)) {
-                    uid = this.parseIdentifier();
+                    uid = this.parseName('unit identifier after UID=');
+                } else {
+                    this.addError('expected-equals', `Expected '=' after UID`, uidToken);
                 }
             }
-            // FEED stream
+            // FEED stream1, stream2 or FEED=stream
             else if (this.check(TokenType.FEED)) {
                 this.advance();
-                const stream = this.parseStreamReference();
-                if (stream) feedStreams.push(stream);
+                this.consume(TokenType.EQUALS);
+                feedStreams.push(...this.parseFeedStreams());
             }
-            // PROD stream1, stream2
+            // PROD stream1, stream2 or PROD=V=vapor, L=liquid
             else if (this.check(TokenType.PROD) || this.check(TokenType.PRODUCT)) {
                 this.advance();
-                do {
-                    const stream = this.parseStreamReference();
-                    if (stream) productStreams.push(stream);
-                } while (this.consume(TokenType.COMMA));
+                this.consume(TokenType.EQUALS);
+                productStreams.push(...this.parseProductStreams());
             }
             // Parameter=value
-            else {
+            else if (this.isParameterStart()) {
                 const param = this.parseParameter();
                 if (param) parameters.push(param);
             }
+            // Sub-statements (SPEC, DUTY 1, 1, -10); CALCULATOR procedures
+            // are skipped up to RETURN
+            else if (lineStart && this.isWordToken() && UNIT_SUB_STATEMENTS.has(this.current().value.toUpperCase())) {
+                if (this.advance().value.toUpperCase() === 'PROCEDURE') {
+                    this.skipProcedure();
+                } else {
+                    inSubStatement = true;
+                }
+            }
+            else if (lineStart && this.isWordToken()) {
+                const token = this.current();
+                this.pendingErrorNodes.push(this.recover('unknown-statement',
+                    `Unknown ${statementType} statement '${token.value.toUpperCase()}'`, () => true));
+                continue;
+            }
+            // Positional values of a sub-statement
+            else if (inSubStatement) {
+                this.advance();
+            }
+            // Anything else cannot appear here: skip the rest of the line
+            else if (!this.check(TokenType.COMMA)) {
+                const token = this.current();
+                this.pendingErrorNodes.push(this.recover('unexpected-token',
+                    `Unexpected '${token.value}' in ${statementType}`, () => true));
+                continue;
+            }
 
             // Skip comma
             this.consume(TokenType.COMMA);
             
-            // Safety: if position didn't advance, force skip to prevent infinite loop
-            if (this.position === beforePos && !this.isAtEnd() && !this.check(TokenType.NEWLINE)) {
-                this.advance(); // Force advance
+            // Safety: recovery above always consumes, so this only guards
+            // against a parse method that does not
+            if (this.position === beforePos && !this.isAtEnd()) {
+                const token = this.current();
+                this.pendingErrorNodes.push(this.recover('unexpected-token',
+                    `Unexpected '${token.value}' in ${statementType}`, () => true));
             }
         }
 
-        this.consumeNewlines();
-
         return {
             type: 'UnitOperation',
             statementType,
-            startLine,
-            endLine: this.getCurrentLine(),
+            ...this.spanFrom(unitType),
             uid,
             parameters,
             feedStreams,
@@ -248,11 +380,117 @@ export class Parser {
         };
     }
 
+    /**
+     * Parse the statements of a section up to the next section header.
+     * A line that cannot be parsed becomes an Error node, and parsing
+     * resumes at the next line that starts a statement of the section.
+     *
+     * @param sectionName Section name for error messages
+     * @param parseStatement Parses one statement, or returns null without
+     *        consuming anything when the line does not start one
+     * @param isStatementStart Checks for a token that starts a statement
+     */
+    private parseSectionBody(
+        sectionName: string,
+        parseStatement: () => StatementNode | null,
+        isStatementStart: () => boolean
+    ): StatementNode[] {
+        const statements: StatementNode[] = [];
+        const isSyncPoint = () => isStatementStart() || this.isUnmodelledStatement(sectionName);
+        this.skipWhitespaceAndComments();
+
+        while (!this.isAtEnd() && !this.isNextSection()) {
+            const beforePos = this.position;
+            const stmt = parseStatement();
+
+            if (stmt) {
+                statements.push(stmt, ...this.pendingErrorNodes.splice(0));
+
+                // Tokens left over on the statement's last line
+                const previous = this.previous();
+                if (!this.isAtLineEnd() && previous.type !== TokenType.NEWLINE && previous.type !== TokenType.COMMENT) {
+                    const token = this.current();
+                    statements.push(this.recover('unexpected-token', `Unexpected '${token.value}'`, isSyncPoint));
+                }
+            } else if (this.isUnmodelledStatement(sectionName)) {
+                const token = this.current();
+                statements.push(this.recover('unmodelled-statement',
+                    `${token.value.toUpperCase()} statements are not checked`, isSyncPoint));
+            } else if (this.isWordToken()) {
+                const token = this.current();
+                statements.push(this.recover('unknown-statement',
+                    `Unknown ${sectionName} statement '${token.value.toUpperCase()}'`, isSyncPoint));
+            } else {
+                const token = this.current();
+                statements.push(this.recover('unexpected-token',
+                    `Unexpected '${token.value}' in ${sectionName}`, isSyncPoint));
+            }
+
+            this.skipWhitespaceAndComments();
+
+            // Safety: recovery always consumes at least one token
+            if (this.position === beforePos && !this.isAtEnd()) {
+                this.advanceLine();
+            }
+        }
+
+        return statements;
+    }
+
+    /**
+     * Skip a region the parser cannot understand and return it as an Error
+     * node, recording a parse error for it. Skipping stops at the end of a
+     * line when the next line starts a section or a sync point, so the rest
+     * of the file is still parsed.
+     */
+    private recover(code: ParseErrorCode, message: string, isSyncPoint: () => boolean): ErrorNode {
+        const start = this.current();
+
+        while (!this.isAtEnd()) {
+            // A continued line is part of the same region
+            if (this.check(TokenType.CONTINUATION)) {
+                this.advance();
+                this.skipWhitespaceAndComments();
+                continue;
+            }
+
+            if (this.check(TokenType.NEWLINE) || this.check(TokenType.COMMENT)) {
+                const lineEnd = this.position;
+                this.skipWhitespaceAndComments();
+                if (this.isAtEnd() || this.isNextSection() || isSyncPoint()) {
+                    this.position = lineEnd;
+                    break;
+                }
+                continue;
+            }
+
+            this.advance();
+        }
+
+        const node: ErrorNode = {
+            type: 'Error',
+            statementType: 'ERROR',
+            ...this.spanFrom(start),
+            message
+        };
+
+        this.errors.push({
+            code,
+            message,
+            startLine: node.startLine,
+            startColumn: node.startColumn,
+            endLine: node.endLine,
+            endColumn: node.endColumn
+        });
+
+        return node;
+    }
+
     /**
      * Parse a component data statement (LIBID, NAME, BANK)
      */
     private parseComponentStatement(): ComponentDataNode | null {
-        const startLine = this.getCurrentLine();
+        const start = this.current();
         let statementType: 'LIBID' | 'NAME' | 'BANK';
 
         if (this.check(TokenType.LIBID)) {
@@ -262,7 +500,6 @@ export class Parser {
         } else if (this.check(TokenType.BANK)) {
             statementType = 'BANK';
         } else {
-            this.advanceLine();
             return null;
         }
 
@@ -270,7 +507,7 @@ export class Parser {
 
         const components: ComponentNode[] = [];
 
-        // Parse components separated by commas
+        // Parse components separated by commas or slashes
         while (!this.isAtEnd() && !this.check(TokenType.NEWLINE)) {
             if (this.check(TokenType.CONTINUATION)) {
                 this.advance();
@@ -281,68 +518,50 @@ export class Parser {
             const component = this.parseComponent();
             if (component) components.push(component);
 
-            if (!this.consume(TokenType.COMMA)) break;
+            if (!this.consume(TokenType.COMMA) && !this.consume(TokenType.SLASH)) break;
         }
 
-        this.consumeNewlines();
-
         return {
             type: 'ComponentData',
             statementType,
-            startLine,
-            endLine: this.getCurrentLine(),
+            ...this.spanFrom(start),
             components
         };
     }
 
     /**
-     * Parse a component (e.g., C1/2, METHANE)
+     * Parse a component entry (e.g., 1, METHANE or just METHANE)
      */
     private parseComponent(): ComponentNode | null {
-        const startLine = this.getCurrentLine();
+        const start = this.current();
 
+        // Optional component number before the name
+        let libid: NumberNode | undefined;
         if (this.check(TokenType.NUMBER)) {
-            // LIBID number
-            const libid = this.parseNumber();
-            this.consume(TokenType.SLASH);
-            const identifier = this.current().value;
-            this.advance();
-
-            return {
-                type: 'Component',
-                startLine,
-                endLine: this.getCurrentLine(),
-                identifier,
-                libid
-            };
-        } else if (this.check(TokenType.IDENTIFIER)) {
-            // Component name
-            const identifier = this.current().value;
-            this.advance();
-
-            // Check for /libid
-            let libid: NumberNode | undefined;
-            if (this.consume(TokenType.SLASH) && this.check(TokenType.NUMBER)) {
-                libid = this.parseNumber();
-            }
+            libid = this.parseNumber();
+            this.consume(TokenType.COMMA);
+        }
 
-            return {
-                type: 'Component',
-                startLine,
-                endLine: this.getCurrentLine(),
-                identifier,
-                libid
-            };
+        if (!this.isWordToken()) {
+            return null;
         }
 
-        return null;
+        const token = this.advance();
+
+        return {
+            type: 'Component',
+            ...this.spanFrom(start),
+            identifier: token.value,
+            libid,
+            column: token.column
+        };
     }
 
     /**
      * Parse a stream data statement (PROP DATA, COMP DATA)
      */
     private parseStreamStatement(): StreamDataNode | null {
-        const startLine = this.getCurrentLine();
+        const start = this.current();
         let statementType: 'PROP' | 'COMP';
 
         if (this.check(TokenType.PROP)) {
@@ -350,7 +569,6 @@ export class Parser {
         } else if (this.check(TokenType.COMP)) {
             statementType = 'COMP';
         } else {
-            this.advanceLine();
             return null;
         }
 
@@ -365,9 +583,16 @@ export class Parser {
             this.advance();
         }
 
-        this.consume(TokenType.EQUALS);
-
-        const streamName = this.parseIdentifier();
+        // PROP DATA=name, PROP DATA, STREAM=name or PROP STRM=name
+        if (!this.consume(TokenType.EQUALS)) {
+            this.consume(TokenType.COMMA);
+            const isStreamLabel = this.check(TokenType.STREAM) || this.current().value.toUpperCase() === 'STRM';
+            if (isStreamLabel && this.checkNext(TokenType.EQUALS)) {
+                this.advance(); // STREAM or STRM
+                this.advance(); // =
+            }
+        }
+        const streamName = this.parseName(`stream name after ${statementType} ${dataType}`.trim());
         this.consume(TokenType.COMMA);
 
         const parameters: ParameterNode[] = [];
@@ -385,13 +610,10 @@ export class Parser {
             if (!this.consume(TokenType.COMMA)) break;
         }
 
-        this.consumeNewlines();
-
         return {
             type: 'StreamData',
             statementType,
-            startLine,
-            endLine: this.getCurrentLine(),
+            ...this.spanFrom(start),
             streamName,
             dataType,
             parameters
@@ -402,7 +624,7 @@ export class Parser {
      * Parse a thermodynamic data statement
      */
     private parseThermodynamicStatement(): ThermodynamicDataNode | null {
-        const startLine = this.getCurrentLine();
+        const start = this.current();
         let statementType: 'METHOD' | 'SET';
         let method: string | undefined;
 
@@ -413,7 +635,6 @@ export class Parser {
             statementType = 'SET';
             this.advance();
         } else {
-            this.advanceLine();
             return null;
         }
 
@@ -438,13 +659,10 @@ export class Parser {
             if (!this.consume(TokenType.COMMA)) break;
         }
 
-        this.consumeNewlines();
-
         return {
             type: 'ThermodynamicData',
             statementType,
-            startLine,
-            endLine: this.getCurrentLine(),
+            ...this.spanFrom(start),
             method,
             parameters
         };
@@ -454,7 +672,7 @@ export class Parser {
      * Parse a print statement
      */
     private parsePrintStatement(): PrintStatementNode | null {
-        const startLine = this.getCurrentLine();
+        const start = this.current();
 
         if (!this.check(TokenType.PRINT)) {
             return null;
@@ -471,13 +689,13 @@ export class Parser {
             if (!this.consume(TokenType.COMMA)) break;
         }
 
+        const span = this.spanFrom(start);
         this.consumeNewlines();
 
         return {
             type: 'PrintStatement',
             statementType: 'PRINT',
-            startLine,
-            endLine: this.getCurrentLine(),
+            ...span,
             parameters
         };
     }
@@ -486,25 +704,42 @@ export class Parser {
      * Parse a parameter (NAME=VALUE)
      */
     private parseParameter(): ParameterNode | null {
-        const startLine = this.getCurrentLine();
+        const start = this.current();
 
-        if (!this.check(TokenType.IDENTIFIER) && !this.isParameterKeyword(this.current().type)) {
+        // Keywords followed by = are parameter names too (COMP=1/2/3).
+        // Nothing is consumed unless the = is there.
+        if (!this.isParameterStart()) {
             return null;
         }
 
         const name = this.parseIdentifier();
 
+        // Optional qualifier: RATE(WT)=..., TEMP(F)=...
+        let qualifier: string | undefined;
+        if (this.consume(TokenType.LPAREN)) {
+            qualifier = '';
+            while (!this.isAtLineEnd() && !this.check(TokenType.RPAREN)) {
+                qualifier += this.advance().value;
+            }
+            this.consume(TokenType.RPAREN);
+        }
+
         if (!this.consume(TokenType.EQUALS)) {
             return null;
         }
 
+        if (!this.isValueToken()) {
+            this.addError('expected-value', `Expected a value after ${name.name.toUpperCase()}=`, this.current());
+            return null;
+        }
+
         const value = this.parseValue();
 
         return {
             type: 'Parameter',
-            startLine,
-            endLine: this.getCurrentLine(),
+            ...this.spanFrom(start),
             name,
+            qualifier,
             value
         };
     }
@@ -532,86 +767,155 @@ export class Parser {
      * Parse a list of values
      */
     private parseList(): ListNode {
-        const startLine = this.getCurrentLine();
+        const start = this.current();
         const values: ValueNode[] = [];
         let separator: ',' | '/' = ',';
 
         // Parse first value
-        if (this.check(TokenType.NUMBER)) {
-            values.push(this.parseNumber());
-        } else if (this.check(TokenType.IDENTIFIER)) {
-            values.push(this.parseIdentifier());
-        }
+        values.push(this.parseListItem());
 
         // Determine separator
         if (this.check(TokenType.SLASH)) {
             separator = '/';
         }
 
-        // Parse remaining values
-        while (this.check(TokenType.COMMA) || this.check(TokenType.SLASH)) {
+        // Parse remaining values, stopping before the next NAME=value
+        while ((this.check(TokenType.COMMA) || this.check(TokenType.SLASH)) &&
+               this.isListItemAt(1 + this.getContinuationLength(1))) {
             this.advance(); // separator
-
-            if (this.check(TokenType.NUMBER)) {
-                values.push(this.parseNumber());
-            } else if (this.check(TokenType.IDENTIFIER)) {
-                values.push(this.parseIdentifier());
-            } else {
-                break;
-            }
+            this.skipContinuation();
+            values.push(this.parseListItem());
         }
 
         return {
             type: 'List',
-            startLine,
-            endLine: this.getCurrentLine(),
+            ...this.spanFrom(start),
             values,
             separator
         };
     }
 
     /**
-     * Parse a stream reference
+     * Parse a single list value (number or identifier)
      */
-    private parseStreamReference(): StreamReferenceNode | null {
-        const startLine = this.getCurrentLine();
+    private parseListItem(): ValueNode {
+        return this.check(TokenType.NUMBER) ? this.parseNumber() : this.parseIdentifier();
+    }
 
-        if (!this.check(TokenType.IDENTIFIER)) {
-            return null;
+    /**
+     * Parse the stream list after FEED. Column feeds may carry tray
+     * numbers (FEED=10/FEED1 or FEED 1, F1, 10), which are skipped.
+     */
+    private parseFeedStreams(): StreamReferenceNode[] {
+        const streams: StreamReferenceNode[] = [];
+
+        while (!this.isAtEnd()) {
+            if (this.check(TokenType.NUMBER)) {
+                this.advance();
+            } else if (this.isStreamName()) {
+                streams.push(this.parseStreamReference());
+            } else {
+                break;
+            }
+
+            if (!this.consume(TokenType.COMMA) && !this.consume(TokenType.SLASH)) break;
+            this.skipContinuation();
         }
 
-        const streamName = this.parseIdentifier();
-        let streamType: string | undefined;
+        return streams;
+    }
 
-        // Check for stream type (V, L, VAPOR, LIQUID)
-        if (this.consume(TokenType.COMMA)) {
-            if (this.check(TokenType.IDENTIFIER)) {
-                streamType = this.current().value.toUpperCase();
+    /**
+     * Parse the stream list after PROD, including phase labels
+     * (PROD=V=VAPOR, L=LIQUID) and trailing phase codes (PROD 1, OVHD, V)
+     */
+    private parseProductStreams(): StreamReferenceNode[] {
+        const streams: StreamReferenceNode[] = [];
+
+        while (!this.isAtEnd()) {
+            if (this.check(TokenType.NUMBER)) {
                 this.advance();
+            } else if (this.isWordToken() && this.checkNext(TokenType.EQUALS) &&
+                       PHASE_LABELS.has(this.current().value.toUpperCase())) {
+                const label = this.advance();
+                this.advance(); // =
+                if (!this.isWordToken()) {
+                    this.addError('expected-identifier', `Expected stream name after ${label.value.toUpperCase()}=`, this.current());
+                    break;
+                }
+                streams.push(this.parseStreamReference(label.value.toUpperCase(), label));
+            } else if (this.isStreamName()) {
+                const stream = this.parseStreamReference();
+                streams.push(stream);
+
+                // Bare phase code after the stream name
+                if (this.check(TokenType.COMMA) && this.peek() &&
+                    PHASE_CODES.has(this.peek()!.value.toUpperCase())) {
+                    this.advance(); // ,
+                    const phase = this.advance();
+                    stream.streamType = phase.value.toUpperCase();
+                    stream.endLine = phase.line;
+                    stream.endColumn = phase.column + phase.length;
+                }
+            } else {
+                break;
             }
+
+            if (!this.consume(TokenType.COMMA) && !this.consume(TokenType.SLASH)) break;
+            this.skipContinuation();
         }
 
+        return streams;
+    }
+
+    /**
+     * Parse a stream reference
+     *
+     * @param streamType Phase label already consumed (V, L, D, ...)
+     * @param start Token the reference starts at when a label was consumed
+     */
+    private parseStreamReference(streamType?: string, start: Token = this.current()): StreamReferenceNode {
+        const streamName = this.parseIdentifier();
+
         return {
             type: 'StreamReference',
-            startLine,
-            endLine: this.getCurrentLine(),
+            ...this.spanFrom(start),
             streamName,
             streamType
         };
     }
 
+    /**
+     * Parse a name (UID, stream name), recording an error if it is missing.
+     * A missing name gives an empty identifier at the current token.
+     */
+    private parseName(expected: string): IdentifierNode {
+        if (this.isWordToken()) {
+            return this.parseIdentifier();
+        }
+
+        const token = this.current();
+        this.addError('expected-identifier', `Expected ${expected}`, token);
+
+        return {
+            type: 'Identifier',
+            startLine: token.line,
+            startColumn: token.column,
+            endLine: token.line,
+            endColumn: token.column,
+            name: ''
+        };
+    }
+
     /**
      * Parse a number
      */
     private parseNumber(): NumberNode {
-        const token = this.current();
-        const startLine = token.line;
-        this.advance();
+        const token = this.advance();
 
         return {
             type: 'Number',
-            startLine,
-            endLine: startLine,
+            ...this.tokenSpan(token),
             value: parseFloat(token.value),
             raw: token.value
         };
@@ -621,14 +925,11 @@ export class Parser {
      * Parse an identifier
      */
     private parseIdentifier(): IdentifierNode {
-        const token = this.current();
-        const startLine = token.line;
-        this.advance();
+        const token = this.advance();
 
         return {
             type: 'Identifier',
-            startLine,
-            endLine: startLine,
+            ...this.tokenSpan(token),
             name: token.value
         };
     }
@@ -637,9 +938,7 @@ export class Parser {
      * Parse a string
      */
     private parseString(): StringNode {
-        const token = this.current();
-        const startLine = token.line;
-        this.advance();
+        const token = this.advance();
 
         // Remove quotes
         let value = token.value;
@@ -650,12 +949,66 @@ export class Parser {
 
         return {
             type: 'String',
-            startLine,
-            endLine: startLine,
+            ...this.tokenSpan(token),
             value
         };
     }
 
+    // ===== Position Helpers =====
+
+    /**
+     * Span of a single token
+     */
+    private tokenSpan(token: Token): SourceSpan {
+        return {
+            startLine: token.line,
+            startColumn: token.column,
+            endLine: token.line,
+            endColumn: token.column + token.length
+        };
+    }
+
+    /**
+     * Span from a start token to the end of the last consumed token that is
+     * not a newline or comment
+     */
+    private spanFrom(start: Token): SourceSpan {
+        const end = this.getLastContentToken() || start;
+
+        return {
+            startLine: start.line,
+            startColumn: start.column,
+            endLine: end.line,
+            endColumn: end.column + end.length
+        };
+    }
+
+    /**
+     * Last consumed token that is not a newline or comment
+     */
+    private getLastContentToken(): Token | undefined {
+        for (let i = this.position - 1; i >= 0; i--) {
+            const type = this.tokens[i].type;
+            if (type !== TokenType.NEWLINE && type !== TokenType.COMMENT) {
+                return this.tokens[i];
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Record an error at a token. Zero-width tokens (end of file) still get
+     * a one-character range so the diagnostic is visible.
+     */
+    private addError(code: ParseErrorCode, message: string, token: Token): void {
+        this.errors.push({
+            code,
+            message,
+            ...this.tokenSpan(token),
+            endColumn: token.column + Math.max(token.length, 1)
+        });
+    }
+
     // ===== Helper Methods =====
 
     private current(): Token {
@@ -667,8 +1020,12 @@ export class Parser {
     }
 
     private peek(): Token | null {
-        if (this.position + 1 >= this.tokens.length) return null;
-        return this.tokens[this.position + 1];
+        return this.peekAt(1);
+    }
+
+    private peekAt(offset: number): Token | null {
+        if (this.position + offset >= this.tokens.length) return null;
+        return this.tokens[this.position + offset];
     }
 
     private check(type: TokenType): boolean {
@@ -723,46 +1080,176 @@ export class Parser {
         this.consumeNewlines();
     }
 
+    private isAtLineEnd(): boolean {
+        return this.isAtEnd() || this.check(TokenType.NEWLINE) || this.check(TokenType.COMMENT);
+    }
+
     private isAtEnd(): boolean {
         if (this.position >= this.tokens.length) return true;
         return this.current().type === TokenType.EOF;
     }
 
-    private getCurrentLine(): number {
-        if (this.isAtEnd()) return this.currentLine;
-        return this.current().line;
+    private isUnitOperationType(type: TokenType): boolean {
+        return UNIT_OPERATION_TYPES.has(type);
     }
 
-    private isUnitOperationType(type: TokenType): boolean {
-        return type === TokenType.FLASH ||
-               type === TokenType.COLUMN ||
-               type === TokenType.HCURVE ||
-               type === TokenType.HX ||
-               type === TokenType.COMPRESSOR ||
-               type === TokenType.PUMP ||
-               type === TokenType.MIXER ||
-               type === TokenType.SPLITTER ||
-               type === TokenType.VALVE ||
-               type === TokenType.REACTOR ||
-               type === TokenType.CALCULATOR ||
-               type === TokenType.STCALC;
-    }
-
-    private isParameterKeyword(type: TokenType): boolean {
-        return type === TokenType.TEMP ||
-               type === TokenType.PRES ||
-               type === TokenType.RATE ||
-               type === TokenType.TYPE ||
-               type === TokenType.INPUT ||
-               type === TokenType.RESULT;
+    /**
+     * Word tokens: identifiers and keywords, which may also be used as names
+     * (e.g. a stream called FEED)
+     */
+    private isWordToken(): boolean {
+        if (this.isAtEnd()) return false;
+        const token = this.current();
+        return token.type !== TokenType.COMMENT && /^[A-Za-z]/.test(token.value);
+    }
+
+    /**
+     * Check for NAME= or NAME(QUALIFIER)= at the current token
+     */
+    private isParameterStart(): boolean {
+        if (!this.isWordToken()) return false;
+
+        let offset = 1;
+        if (this.peekAt(offset)?.type === TokenType.LPAREN) {
+            while (this.peekAt(offset) && !this.isLineEndToken(this.peekAt(offset)!) &&
+                   this.peekAt(offset)!.type !== TokenType.RPAREN) {
+                offset++;
+            }
+            offset++;
+        }
+        return this.peekAt(offset)?.type === TokenType.EQUALS;
+    }
+
+    private isLineEndToken(token: Token): boolean {
+        return token.type === TokenType.NEWLINE || token.type === TokenType.COMMENT || token.type === TokenType.EOF;
+    }
+
+    /**
+     * Check for a general data statement (TITLE, DIMENSION, ...)
+     */
+    private isGeneralStatement(): boolean {
+        return this.isWordToken() && GENERAL_STATEMENTS.has(this.current().value.toUpperCase());
+    }
+
+    /**
+     * Skip the lines of a CALCULATOR procedure up to and including RETURN,
+     * stopping early at the next unit or section
+     */
+    private skipProcedure(): void {
+        while (!this.isAtEnd()) {
+            this.skipToLineEnd();
+            const lineEnd = this.position;
+            this.skipWhitespaceAndComments();
+            if (this.isAtEnd() || this.isUnitOperationType(this.current().type) || this.isNextSection()) {
+                // Leave the end of line for the unit block to stop at
+                this.position = lineEnd;
+                return;
+            }
+
+            if (this.isWordToken() && this.current().value.toUpperCase() === 'RETURN') {
+                this.skipToLineEnd();
+                return;
+            }
+        }
+    }
+
+    private skipToLineEnd(): void {
+        while (!this.isAtEnd() && !this.check(TokenType.NEWLINE) && !this.check(TokenType.COMMENT)) {
+            this.advance();
+        }
+    }
+
+    /**
+     * Check for a valid statement of the section that is not modelled
+     */
+    private isUnmodelledStatement(sectionName: string): boolean {
+        return this.isWordToken() && UNMODELLED_STATEMENTS[sectionName]?.has(this.current().value.toUpperCase()) === true;
+    }
+
+    /**
+     * A stream name is a word that is not the start of a NAME=value pair
+     */
+    private isStreamName(): boolean {
+        return this.isWordToken() &&
+               !this.checkNext(TokenType.EQUALS) &&
+               !this.checkNext(TokenType.LPAREN);
+    }
+
+    /**
+     * Tokens that can start a parameter value
+     */
+    private isValueToken(): boolean {
+        return this.check(TokenType.NUMBER) || this.check(TokenType.STRING) || this.isWordToken();
     }
 
+    /**
+     * Check for a section header, or the END statement that closes the
+     * input, so neither is taken into the section before it
+     */
     private isNextSection(): boolean {
         return (this.check(TokenType.COMPONENT) && this.checkNext(TokenType.DATA)) ||
                (this.check(TokenType.STREAM) && this.checkNext(TokenType.DATA)) ||
                (this.check(TokenType.THERMODYNAMIC) && this.checkNext(TokenType.DATA)) ||
                this.check(TokenType.UNIT_OPERATIONS) ||
-               this.check(TokenType.PRINT);
+               this.check(TokenType.PRINT) ||
+               this.isUnmodelledSection() ||
+               this.isEndStatement();
+    }
+
+    /**
+     * Check for the header of a section that is not modelled (REACTION DATA)
+     */
+    private isUnmodelledSection(): boolean {
+        return this.isWordToken() && UNMODELLED_SECTIONS.has(this.current().value.toUpperCase()) &&
+               this.checkNext(TokenType.DATA);
+    }
+
+    /**
+     * Check for END on a line of its own
+     */
+    private isEndStatement(): boolean {
+        if (!this.isWordToken() || this.current().value.toUpperCase() !== 'END') return false;
+
+        const next = this.peek();
+        return !next || next.type === TokenType.NEWLINE || next.type === TokenType.COMMENT || next.type === TokenType.EOF;
+    }
+
+    /**
+     * Check if the token at an offset is a list value: a number, or an
+     * identifier that does not start the next NAME=value pair
+     */
+    /**
+     * Number of tokens taken by an & continuation at an offset, with the
+     * comment and line break after it; 0 if there is none
+     */
+    private getContinuationLength(offset: number): number {
+        if (this.peekAt(offset)?.type !== TokenType.CONTINUATION) return 0;
+
+        let length = 1;
+        while (this.peekAt(offset + length)?.type === TokenType.COMMENT ||
+               this.peekAt(offset + length)?.type === TokenType.NEWLINE) {
+            length++;
+        }
+        return length;
+    }
+
+    /**
+     * Skip an & continuation after a list separator
+     */
+    private skipContinuation(): void {
+        for (let length = this.getContinuationLength(0); length > 0; length--) {
+            this.advance();
+        }
+    }
+
+    private isListItemAt(offset: number): boolean {
+        const token = this.peekAt(offset);
+        if (!token) return false;
+        if (token.type === TokenType.NUMBER) return true;
+        if (token.type !== TokenType.IDENTIFIER) return false;
+
+        const next = this.peekAt(offset + 1);
+        return !next || (next.type !== TokenType.EQUALS && next.type !== TokenType.LPAREN);
     }
 
     private isListStart(): boolean {
@@ -772,6 +1259,8 @@ export class Parser {
         }
 
         const next = this.peek();
-        return next !== null && (next.type === TokenType.COMMA || next.type === TokenType.SLASH);
+        return next !== null &&
+               (next.type === TokenType.COMMA || next.type === TokenType.SLASH) &&
+               this.isListItemAt(2);
     }
 }
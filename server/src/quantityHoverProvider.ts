@@ -0,0 +1,125 @@
+/**
+ * Quantity Hover Provider for PRO/II Language Server
+ * Shows a number such as TEMP=350 in its declared unit, with conversions
+ * to the common English, metric and SI units
+ */
+
+import { Hover, MarkupKind, Position } from 'vscode-languageserver/node';
+import { ProgramNode, ParameterNode, NumberNode, ValueNode } from './ast';
+import { SymbolTable } from './symbolTable';
+import { spanToRange } from './documentUtils';
+import {
+    QuantityKind, Unit, QUANTITY_NAMES, getParameterUnit, getSystemUnit, parseUnit, convert, formatQuantity, formatValue
+} from './units';
+
+/**
+ * Units shown as conversions for each quantity
+ */
+const CONVERSION_UNITS: Record<QuantityKind, string[]> = {
+    temperature: ['C', 'F', 'K'],
+    pressure: ['BAR', 'PSIA', 'KPA'],
+    massRate: ['KG/HR', 'LB/HR'],
+    moleRate: ['KG-MOL/HR', 'LB-MOL/HR'],
+    liquidVolumeRate: ['M3/HR', 'FT3/HR', 'BBL/DAY'],
+    vaporVolumeRate: ['M3/HR', 'FT3/HR'],
+    duty: ['M*KJ/HR', 'M*KCAL/HR', 'M*BTU/HR']
+};
+
+/**
+ * Create hover content for the number at a position, if it is the value of
+ * a parameter with units
+ */
+export function createQuantityHover(ast: ProgramNode, symbolTable: SymbolTable, position: Position): Hover | null {
+    const line = position.line + 1;
+    const column = position.character + 1;
+
+    for (const param of getParameters(ast)) {
+        const number = findNumber(param.value, line, column);
+        if (!number) continue;
+
+        const system = symbolTable.getUnitSystem();
+        const resolved = getParameterUnit(system, param.name.name, param.qualifier);
+        if (!resolved) return null;
+
+        const name = param.qualifier ? `${param.name.name}(${param.qualifier})` : param.name.name;
+        const quantity = { value: number.value, unit: resolved.unit };
+        const markdown: string[] = [];
+
+        markdown.push(`### 🔢 ${name} = ${formatQuantity(quantity)}\n`);
+        const fromSystem = resolved.unit.name === getSystemUnit(system, resolved.kind).name;
+        const source = fromSystem ? `${system.base} units` : 'from qualifier';
+        markdown.push(`**${capitalize(QUANTITY_NAMES[resolved.kind])}** in ${resolved.unit.label} (${source})\n`);
+
+        if (resolved.error) {
+            markdown.push(`⚠️ ${resolved.error}\n`);
+        }
+
+        markdown.push(`| Unit | Value |`);
+        markdown.push(`|------|-------|`);
+        for (const unit of getConversionUnits(resolved.kind, resolved.unit)) {
+            const converted = convert(quantity, unit);
+            const declared = unit.name === resolved.unit.name ? ' *(declared)*' : '';
+            markdown.push(`| ${unit.label}${declared} | ${formatValue(converted.value)} |`);
+        }
+
+        return {
+            contents: {
+                kind: MarkupKind.Markdown,
+                value: markdown.join('\n')
+            },
+            range: spanToRange(number)
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Parameters of all statements in the document
+ */
+function getParameters(ast: ProgramNode): ParameterNode[] {
+    const parameters: ParameterNode[] = [];
+
+    for (const section of ast.sections) {
+        for (const stmt of section.statements) {
+            const stmtParameters = (stmt as { parameters?: ParameterNode[] }).parameters;
+            if (stmtParameters) parameters.push(...stmtParameters);
+        }
+    }
+
+    return parameters;
+}
+
+/**
+ * The number node of a value at a position (1-based), looking into lists
+ */
+function findNumber(value: ValueNode, line: number, column: number): NumberNode | null {
+    if (value.type === 'List') {
+        for (const item of value.values) {
+            const number = findNumber(item, line, column);
+            if (number) return number;
+        }
+        return null;
+    }
+
+    const inside = value.startLine === line && column >= value.startColumn && column < value.endColumn;
+    return value.type === 'Number' && inside ? value : null;
+}
+
+/**
+ * The declared unit followed by the common units of a quantity
+ */
+function getConversionUnits(kind: QuantityKind, declared: Unit): Unit[] {
+    const units = [declared];
+
+    for (const name of CONVERSION_UNITS[kind]) {
+        const unit = parseUnit(name, kind);
+        if (unit && unit.name !== declared.name) units.push(unit);
+    }
+
+    return units;
+}
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,78 @@
+/**
+ * References Provider for PRO/II Language Server
+ * Lists every place a stream, unit UID or component is used
+ */
+
+import { Location, Position, Range } from 'vscode-languageserver/node';
+import { SymbolTable, SymbolKind, Symbol } from './symbolTable';
+import { getWordAtPosition, isInComment } from './documentUtils';
+import { getDefinitionRange } from './definitionProvider';
+
+/**
+ * Get the ranges of all occurrences of a symbol (LSP 0-based positions),
+ * sorted by position
+ */
+export function getReferenceRanges(symbol: Symbol, includeDeclaration: boolean): Range[] {
+    const ranges: Range[] = [];
+    const seen = new Set<string>();
+
+    const add = (range: Range) => {
+        const key = `${range.start.line}:${range.start.character}`;
+        if (!seen.has(key)) {
+            seen.add(key);
+            ranges.push(range);
+        }
+    };
+
+    const declaration = getDefinitionRange(symbol);
+    const declarationKey = `${declaration.start.line}:${declaration.start.character}`;
+    if (includeDeclaration) {
+        add(declaration);
+    } else {
+        seen.add(declarationKey);
+    }
+
+    for (const ref of symbol.references) {
+        // Only definitions (STREAM DATA entries, unit headers) count as declarations
+        if (!includeDeclaration && ref.context === 'definition') continue;
+        if (ref.column === undefined) continue;
+
+        const line = ref.line - 1;
+        const character = ref.column - 1;
+        add({
+            start: { line, character },
+            end: { line, character: character + symbol.name.length }
+        });
+    }
+
+    return ranges.sort((a, b) =>
+        a.start.line - b.start.line || a.start.character - b.start.character
+    );
+}
+
+/**
+ * Find all references to the symbol under the cursor
+ */
+export function provideReferences(
+    symbolTable: SymbolTable,
+    uri: string,
+    lineText: string,
+    position: Position,
+    includeDeclaration: boolean
+): Location[] {
+    if (isInComment(lineText, position.character)) {
+        return [];
+    }
+
+    const word = getWordAtPosition(lineText, position.character);
+    if (!word) {
+        return [];
+    }
+
+    const symbol = symbolTable.getSymbol(word.word);
+    if (!symbol || symbol.kind === SymbolKind.PARAMETER) {
+        return [];
+    }
+
+    return getReferenceRanges(symbol, includeDeclaration).map(range => Location.create(uri, range));
+}
@@ -0,0 +1,106 @@
+/**
+ * Rename Provider for PRO/II Language Server
+ * Renames streams, unit UIDs and components everywhere they are used
+ */
+
+import {
+    ErrorCodes, Position, Range, ResponseError, TextEdit, WorkspaceEdit
+} from 'vscode-languageserver/node';
+import { SymbolTable, SymbolKind, Symbol } from './symbolTable';
+import { KEYWORDS } from './types';
+import { getWordAtPosition } from './documentUtils';
+import { getReferenceRanges } from './referencesProvider';
+
+/**
+ * Valid PRO/II names: a letter followed by letters, digits, underscores and
+ * inner hyphens (S12, HP-GAS, F-100)
+ */
+const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*(-[A-Za-z0-9_]+)*$/;
+
+/**
+ * Find the renameable symbol occurrence under the cursor.
+ * Only real occurrences count, so keywords and text in comments or strings
+ * that happen to match a symbol name are never renamed.
+ */
+function findSymbolAt(
+    symbolTable: SymbolTable,
+    lineText: string,
+    position: Position
+): { symbol: Symbol; range: Range } | null {
+    const word = getWordAtPosition(lineText, position.character);
+    if (!word) return null;
+
+    const symbol = symbolTable.getSymbol(word.word);
+    if (!symbol || symbol.kind === SymbolKind.PARAMETER) return null;
+
+    const range = getReferenceRanges(symbol, true).find(r =>
+        r.start.line === position.line && r.start.character === word.start
+    );
+    if (!range) return null;
+
+    return { symbol, range };
+}
+
+/**
+ * Check a new name, returning an error message if it cannot be used
+ */
+export function getRenameError(symbolTable: SymbolTable, symbol: Symbol, newName: string): string | null {
+    if (!NAME_PATTERN.test(newName)) {
+        return `'${newName}' is not a valid PRO/II name`;
+    }
+
+    const upperName = newName.toUpperCase();
+
+    if (KEYWORDS.has(upperName)) {
+        return `'${newName}' is a reserved PRO/II keyword`;
+    }
+
+    const existing = symbolTable.getSymbol(upperName);
+    if (existing && existing !== symbol) {
+        return `'${newName}' is already used by ${existing.kind} ${existing.name}`;
+    }
+
+    return null;
+}
+
+/**
+ * Check that the symbol under the cursor can be renamed
+ */
+export function prepareRename(
+    symbolTable: SymbolTable,
+    lineText: string,
+    position: Position
+): { range: Range; placeholder: string } | null {
+    const found = findSymbolAt(symbolTable, lineText, position);
+    if (!found) return null;
+
+    return {
+        range: found.range,
+        placeholder: lineText.substring(found.range.start.character, found.range.end.character)
+    };
+}
+
+/**
+ * Rename the symbol under the cursor in its definition and all references
+ */
+export function provideRename(
+    symbolTable: SymbolTable,
+    uri: string,
+    lineText: string,
+    position: Position,
+    newName: string
+): WorkspaceEdit | ResponseError<void> | null {
+    const found = findSymbolAt(symbolTable, lineText, position);
+    if (!found) return null;
+
+    const error = getRenameError(symbolTable, found.symbol, newName);
+    if (error) {
+        return new ResponseError(ErrorCodes.InvalidParams, error);
+    }
+
+    const edits = getReferenceRanges(found.symbol, true).map(range => TextEdit.replace(range, newName));
+
+    return {
+        changes: { [uri]: edits }
+    };
+}
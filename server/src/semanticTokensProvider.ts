@@ -0,0 +1,215 @@
+/**
+ * Semantic Tokens Provider for PRO/II Language Server
+ * Classifies the words of a document from the lexer tokens and the symbol
+ * table, so a stream called FEED is coloured as a stream rather than as the
+ * FEED keyword and stream names, UIDs and components each get their own colour
+ */
+
+import { SemanticTokens, SemanticTokensBuilder, SemanticTokensDelta, SemanticTokensLegend } from 'vscode-languageserver/node';
+import { Lexer } from './lexer';
+import { Token, TokenType } from './types';
+import { Symbol, SymbolKind, SymbolTable } from './symbolTable';
+import { getKeywordDoc } from './keywordDocs';
+
+/**
+ * Token types, in legend order. stream, unit, component and
+ * thermodynamicMethod are declared with their fallback types in the
+ * extension's package.json.
+ */
+export enum SemanticTokenType {
+    STREAM = 'stream',
+    UNIT = 'unit',
+    COMPONENT = 'component',
+    PARAMETER = 'parameter',
+    THERMODYNAMIC_METHOD = 'thermodynamicMethod',
+    KEYWORD = 'keyword'
+}
+
+/**
+ * Token modifiers, in legend order (one bit each)
+ */
+export enum SemanticTokenModifier {
+    DECLARATION = 'declaration', // Where a stream, unit or component is defined
+    UNDEFINED = 'undefined', // Stream used but never defined
+    DEPRECATED = 'deprecated', // Keyword kept for old input files
+    DEFAULT_LIBRARY = 'defaultLibrary' // Component found in the databank
+}
+
+const TOKEN_TYPES = Object.values(SemanticTokenType);
+const TOKEN_MODIFIERS = Object.values(SemanticTokenModifier);
+
+/**
+ * Legend announced in the server capabilities
+ */
+export const SEMANTIC_TOKENS_LEGEND: SemanticTokensLegend = {
+    tokenTypes: TOKEN_TYPES,
+    tokenModifiers: TOKEN_MODIFIERS
+};
+
+/**
+ * A classified word of the document (0-based position)
+ */
+export interface ClassifiedToken {
+    line: number;
+    character: number;
+    length: number;
+    type: SemanticTokenType;
+    modifiers: SemanticTokenModifier[];
+}
+
+/**
+ * Token type of each symbol kind
+ */
+const SYMBOL_TOKEN_TYPES: { [kind: string]: SemanticTokenType } = {
+    [SymbolKind.STREAM]: SemanticTokenType.STREAM,
+    [SymbolKind.UNIT]: SemanticTokenType.UNIT,
+    [SymbolKind.COMPONENT]: SemanticTokenType.COMPONENT
+};
+
+/**
+ * Tokens that are neither words nor part of a statement's text
+ */
+const SKIPPED_TOKENS = new Set([
+    TokenType.NUMBER, TokenType.STRING, TokenType.COMMENT, TokenType.CONTINUATION,
+    TokenType.NEWLINE, TokenType.EOF, TokenType.UNKNOWN,
+    TokenType.EQUALS, TokenType.COMMA, TokenType.SLASH, TokenType.PLUS, TokenType.MINUS,
+    TokenType.TIMES, TokenType.DIVIDE, TokenType.LPAREN, TokenType.RPAREN
+]);
+
+/**
+ * Full semantic tokens for a document. The builder keeps the result so a
+ * later delta request can be answered from it.
+ */
+export function provideSemanticTokens(
+    text: string,
+    symbolTable: SymbolTable,
+    builder: SemanticTokensBuilder = new SemanticTokensBuilder()
+): SemanticTokens {
+    pushTokens(builder, classifyTokens(text, symbolTable));
+    return builder.build();
+}
+
+/**
+ * Semantic tokens as edits to the result the builder returned last. Falls
+ * back to the full tokens when previousResultId is not that result.
+ */
+export function provideSemanticTokensDelta(
+    text: string,
+    symbolTable: SymbolTable,
+    builder: SemanticTokensBuilder,
+    previousResultId: string
+): SemanticTokens | SemanticTokensDelta {
+    builder.previousResult(previousResultId);
+    pushTokens(builder, classifyTokens(text, symbolTable));
+    return builder.buildEdits();
+}
+
+/**
+ * Classify the words of a document, in document order. Names the symbol
+ * table knows take their symbol's kind whatever the lexer made of them;
+ * other words are parameters (followed by =), thermodynamic methods
+ * (SYSTEM=SRK) or keywords. Plain values such as TYPE=CONVERSION are left
+ * to the grammar.
+ */
+export function classifyTokens(text: string, symbolTable: SymbolTable): ClassifiedToken[] {
+    const tokens = new Lexer(text).tokenize();
+    const symbolPositions = getSymbolPositions(symbolTable);
+    const undefinedNames = new Set(symbolTable.getUndefinedSymbols().map(symbol => symbol.name));
+    const classified: ClassifiedToken[] = [];
+
+    let atStatementStart = true;
+    let continued = false;
+
+    tokens.forEach((token, index) => {
+        if (token.type === TokenType.NEWLINE) {
+            if (!continued) atStatementStart = true;
+            continued = false;
+            return;
+        }
+        if (token.type === TokenType.CONTINUATION) {
+            continued = true;
+            return;
+        }
+        if (token.type === TokenType.COMMENT) return;
+
+        const isStatementKeyword = atStatementStart;
+        atStatementStart = false;
+        if (SKIPPED_TOKENS.has(token.type)) return;
+
+        const position = { line: token.line - 1, character: token.column - 1, length: token.length };
+        const upperValue = token.value.toUpperCase();
+        const symbol = symbolPositions.get(`${token.line}:${token.column}`);
+
+        if (symbol) {
+            const modifiers: SemanticTokenModifier[] = [];
+            if (undefinedNames.has(symbol.name)) {
+                modifiers.push(SemanticTokenModifier.UNDEFINED);
+            } else if (symbol.definedAt.line === token.line && symbol.definedAt.column === token.column) {
+                modifiers.push(SemanticTokenModifier.DECLARATION);
+            }
+            if (symbol.kind === SymbolKind.COMPONENT && symbol.metadata?.libraryId) {
+                modifiers.push(SemanticTokenModifier.DEFAULT_LIBRARY);
+            }
+            classified.push({ ...position, type: SYMBOL_TOKEN_TYPES[symbol.kind], modifiers });
+            return;
+        }
+
+        const doc = getKeywordDoc(upperValue);
+        const modifiers = doc?.deprecated ? [SemanticTokenModifier.DEPRECATED] : [];
+
+        if (isFollowedByValue(tokens, index)) {
+            classified.push({ ...position, type: SemanticTokenType.PARAMETER, modifiers });
+        } else if (doc?.category === 'method' && tokens[index - 1]?.type === TokenType.EQUALS) {
+            classified.push({ ...position, type: SemanticTokenType.THERMODYNAMIC_METHOD, modifiers });
+        } else if (token.type !== TokenType.IDENTIFIER || (isStatementKeyword && doc)) {
+            classified.push({ ...position, type: SemanticTokenType.KEYWORD, modifiers });
+        }
+    });
+
+    return classified;
+}
+
+/**
+ * Symbols by the 1-based "line:column" of their definition and references
+ */
+function getSymbolPositions(symbolTable: SymbolTable): Map<string, Symbol> {
+    const positions = new Map<string, Symbol>();
+
+    for (const symbol of symbolTable.getAllSymbols()) {
+        if (!SYMBOL_TOKEN_TYPES[symbol.kind]) continue;
+
+        for (const location of [symbol.definedAt, ...symbol.references]) {
+            if (location.column !== undefined) {
+                positions.set(`${location.line}:${location.column}`, symbol);
+            }
+        }
+    }
+
+    return positions;
+}
+
+/**
+ * Check if a word gets a value: NAME= or NAME(QUALIFIER)=
+ */
+function isFollowedByValue(tokens: Token[], index: number): boolean {
+    let next = index + 1;
+
+    if (tokens[next]?.type === TokenType.LPAREN) {
+        while (next < tokens.length && tokens[next].type !== TokenType.RPAREN && tokens[next].type !== TokenType.NEWLINE) {
+            next++;
+        }
+        next++;
+    }
+
+    return tokens[next]?.type === TokenType.EQUALS;
+}
+
+/**
+ * Add classified tokens to a builder
+ */
+function pushTokens(builder: SemanticTokensBuilder, tokens: ClassifiedToken[]): void {
+    for (const token of tokens) {
+        const modifiers = token.modifiers.reduce((bits, modifier) => bits | (1 << TOKEN_MODIFIERS.indexOf(modifier)), 0);
+        builder.push(token.line, token.character, token.length, TOKEN_TYPES.indexOf(token.type), modifiers);
+    }
+}
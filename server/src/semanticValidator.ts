@@ -0,0 +1,215 @@
+/**
+ * Semantic Validator for PRO/II Language Server
+ * Checks flowsheet connectivity (undefined feeds, streams with several
+ * producers, unused products and duplicate UIDs) and unit qualifiers
+ */
+
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { ProgramNode, UnitOperationNode, StreamReferenceNode, ParameterNode } from './ast';
+import { SymbolTable } from './symbolTable';
+import { createDiagnostic, spanToRange } from './documentUtils';
+import { getParameterUnit, getUnitNames } from './units';
+import { getParameterSchema } from './unitSchema';
+
+/**
+ * Diagnostic codes reported by the semantic validator
+ */
+export const SemanticCodes = {
+    UNDEFINED_STREAM: 'undefined-stream',
+    MULTIPLE_PRODUCERS: 'multiple-producers',
+    UNUSED_PRODUCT: 'unused-product',
+    DUPLICATE_UID: 'duplicate-uid',
+    UNKNOWN_UNIT: 'unknown-unit'
+} as const;
+
+/**
+ * A stream reference together with the unit it belongs to
+ */
+interface UnitStream {
+    unit: UnitOperationNode;
+    stream: StreamReferenceNode;
+}
+
+/**
+ * Run all semantic checks on a parsed document
+ */
+export function validateSemantics(ast: ProgramNode, symbolTable: SymbolTable): Diagnostic[] {
+    const units = getUnitOperations(ast);
+
+    return [
+        ...checkUndefinedFeeds(units, symbolTable),
+        ...checkMultipleProducers(units),
+        ...checkUnusedProducts(units),
+        ...checkDuplicateUids(units),
+        ...checkUnitQualifiers(ast, symbolTable)
+    ];
+}
+
+/**
+ * Feeds that are neither defined in STREAM DATA nor produced by a unit
+ */
+function checkUndefinedFeeds(units: UnitOperationNode[], symbolTable: SymbolTable): Diagnostic[] {
+    const undefinedNames = new Set(symbolTable.getUndefinedSymbols().map(symbol => symbol.name));
+
+    return collectStreams(units, 'feed')
+        .filter(({ stream }) => undefinedNames.has(stream.streamName.name.toUpperCase()))
+        .map(({ unit, stream }) => createDiagnostic(
+            spanToRange(stream.streamName),
+            DiagnosticSeverity.Error,
+            SemanticCodes.UNDEFINED_STREAM,
+            `Stream '${stream.streamName.name}' fed to ${getUnitName(unit)} is not defined in STREAM DATA or produced by any unit`
+        ));
+}
+
+/**
+ * Streams listed as a product of more than one unit
+ */
+function checkMultipleProducers(units: UnitOperationNode[]): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const firstProducer = new Map<string, UnitOperationNode>();
+
+    for (const { unit, stream } of collectStreams(units, 'product')) {
+        const name = stream.streamName.name.toUpperCase();
+        const producer = firstProducer.get(name);
+
+        if (!producer) {
+            firstProducer.set(name, unit);
+        } else {
+            diagnostics.push(createDiagnostic(
+                spanToRange(stream.streamName),
+                DiagnosticSeverity.Error,
+                SemanticCodes.MULTIPLE_PRODUCERS,
+                `Stream '${stream.streamName.name}' is already produced by ${getUnitName(producer)} (line ${producer.startLine})`
+            ));
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Products that no unit uses as a feed. These are often the final
+ * products of the flowsheet, so they are only reported as information.
+ */
+function checkUnusedProducts(units: UnitOperationNode[]): Diagnostic[] {
+    const fedNames = new Set(collectStreams(units, 'feed').map(({ stream }) => stream.streamName.name.toUpperCase()));
+
+    return collectStreams(units, 'product')
+        .filter(({ stream }) => !fedNames.has(stream.streamName.name.toUpperCase()))
+        .map(({ unit, stream }) => createDiagnostic(
+            spanToRange(stream.streamName),
+            DiagnosticSeverity.Information,
+            SemanticCodes.UNUSED_PRODUCT,
+            `Product '${stream.streamName.name}' of ${getUnitName(unit)} is not fed to any unit`
+        ));
+}
+
+/**
+ * UIDs used by more than one unit
+ */
+function checkDuplicateUids(units: UnitOperationNode[]): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const firstUnit = new Map<string, UnitOperationNode>();
+
+    for (const unit of units) {
+        if (!unit.uid || !unit.uid.name) continue;
+
+        const name = unit.uid.name.toUpperCase();
+        const first = firstUnit.get(name);
+
+        if (!first) {
+            firstUnit.set(name, unit);
+        } else {
+            diagnostics.push(createDiagnostic(
+                spanToRange(unit.uid),
+                DiagnosticSeverity.Error,
+                SemanticCodes.DUPLICATE_UID,
+                `Duplicate UID '${unit.uid.name}' (first used by ${first.statementType} on line ${first.startLine})`
+            ));
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Qualifiers that name an unknown unit, e.g. TEMP(X)= or RATE(WT,KG/FOO)=
+ */
+function checkUnitQualifiers(ast: ProgramNode, symbolTable: SymbolTable): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const system = symbolTable.getUnitSystem();
+
+    // Unit parameters with units in their schema are left to the unit validator
+    const schemaParameters = new Set(getUnitOperations(ast).flatMap(unit =>
+        unit.parameters.filter(param => getParameterSchema(unit.statementType, param.name.name)?.quantity)));
+
+    for (const param of getParameters(ast)) {
+        if (!param.qualifier || schemaParameters.has(param)) continue;
+
+        const resolved = getParameterUnit(system, param.name.name, param.qualifier);
+        if (!resolved || !resolved.error) continue;
+
+        const known = resolved.kind === 'temperature' || resolved.kind === 'pressure'
+            ? ` (expected ${getUnitNames(resolved.kind).join(', ')})`
+            : '';
+        diagnostics.push(createDiagnostic(spanToRange(param), DiagnosticSeverity.Warning, SemanticCodes.UNKNOWN_UNIT, resolved.error + known));
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Parameters of all statements in the document
+ */
+function getParameters(ast: ProgramNode): ParameterNode[] {
+    const parameters: ParameterNode[] = [];
+
+    for (const section of ast.sections) {
+        for (const stmt of section.statements) {
+            const stmtParameters = (stmt as { parameters?: ParameterNode[] }).parameters;
+            if (stmtParameters) parameters.push(...stmtParameters);
+        }
+    }
+
+    return parameters;
+}
+
+/**
+ * All unit operations in the document
+ */
+function getUnitOperations(ast: ProgramNode): UnitOperationNode[] {
+    const units: UnitOperationNode[] = [];
+
+    for (const section of ast.sections) {
+        for (const stmt of section.statements) {
+            if (stmt.type === 'UnitOperation') {
+                units.push(stmt as UnitOperationNode);
+            }
+        }
+    }
+
+    return units;
+}
+
+/**
+ * Feed or product references of all units, in document order
+ */
+function collectStreams(units: UnitOperationNode[], direction: 'feed' | 'product'): UnitStream[] {
+    const streams: UnitStream[] = [];
+
+    for (const unit of units) {
+        const refs = direction === 'feed' ? unit.feedStreams : unit.productStreams;
+        for (const stream of refs) {
+            streams.push({ unit, stream });
+        }
+    }
+
+    return streams;
+}
+
+/**
+ * Name used for a unit in messages: its UID, or its type when it has none
+ */
+function getUnitName(unit: UnitOperationNode): string {
+    return unit.uid && unit.uid.name ? unit.uid.name : unit.statementType;
+}
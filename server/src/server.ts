@@ -10,27 +10,49 @@ import {
     InitializeParams,
     TextDocumentSyncKind,
     InitializeResult,
+    WorkspaceFolder,
+    FileChangeType,
     Diagnostic,
     DiagnosticSeverity,
     Hover,
-    MarkupContent
+    MarkupContent,
+    ExecuteCommandParams,
+    CodeActionKind,
+    SemanticTokensBuilder
 } from 'vscode-languageserver/node';
 
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import { fileURLToPath } from 'url';
+import * as path from 'path';
 import { Lexer } from './lexer';
-import { Parser } from './parser';
+import { Parser, ParseError } from './parser';
+import { Token } from './types';
 import { ProgramNode } from './ast';
 import { getKeywordDoc, formatHoverDoc } from './keywordDocs';
-import {
-    getKeywordCompletions,
-    getUnitOperationSnippets,
-    getSectionCompletions,
-    getParameterCompletions,
-    getThermodynamicMethodCompletions,
-    getContextAwareCompletions
-} from './completionProvider';
+import { provideCompletions } from './completionProvider';
+import { provideSignatureHelp } from './signatureHelpProvider';
+import { SEMANTIC_TOKENS_LEGEND, provideSemanticTokens, provideSemanticTokensDelta } from './semanticTokensProvider';
 import { SymbolTable } from './symbolTable';
 import { provideHover as provideSymbolHover } from './symbolHoverProvider';
+import { createQuantityHover } from './quantityHoverProvider';
+import { provideDefinition } from './definitionProvider';
+import { provideReferences } from './referencesProvider';
+import { prepareRename, provideRename } from './renameProvider';
+import { provideDocumentSymbols } from './documentSymbolProvider';
+import { provideFoldingRanges } from './foldingRangeProvider';
+import { WorkspaceIndex, isIndexedFile } from './workspaceIndex';
+import { validateSemantics } from './semanticValidator';
+import { validateComponents } from './componentValidator';
+import { validateCompositions, provideCompositionActions } from './compositionValidator';
+import { buildSyntaxTree } from './syntaxTree';
+import { validateUnitOperations } from './unitValidator';
+import { validateSpecifications } from './specificationAnalyzer';
+import { FlowsheetGraph, FlowsheetView } from './flowsheet';
+import { exportFlowsheet, isExportFormat } from './flowsheetExport';
+import { provideFormatting, provideRangeFormatting } from './formattingProvider';
+import { getParameterUnit, getSystemUnit } from './units';
+import { getDefaultDatabank, PROJECT_COMPONENT_FILE } from './componentDatabank';
+import { getWordAtPosition, spanToRange, splitLines } from './documentUtils';
 
 // Create LSP connection
 const connection = createConnection(ProposedFeatures.all);
@@ -38,16 +60,40 @@ const connection = createConnection(ProposedFeatures.all);
 // Document manager
 const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
 
+/**
+ * Result of parsing a document
+ */
+interface ParsedDocument {
+    ast: ProgramNode;
+    tokens: Token[];
+    errors: ParseError[];
+}
+
 // Store parsed ASTs for each document
 const documentASTs: Map<string, ProgramNode> = new Map();
 
 // Store symbol tables for each document
 const documentSymbolTables: Map<string, SymbolTable> = new Map();
 
+// Last semantic tokens sent for each document, for delta requests
+const semanticTokenBuilders: Map<string, SemanticTokensBuilder> = new Map();
+
+// Symbols of all PRO/II files in the workspace (open or not)
+const workspaceIndex = new WorkspaceIndex();
+
+// Workspace folders to index on startup
+let workspaceFolders: WorkspaceFolder[] = [];
+
 // Initialize server
 connection.onInitialize((params: InitializeParams): InitializeResult => {
     connection.console.log('PRO/II Language Server initializing...');
     
+    if (params.workspaceFolders) {
+        workspaceFolders = params.workspaceFolders;
+    } else if (params.rootUri) {
+        workspaceFolders = [{ uri: params.rootUri, name: 'root' }];
+    }
+    
     return {
         capabilities: {
             textDocumentSync: TextDocumentSyncKind.Incremental,
@@ -58,63 +104,149 @@ connection.onInitialize((params: InitializeParams): InitializeResult => {
                 resolveProvider: true,
                 triggerCharacters: ['=', ',', ' ']
             },
-            definitionProvider: false,
-            referencesProvider: false,
-            documentSymbolProvider: false,
-            workspaceSymbolProvider: false,
-            codeActionProvider: false,
-            renameProvider: false,
-            documentFormattingProvider: false
+            signatureHelpProvider: {
+                triggerCharacters: [' ', ',', '/', '=']
+            },
+            definitionProvider: true,
+            referencesProvider: true,
+            documentSymbolProvider: true,
+            foldingRangeProvider: true,
+            workspaceSymbolProvider: true,
+            codeActionProvider: {
+                codeActionKinds: [CodeActionKind.QuickFix]
+            },
+            renameProvider: {
+                prepareProvider: true
+            },
+            semanticTokensProvider: {
+                legend: SEMANTIC_TOKENS_LEGEND,
+                full: { delta: true }
+            },
+            documentFormattingProvider: true,
+            documentRangeFormattingProvider: true,
+            executeCommandProvider: {
+                commands: ['proii.server.exportFlowsheet']
+            }
         }
     };
 });
 
 connection.onInitialized(() => {
     connection.console.log('✅ PRO/II Language Server initialized!');
+    getDefaultDatabank().getBundledErrors().forEach(error => connection.console.error(`❌ ${error}`));
+    loadProjectComponents()
+        .then(indexWorkspaceFolders)
+        .catch(error => connection.console.error(`❌ Failed to load workspace: ${error}`));
 });
 
 /**
- * Parse a document and store the AST
+ * Extend the component databank with each workspace folder's project file
  */
-function parseDocument(document: TextDocument): ProgramNode | null {
+async function loadProjectComponents(): Promise<void> {
+    for (const folder of workspaceFolders) {
+        if (!folder.uri.startsWith('file:')) continue;
+        await loadProjectComponentFile(path.join(fileURLToPath(folder.uri), PROJECT_COMPONENT_FILE));
+    }
+}
+
+/**
+ * Load (or reload) a project component file and log any problems
+ */
+async function loadProjectComponentFile(filePath: string): Promise<void> {
     try {
-        const text = document.getText();
-        const lexer = new Lexer(text);
-        const tokens = lexer.tokenize();
-        const parser = new Parser(tokens);
-        const ast = parser.parse();
-        
-        documentASTs.set(document.uri, ast);
-        
-        // Build symbol table from AST
-        const symbolTable = new SymbolTable();
-        symbolTable.build(ast, text);
-        documentSymbolTables.set(document.uri, symbolTable);
-        
-        const stats = symbolTable.getStats();
-        connection.console.log(`✅ Parsed ${document.uri}: ${ast.sections.length} sections, ${stats.streams} streams, ${stats.components} components, ${stats.units} units`);
-        
-        return ast;
+        const errors = await getDefaultDatabank().loadProjectFile(filePath);
+        errors.forEach(error => connection.console.error(`❌ ${filePath}: ${error}`));
     } catch (error) {
-        connection.console.error(`❌ Parse error in ${document.uri}: ${error}`);
-        return null;
+        connection.console.error(`❌ Failed to load ${filePath}: ${error}`);
+    }
+}
+
+/**
+ * Index all PRO/II files in the workspace folders in the background
+ */
+async function indexWorkspaceFolders(): Promise<void> {
+    for (const folder of workspaceFolders) {
+        if (!folder.uri.startsWith('file:')) continue;
+        
+        try {
+            const count = await workspaceIndex.indexFolder(fileURLToPath(folder.uri));
+            connection.console.log(`📚 Indexed ${count} PRO/II files in ${folder.uri}`);
+        } catch (error) {
+            connection.console.error(`❌ Failed to index ${folder.uri}: ${error}`);
+        }
     }
+    
+    const stats = workspaceIndex.getStats();
+    connection.console.log(`📚 Workspace index: ${stats.files} files, ${stats.symbols} symbols`);
 }
 
 /**
- * Validate document and send diagnostics
+ * Parse a document and store the AST
+ */
+function parseDocument(document: TextDocument): ParsedDocument {
+    const text = document.getText();
+    const lexer = new Lexer(text);
+    const tokens = lexer.tokenize();
+    const parser = new Parser(tokens);
+    const ast = parser.parse();
+    
+    documentASTs.set(document.uri, ast);
+    
+    // Build symbol table from AST
+    const symbolTable = new SymbolTable();
+    symbolTable.build(ast, text);
+    documentSymbolTables.set(document.uri, symbolTable);
+    workspaceIndex.updateDocument(document.uri, symbolTable);
+    
+    const stats = symbolTable.getStats();
+    connection.console.log(`✅ Parsed ${document.uri}: ${ast.sections.length} sections, ${stats.streams} streams, ${stats.components} components, ${stats.units} units`);
+    
+    return { ast, tokens, errors: parser.getErrors() };
+}
+
+/**
+ * Parse a document, validate it and send diagnostics
  */
 function validateDocument(document: TextDocument): void {
     const diagnostics: Diagnostic[] = [];
     
     try {
         const text = document.getText();
-        const lexer = new Lexer(text);
-        const tokens = lexer.tokenize();
+        const { ast, tokens, errors: parseErrors } = parseDocument(document);
+        
+        // Parse errors carry the range of the offending token or skipped region
+        parseErrors.forEach(error => {
+            diagnostics.push({
+                severity: error.code === 'unmodelled-statement' ? DiagnosticSeverity.Information : DiagnosticSeverity.Error,
+                range: spanToRange(error),
+                message: error.message,
+                code: error.code,
+                source: 'proii-lsp'
+            });
+        });
+        
+        // Flowsheet connectivity checks
+        const symbolTable = documentSymbolTables.get(document.uri);
+        if (symbolTable) {
+            diagnostics.push(...validateSemantics(ast, symbolTable));
+        }
+        
+        // LIBID components against the component library
+        diagnostics.push(...validateComponents(ast));
         
-        // Check for unknown tokens
+        // Stream compositions against the declared components
+        diagnostics.push(...validateCompositions(ast));
+        
+        // Unit operation parameters against the unit schemas
+        diagnostics.push(...validateUnitOperations(ast, text));
+        
+        // Specifications against each unit's degrees of freedom
+        diagnostics.push(...validateSpecifications(ast));
+        
+        // Check for unknown tokens not already reported by the parser
         tokens.forEach(token => {
-            if (token.type === 'UNKNOWN') {
+            if (token.type === 'UNKNOWN' &&
+                !parseErrors.some(e => e.startLine === token.line && e.startColumn === token.column)) {
                 diagnostics.push({
                     severity: DiagnosticSeverity.Warning,
                     range: {
@@ -127,13 +259,8 @@ function validateDocument(document: TextDocument): void {
             }
         });
         
-        // Try parsing
-        const parser = new Parser(tokens);
-        const ast = parser.parse();
-        documentASTs.set(document.uri, ast);
-        
     } catch (error) {
-        // Add parse error diagnostic
+        connection.console.error(`❌ Parse error in ${document.uri}: ${error}`);
         diagnostics.push({
             severity: DiagnosticSeverity.Error,
             range: {
@@ -151,13 +278,11 @@ function validateDocument(document: TextDocument): void {
 // Document events
 documents.onDidOpen((event) => {
     connection.console.log(`📄 Document opened: ${event.document.uri}`);
-    parseDocument(event.document);
     validateDocument(event.document);
 });
 
 documents.onDidChangeContent((change) => {
     connection.console.log(`✏️ Document changed: ${change.document.uri}`);
-    parseDocument(change.document);
     validateDocument(change.document);
 });
 
@@ -165,9 +290,70 @@ documents.onDidClose((event) => {
     connection.console.log(`📪 Document closed: ${event.document.uri}`);
     documentASTs.delete(event.document.uri);
     documentSymbolTables.delete(event.document.uri);
+    semanticTokenBuilders.delete(event.document.uri);
+    workspaceIndex.closeDocument(event.document.uri);
     connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
 });
 
+// Keep the workspace index in sync with files changed outside the editor
+connection.onDidChangeWatchedFiles(async (params) => {
+    let componentsChanged = false;
+    
+    for (const change of params.changes) {
+        if (!change.uri.startsWith('file:')) continue;
+        
+        const filePath = fileURLToPath(change.uri);
+        
+        // Project component files extend the databank for every document
+        if (path.basename(filePath).toLowerCase() === PROJECT_COMPONENT_FILE) {
+            await loadProjectComponentFile(filePath);
+            componentsChanged = true;
+            continue;
+        }
+        
+        if (!isIndexedFile(filePath)) continue;
+        
+        if (change.type === FileChangeType.Deleted) {
+            workspaceIndex.removeDocument(change.uri);
+        } else {
+            workspaceIndex.indexFile(filePath);
+        }
+    }
+    
+    // Component details and checks depend on the databank
+    if (componentsChanged) {
+        documents.all().forEach(document => {
+            validateDocument(document);
+        });
+    }
+});
+
+// Flowsheet diagram for the client webview
+connection.onRequest('proii/flowsheet', (params: { uri: string }): FlowsheetView | null => {
+    const ast = documentASTs.get(params.uri);
+    if (!ast) return null;
+    
+    const graph = new FlowsheetGraph();
+    graph.build(ast);
+    return graph.getView();
+});
+
+// Flowsheet export: arguments are [uri, format]; returns the exported text
+connection.onExecuteCommand((params: ExecuteCommandParams): string | null => {
+    if (params.command !== 'proii.server.exportFlowsheet') return null;
+    
+    const [uri, format] = params.arguments || [];
+    const ast = documentASTs.get(uri);
+    if (!ast || !isExportFormat(format)) {
+        connection.console.error(`❌ Cannot export flowsheet of ${uri} as ${format}`);
+        return null;
+    }
+    
+    const graph = new FlowsheetGraph();
+    graph.build(ast);
+    return exportFlowsheet(graph, format);
+});
+
 // Hover provider
 connection.onHover((params): Hover | null => {
     const document = documents.get(params.textDocument.uri);
@@ -182,18 +368,23 @@ connection.onHover((params): Hover | null => {
     
     // Find what's at the cursor position
     const text = document.getText();
-    const lines = text.split('\n');
+    const lines = splitLines(text);
     const currentLine = lines[params.position.line];
     const char = params.position.character;
     
-    // Get word at position
-    let start = char;
-    let end = char;
-    while (start > 0 && /[A-Za-z0-9_-]/.test(currentLine[start - 1])) start--;
-    while (end < currentLine.length && /[A-Za-z0-9_-]/.test(currentLine[end])) end++;
-    const word = currentLine.substring(start, end);
+    // Numbers with units (TEMP=350) show conversions
+    if (symbolTable) {
+        const quantityHover = createQuantityHover(ast, symbolTable, params.position);
+        if (quantityHover) {
+            connection.console.log(`✅ Found quantity hover at line ${line}`);
+            return quantityHover;
+        }
+    }
     
-    if (!word) return null;
+    // Get word at position
+    const wordAtPosition = getWordAtPosition(currentLine, char);
+    if (!wordAtPosition) return null;
+    const { word, start } = wordAtPosition;
     
     connection.console.log(`🔍 Hover on word: "${word}" at line ${line}`);
     
@@ -236,10 +427,23 @@ connection.onHover((params): Hover | null => {
     // If we found documentation, return formatted hover
     if (keywordDoc) {
         connection.console.log(`✅ Found keyword hover for: ${keyword}`);
+        
+        // Units of TEMP, PRES, RATE, ... from the qualifier or DIMENSION
+        let units: string | undefined;
+        if (symbolTable) {
+            const qualifier = currentLine.substring(start).match(/^[\w-]+\s*\(([^)]*)\)/);
+            const system = symbolTable.getUnitSystem();
+            const resolved = getParameterUnit(system, keyword, qualifier ? qualifier[1].replace(/\s/g, '') : undefined);
+            if (resolved) {
+                const fromSystem = resolved.unit.name === getSystemUnit(system, resolved.kind).name;
+                units = fromSystem ? `${resolved.unit.label} (${system.base})` : resolved.unit.label;
+            }
+        }
+        
         return {
             contents: {
                 kind: 'markdown',
-                value: formatHoverDoc(keywordDoc)
+                value: formatHoverDoc(keywordDoc, units)
             }
         };
     }
@@ -254,6 +458,105 @@ connection.onHover((params): Hover | null => {
     };
 });
 
+// Quick fixes for diagnostics
+connection.onCodeAction((params) => {
+    const document = documents.get(params.textDocument.uri);
+    const ast = documentASTs.get(params.textDocument.uri);
+    if (!document || !ast) return [];
+    
+    const text = document.getText();
+    const tree = buildSyntaxTree(text, ast, new Lexer(text).tokenize());
+    return provideCompositionActions(tree, params.textDocument.uri, params.context.diagnostics);
+});
+
+// Definition provider
+connection.onDefinition((params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return null;
+    
+    const symbolTable = documentSymbolTables.get(params.textDocument.uri);
+    if (!symbolTable) return null;
+    
+    const lines = splitLines(document.getText());
+    const currentLine = lines[params.position.line] || '';
+    
+    return provideDefinition(symbolTable, params.textDocument.uri, currentLine, params.position);
+});
+
+// References provider
+connection.onReferences((params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
+    
+    const symbolTable = documentSymbolTables.get(params.textDocument.uri);
+    if (!symbolTable) return [];
+    
+    const lines = splitLines(document.getText());
+    const currentLine = lines[params.position.line] || '';
+    
+    return provideReferences(
+        symbolTable,
+        params.textDocument.uri,
+        currentLine,
+        params.position,
+        params.context.includeDeclaration
+    );
+});
+
+// Rename provider
+connection.onPrepareRename((params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return null;
+    
+    const symbolTable = documentSymbolTables.get(params.textDocument.uri);
+    if (!symbolTable) return null;
+    
+    const lines = splitLines(document.getText());
+    const currentLine = lines[params.position.line] || '';
+    
+    return prepareRename(symbolTable, currentLine, params.position);
+});
+
+connection.onRenameRequest((params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return null;
+    
+    const symbolTable = documentSymbolTables.get(params.textDocument.uri);
+    if (!symbolTable) return null;
+    
+    const lines = splitLines(document.getText());
+    const currentLine = lines[params.position.line] || '';
+    
+    return provideRename(symbolTable, params.textDocument.uri, currentLine, params.position, params.newName);
+});
+
+// Document symbol provider (outline, breadcrumbs)
+connection.onDocumentSymbol((params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
+    
+    const ast = documentASTs.get(params.textDocument.uri);
+    if (!ast) return [];
+    
+    return provideDocumentSymbols(ast, splitLines(document.getText()));
+});
+
+// Folding ranges (sections, unit blocks, comment banners)
+connection.onFoldingRanges((params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
+    
+    const ast = documentASTs.get(params.textDocument.uri);
+    if (!ast) return [];
+    
+    return provideFoldingRanges(ast, splitLines(document.getText()));
+});
+
+// Workspace symbol provider
+connection.onWorkspaceSymbol((params) => {
+    return workspaceIndex.search(params.query);
+});
+
 // Completion provider
 connection.onCompletion((params) => {
     const document = documents.get(params.textDocument.uri);
@@ -261,28 +564,61 @@ connection.onCompletion((params) => {
     
     connection.console.log(`💡 Completion requested at ${params.position.line}:${params.position.character}`);
     
-    const text = document.getText();
-    const lines = text.split('\n');
-    const currentLine = lines[params.position.line] || '';
+    const ast = documentASTs.get(params.textDocument.uri);
+    if (!ast) return [];
+    
+    const symbolTable = documentSymbolTables.get(params.textDocument.uri);
+    const items = provideCompletions(ast, document.getText(), params.position, symbolTable);
+    connection.console.log(`💡 Returning ${items.length} completion items`);
+    return items;
+});
+
+// Signature help
+connection.onSignatureHelp((params) => {
+    const document = documents.get(params.textDocument.uri);
+    const ast = documentASTs.get(params.textDocument.uri);
+    if (!document || !ast) return null;
+    
+    return provideSignatureHelp(ast, document.getText(), params.position);
+});
+
+// Semantic tokens
+connection.languages.semanticTokens.on((params) => {
+    const document = documents.get(params.textDocument.uri);
+    const symbolTable = documentSymbolTables.get(params.textDocument.uri);
+    if (!document || !symbolTable) return { data: [] };
     
-    // Get context-aware completions first
-    const contextItems = getContextAwareCompletions(currentLine, params.position.character);
-    if (contextItems.length > 0) {
-        connection.console.log(`💡 Returning ${contextItems.length} context-aware items`);
-        return contextItems;
+    const builder = new SemanticTokensBuilder();
+    semanticTokenBuilders.set(params.textDocument.uri, builder);
+    return provideSemanticTokens(document.getText(), symbolTable, builder);
+});
+
+connection.languages.semanticTokens.onDelta((params) => {
+    const document = documents.get(params.textDocument.uri);
+    const symbolTable = documentSymbolTables.get(params.textDocument.uri);
+    if (!document || !symbolTable) return { data: [] };
+    
+    let builder = semanticTokenBuilders.get(params.textDocument.uri);
+    if (!builder) {
+        builder = new SemanticTokensBuilder();
+        semanticTokenBuilders.set(params.textDocument.uri, builder);
     }
+    return provideSemanticTokensDelta(document.getText(), symbolTable, builder, params.previousResultId);
+});
+
+// Formatting
+connection.onDocumentFormatting((params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
     
-    // Otherwise return all available completions
-    const allItems = [
-        ...getSectionCompletions(),
-        ...getUnitOperationSnippets(),
-        ...getKeywordCompletions(),
-        ...getParameterCompletions(),
-        ...getThermodynamicMethodCompletions()
-    ];
-    
-    connection.console.log(`💡 Returning ${allItems.length} completion items`);
-    return allItems;
+    return provideFormatting(document.getText(), params.options);
+});
+
+connection.onDocumentRangeFormatting((params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
+    
+    return provideRangeFormatting(document.getText(), params.range, params.options);
 });
 
 // Completion resolve (provide additional details)
@@ -291,17 +627,6 @@ connection.onCompletionResolve((item) => {
     return item;
 });
 
-// Stub handlers to prevent "Unhandled method" errors
-connection.onCodeAction(() => {
-    // Return empty array instead of throwing error
-    return [];
-});
-
-connection.onDocumentSymbol(() => {
-    // Return empty array instead of throwing error
-    return [];
-});
-
 // Make the document manager listen on the connection
 documents.listen(connection);
 
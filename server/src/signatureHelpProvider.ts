@@ -0,0 +1,168 @@
+/**
+ * Signature Help Provider for PRO/II Language Server
+ * Shows the argument structure of unit operation headers and statements
+ * such as PROP DATA=, COMP DATA=, METHOD SYSTEM= and SPEC from the syntax
+ * strings in KEYWORD_DOCS, highlighting the argument being typed
+ */
+
+import { ParameterInformation, Position, SignatureHelp, SignatureInformation } from 'vscode-languageserver/node';
+import { ProgramNode } from './ast';
+import { getCompletionContext } from './completionContext';
+import { getKeywordDoc, KeywordDoc } from './keywordDocs';
+import { isInComment, splitLines } from './documentUtils';
+
+/**
+ * Statements with signature help besides the unit operations
+ */
+const SIGNATURE_STATEMENTS = new Set(['PROP', 'COMP', 'METHOD', 'SPEC', 'VARY', 'LIBID']);
+
+/**
+ * Parameters that stand for another one in the syntax strings:
+ * PROP DATA=FEED1 names the stream like PROP DATA, STREAM=FEED1
+ */
+const PARAMETER_ALIASES: { [name: string]: string } = {
+    'DATA': 'STREAM'
+};
+
+/**
+ * An argument of a syntax string
+ */
+interface SyntaxArgument {
+    name: string; // Parameter name (TEMP for TEMP=value), or the argument itself
+    hasValue: boolean; // NAME=value rather than a bare word
+    start: number; // Offsets in the signature label
+    end: number;
+}
+
+/**
+ * Signature help for the statement at a position
+ */
+export function provideSignatureHelp(ast: ProgramNode, text: string, position: Position): SignatureHelp | null {
+    const lineText = splitLines(text)[position.line] ?? '';
+    if (isInComment(lineText, position.character)) return null;
+
+    const context = getCompletionContext(ast, text, position);
+    if (!context.keyword) return null;
+
+    const doc = getKeywordDoc(context.keyword);
+    if (!doc?.syntax || (doc.category !== 'unit-operation' && !SIGNATURE_STATEMENTS.has(doc.keyword))) {
+        return null;
+    }
+
+    const label = getSignatureLabel(doc);
+    const args = parseSyntaxArguments(label);
+    const typed = splitArguments(context.statementText.replace(/^\s*[A-Za-z][\w-]*\s*/, ''));
+
+    const signature: SignatureInformation = {
+        label,
+        documentation: doc.description,
+        parameters: args.map(arg => {
+            const param: ParameterInformation = { label: [arg.start, arg.end] };
+            const paramDoc = getKeywordDoc(arg.name);
+            if (paramDoc && paramDoc.keyword !== doc.keyword) param.documentation = paramDoc.description;
+            return param;
+        })
+    };
+
+    return {
+        signatures: [signature],
+        activeSignature: 0,
+        activeParameter: args.length > 0 ? getActiveArgument(args, typed) : undefined
+    };
+}
+
+/**
+ * Signature label from a syntax string. The lines of a unit operation's
+ * syntax are joined; a statement's alternatives ("... or COMP=component")
+ * are dropped.
+ */
+function getSignatureLabel(doc: KeywordDoc): string {
+    const lines = doc.syntax!.split('\n').map(line => line.trim()).filter(Boolean);
+    return lines.length > 1 ? lines.join(', ') : lines[0].split(' or ')[0];
+}
+
+/**
+ * Arguments of a signature label: the text after the keyword, split at
+ * commas and slashes
+ */
+function parseSyntaxArguments(label: string): SyntaxArgument[] {
+    const args: SyntaxArgument[] = [];
+    const pattern = /[^,/\s][^,/]*/g;
+    const keywordEnd = /^\s*\S+\s*/.exec(label)![0].length;
+
+    for (const match of label.substring(keywordEnd).matchAll(pattern)) {
+        const argText = match[0].trimEnd();
+        const start = keywordEnd + match.index!;
+        args.push({ name: getArgumentName(argText), hasValue: argText.includes('='), start, end: start + argText.length });
+    }
+
+    return args;
+}
+
+/**
+ * Index of the argument being typed. An argument that names a parameter
+ * (TEMP=...) selects that parameter; other arguments follow the one before.
+ */
+function getActiveArgument(args: SyntaxArgument[], typed: string[]): number {
+    let active = -1;
+
+    for (const argText of typed) {
+        if (!argText.includes('=')) {
+            active++;
+            continue;
+        }
+
+        const name = getArgumentName(argText);
+        const named = findParameter(args, name) ?? findParameter(args, PARAMETER_ALIASES[name]);
+        active = named ?? active + 1;
+    }
+
+    return Math.min(Math.max(active, 0), args.length - 1);
+}
+
+/**
+ * Index of the NAME=value argument with a name
+ */
+function findParameter(args: SyntaxArgument[], name: string | undefined): number | undefined {
+    const index = args.findIndex(arg => arg.hasValue && arg.name === name);
+    return index === -1 ? undefined : index;
+}
+
+/**
+ * Split typed statement text at the commas and slashes that separate
+ * arguments, skipping those in parentheses (RATE(WT,KG/HR)) and quotes.
+ * The last entry is the argument being typed.
+ */
+function splitArguments(text: string): string[] {
+    const args: string[] = [];
+    let current = '';
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (const char of text) {
+        if (quote) {
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth = Math.max(0, depth - 1);
+        } else if ((char === ',' || char === '/') && depth === 0) {
+            args.push(current);
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+
+    args.push(current);
+    return args.map(arg => arg.trim());
+}
+
+/**
+ * Parameter name of an argument: the word before = or (, in upper case
+ */
+function getArgumentName(argText: string): string {
+    return argText.trim().split(/[=(\s]/)[0].toUpperCase();
+}
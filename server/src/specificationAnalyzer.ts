@@ -0,0 +1,114 @@
+/**
+ * Specification Analyzer for PRO/II Language Server
+ * Counts the specifications given to each unit operation against its
+ * degrees of freedom and reports under- and over-specified units
+ */
+
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { ProgramNode, UnitOperationNode, ParameterNode } from './ast';
+import { createDiagnostic, spanToRange } from './documentUtils';
+import { getKeywordDoc } from './keywordDocs';
+import { getUnitSchema, SpecificationRule } from './unitSchema';
+import { getUnitOperations, getKeywordRange, describeUnit, formatNames } from './unitValidator';
+
+/**
+ * Diagnostic codes reported by the specification analyzer
+ */
+export const SpecificationCodes = {
+    UNDER_SPECIFIED: 'under-specified',
+    OVER_SPECIFIED: 'over-specified'
+} as const;
+
+/**
+ * Specifications given to a unit, compared with its degrees of freedom
+ */
+export interface SpecificationAnalysis {
+    unit: UnitOperationNode;
+    rule: SpecificationRule;
+    given: ParameterNode[]; // First occurrence of each specification, in document order
+    status: 'ok' | 'under' | 'over';
+}
+
+/**
+ * Count the specifications of a unit. Returns null for unit types without
+ * a specification rule.
+ */
+export function analyzeSpecifications(unit: UnitOperationNode): SpecificationAnalysis | null {
+    const rule = getUnitSchema(unit.statementType)?.specifications;
+    if (!rule) return null;
+
+    const given: ParameterNode[] = [];
+    for (const param of unit.parameters) {
+        const name = param.name.name.toUpperCase();
+        if (rule.parameters.includes(name) && !given.some(p => p.name.name.toUpperCase() === name)) {
+            given.push(param);
+        }
+    }
+
+    const status = given.length < rule.min ? 'under' : given.length > rule.max ? 'over' : 'ok';
+    return { unit, rule, given, status };
+}
+
+/**
+ * Report units with too few or too many specifications. Units short of
+ * specifications are always reported, with the count and what is missing;
+ * conflicts the unit schema already reports (PRES with DELTA-P) are left
+ * to the unit validator.
+ */
+export function validateSpecifications(ast: ProgramNode): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    for (const unit of getUnitOperations(ast)) {
+        const analysis = analyzeSpecifications(unit);
+        if (!analysis || analysis.status === 'ok' || isReportedBySchema(analysis)) continue;
+
+        const { rule, given } = analysis;
+        const names = given.map(param => param.name.name.toUpperCase());
+
+        if (analysis.status === 'under') {
+            const missing = rule.parameters.filter(name => !names.includes(name));
+            const list = names.length > 0 ? ` (${names.join(', ')})` : '';
+            diagnostics.push(createDiagnostic(
+                getKeywordRange(unit),
+                DiagnosticSeverity.Error,
+                SpecificationCodes.UNDER_SPECIFIED,
+                `${describeUnit(unit)} is under-specified: ${given.length} of ${rule.min} specifications given${list}; ` +
+                `add ${rule.min - given.length === 1 ? 'one' : rule.min - given.length} of ${formatNames(missing)}. ` +
+                explain(unit, rule)
+            ));
+        } else {
+            diagnostics.push(createDiagnostic(
+                spanToRange(given[rule.max].name),
+                DiagnosticSeverity.Error,
+                SpecificationCodes.OVER_SPECIFIED,
+                `${describeUnit(unit)} is over-specified: ${given.length} specifications given (${names.join(', ')}) ` +
+                `but only ${rule.max} can be set. ` +
+                explain(unit, rule)
+            ));
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Check if the unit validator already reports the problem: an exclusive
+ * group with more than one parameter given
+ */
+function isReportedBySchema(analysis: SpecificationAnalysis): boolean {
+    if (analysis.status !== 'over') return false;
+
+    const schema = getUnitSchema(analysis.unit.statementType);
+    const given = new Set(analysis.unit.parameters.map(param => param.name.name.toUpperCase()));
+    return (schema?.exclusive ?? []).some(group => group.filter(name => given.has(name)).length > 1);
+}
+
+/**
+ * Why the rule holds, with the unit's syntax from the keyword documentation
+ */
+function explain(unit: UnitOperationNode, rule: SpecificationRule): string {
+    const doc = getKeywordDoc(unit.statementType);
+    if (!doc?.syntax) return rule.reason;
+
+    return `${rule.reason}\n\n${doc.keyword} syntax:\n${doc.syntax}`;
+}
@@ -5,6 +5,7 @@
 
 import { Hover, MarkupContent, MarkupKind } from 'vscode-languageserver/node';
 import { SymbolTable, SymbolKind } from './symbolTable';
+import { getSystemUnit, findUnit, convert, formatQuantity } from './units';
 
 /**
  * Create hover content for stream symbols
@@ -29,19 +30,24 @@ export function createStreamHover(symbolTable: SymbolTable, streamName: string):
     // Properties table
     const hasProps = symbol.metadata?.temp || symbol.metadata?.pres || symbol.metadata?.rate;
     if (hasProps && symbol.metadata) {
+        // Units from the value's qualifier, else the document's DIMENSION
+        const system = symbolTable.getUnitSystem();
+        
         markdown.push(`| Property | Value |`);
         markdown.push(`|----------|-------|`);
         
         if (symbol.metadata.temp !== undefined) {
-            markdown.push(`| **Temperature** | ${symbol.metadata.temp} °C |`);
+            const unit = symbol.metadata.tempUnit || getSystemUnit(system, 'temperature').label;
+            markdown.push(`| **Temperature** | ${symbol.metadata.temp} ${unit} |`);
         }
         
         if (symbol.metadata.pres !== undefined) {
-            markdown.push(`| **Pressure** | ${symbol.metadata.pres} bar |`);
+            const unit = symbol.metadata.presUnit || getSystemUnit(system, 'pressure').label;
+            markdown.push(`| **Pressure** | ${symbol.metadata.pres} ${unit} |`);
         }
         
         if (symbol.metadata.rate !== undefined) {
-            const unit = symbol.metadata.rateUnit || 'kg/hr';
+            const unit = symbol.metadata.rateUnit || getSystemUnit(system, 'moleRate').label;
             markdown.push(`| **Rate** | ${symbol.metadata.rate} ${unit} |`);
         }
         
@@ -112,6 +118,30 @@ export function createComponentHover(symbolTable: SymbolTable, componentName: st
         markdown.push(`| **Molecular Weight** | ${symbol.metadata.molecularWeight} g/mol |`);
     }
     
+    // Critical properties, in the document's units
+    if (symbol.metadata) {
+        const system = symbolTable.getUnitSystem();
+        const kelvin = findUnit('K', 'temperature')!;
+        const kpa = findUnit('KPA', 'pressure')!;
+        const { tc, pc, omega, nbp } = symbol.metadata;
+        
+        if (tc !== undefined) {
+            markdown.push(`| **Critical Temperature** | ${formatQuantity(convert({ value: tc, unit: kelvin }, system.units.temperature), 5)} |`);
+        }
+        if (pc !== undefined) {
+            markdown.push(`| **Critical Pressure** | ${formatQuantity(convert({ value: pc, unit: kpa }, system.units.pressure), 5)} |`);
+        }
+        if (omega !== undefined) {
+            markdown.push(`| **Acentric Factor** | ${omega} |`);
+        }
+        if (nbp !== undefined) {
+            markdown.push(`| **Normal Boiling Point** | ${formatQuantity(convert({ value: nbp, unit: kelvin }, system.units.temperature), 5)} |`);
+        }
+        if (symbol.metadata.libraryId && symbol.metadata.libraryId !== symbol.name) {
+            markdown.push(`| **Library ID** | ${symbol.metadata.libraryId} |`);
+        }
+    }
+    
     markdown.push('');
     markdown.push(`💡 *Hover over any component name to see its properties*`);
 
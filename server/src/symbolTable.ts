@@ -3,11 +3,15 @@
  * Tracks all symbols (streams, units, components) in the document
  */
 
+import { Lexer } from './lexer';
+import { Token, TokenType } from './types';
 import {
     ProgramNode, SectionNode, StatementNode, UnitOperationNode,
     ComponentDataNode, StreamDataNode, StreamReferenceNode,
-    IdentifierNode, ComponentNode
+    IdentifierNode, ComponentNode, ParameterNode
 } from './ast';
+import { UnitSystem, getDimensionSet, getParameterUnit, readDimensions } from './units';
+import { ComponentDatabank, getDefaultDatabank, formatFormula } from './componentDatabank';
 
 /**
  * Symbol types in PRO/II
@@ -32,32 +36,54 @@ export interface Symbol {
     references: Array<{
         line: number;
         column?: number;
-        context: string; // 'definition', 'feed', 'product', 'parameter'
+        context: string; // 'definition', 'feed', 'product', 'spec', 'vary', 'define', 'composition', 'print', 'parameter'
     }>;
     metadata?: {
         unitType?: string; // For units: FLASH, COLUMN, etc.
         libid?: number; // For components: library ID
         componentName?: string; // For components: full name
         value?: string; // For parameters
-        // Stream properties
+        // Stream properties, with the labels of their units
         temp?: number;
+        tempUnit?: string;
         pres?: number;
+        presUnit?: string;
         rate?: number;
         rateUnit?: string;
         phase?: string; // 'vapor', 'liquid', 'mixed'
         description?: string; // From NAME statements
+        producedBy?: string; // UID (or type) of the first unit producing the stream
         // Component properties
+        libraryId?: string; // Databank ID the name resolved to
         formula?: string;
-        type?: string; // 'Hydrocarbon', 'Inorganic Gas', etc.
+        type?: string; // 'Paraffin', 'Inorganic', etc.
         molecularWeight?: string;
+        tc?: number; // Critical temperature (K)
+        pc?: number; // Critical pressure (kPa)
+        omega?: number; // Acentric factor
+        nbp?: number; // Normal boiling point (K)
     };
 }
 
+/**
+ * Reference context by the keyword that starts the statement
+ */
+const STATEMENT_CONTEXTS: { [keyword: string]: string } = {
+    'SPEC': 'spec',
+    'VARY': 'vary',
+    'DEFINE': 'define',
+    'COMP': 'composition',
+    'PRINT': 'print'
+};
+
 /**
  * Symbol Table Manager
  */
 export class SymbolTable {
     private symbols: Map<string, Symbol> = new Map();
+    private unitSystem: UnitSystem = getDimensionSet('ENGLISH');
+
+    constructor(private databank: ComponentDatabank = getDefaultDatabank()) {}
 
     /**
      * Build symbol table from AST
@@ -66,9 +92,16 @@ export class SymbolTable {
         this.symbols.clear();
         this.documentText = documentText || '';
 
+        const tokens = this.documentText ? new Lexer(this.documentText).tokenize() : [];
+        this.unitSystem = readDimensions(tokens);
+
         for (const section of ast.sections) {
             this.processSection(section);
         }
+
+        if (this.documentText) {
+            this.processTextReferences(tokens);
+        }
     }
 
     private documentText: string = '';
@@ -115,30 +148,19 @@ export class SymbolTable {
                 const streamStmt = stmt as StreamDataNode;
                 
                 // Extract stream name from PROP DATA or COMP DATA
-                if (streamStmt.streamName) {
-                    // Get the line text if available
-                    const lineText = this.getLineText(streamStmt.startLine);
-                    
+                if (streamStmt.streamName.name) {
                     this.addStream(
                         streamStmt.streamName.name,
-                        streamStmt.startLine,
+                        streamStmt.streamName.startLine,
                         'definition',
-                        lineText
+                        streamStmt.statementType === 'PROP' ? streamStmt.parameters : [],
+                        streamStmt.streamName.startColumn
                     );
                 }
             }
         }
     }
 
-    /**
-     * Get line text by line number (1-based)
-     */
-    private getLineText(lineNumber: number): string {
-        if (!this.documentText) return '';
-        const lines = this.documentText.split(/\r?\n/);
-        return lines[lineNumber - 1] || '';
-    }
-
     /**
      * Process UNIT OPERATIONS section
      */
@@ -148,11 +170,12 @@ export class SymbolTable {
                 const unitStmt = stmt as UnitOperationNode;
                 
                 // Add unit definition
-                if (unitStmt.uid) {
+                if (unitStmt.uid && unitStmt.uid.name) {
                     this.addUnit(
                         unitStmt.uid.name,
-                        unitStmt.startLine,
-                        unitStmt.statementType
+                        unitStmt.uid.startLine,
+                        unitStmt.statementType,
+                        unitStmt.uid.startColumn
                     );
                 }
                 
@@ -160,8 +183,9 @@ export class SymbolTable {
                 for (const feed of unitStmt.feedStreams) {
                     this.addStreamReference(
                         feed.streamName.name,
-                        feed.startLine,
-                        'feed'
+                        feed.streamName.startLine,
+                        'feed',
+                        feed.streamName.startColumn
                     );
                 }
                 
@@ -169,14 +193,62 @@ export class SymbolTable {
                 for (const prod of unitStmt.productStreams) {
                     this.addStreamReference(
                         prod.streamName.name,
-                        prod.startLine,
-                        'product'
+                        prod.streamName.startLine,
+                        'product',
+                        prod.streamName.startColumn
                     );
+                    this.setProducer(prod.streamName.name, unitStmt.uid?.name || unitStmt.statementType);
                 }
             }
         }
     }
 
+    /**
+     * Record references to known symbols outside of FEED/PROD lists, such as
+     * SPEC, VARY and DEFINE expressions, COMP DATA lines and PRINT options
+     */
+    private processTextReferences(tokens: Token[]): void {
+        let statementKeyword = '';
+        let atStatementStart = true;
+        let continued = false;
+
+        for (const token of tokens) {
+            if (token.type === TokenType.NEWLINE) {
+                if (!continued) atStatementStart = true;
+                continued = false;
+                continue;
+            }
+            if (token.type === TokenType.CONTINUATION) {
+                continued = true;
+                continue;
+            }
+            if (token.type === TokenType.COMMENT) {
+                continue;
+            }
+
+            if (atStatementStart) {
+                statementKeyword = token.value.toUpperCase();
+                atStatementStart = false;
+            }
+
+            // Keyword tokens are only names where the AST says so
+            if (token.type !== TokenType.IDENTIFIER) continue;
+
+            const symbol = this.symbols.get(token.value.toUpperCase());
+            if (!symbol) continue;
+
+            const isKnown = (symbol.definedAt.line === token.line && symbol.definedAt.column === token.column) ||
+                symbol.references.some(ref => ref.line === token.line && ref.column === token.column);
+            if (isKnown) continue;
+
+            symbol.references.push({
+                line: token.line,
+                column: token.column,
+                context: STATEMENT_CONTEXTS[statementKeyword] || 'parameter'
+            });
+        }
+    }
+
     /**
      * Add a component to the symbol table
      */
@@ -188,7 +260,7 @@ export class SymbolTable {
             this.symbols.set(name, {
                 name,
                 kind: SymbolKind.COMPONENT,
-                definedAt: { line: comp.startLine },
+                definedAt: { line: comp.endLine, column: comp.column },
                 references: [],
                 metadata: {
                     libid: comp.libid?.value,
@@ -200,72 +272,50 @@ export class SymbolTable {
     }
 
     /**
-     * Get detailed information about common components
+     * Library properties of a component from the databank
      */
-    private getComponentDetails(name: string): Record<string, any> {
-        const components: { [key: string]: { type: string; formula: string; molecularWeight?: string } } = {
-            'H2O': { type: 'Inorganic', formula: 'H₂O', molecularWeight: '18.02' },
-            'H2': { type: 'Inorganic Gas', formula: 'H₂', molecularWeight: '2.02' },
-            'N2': { type: 'Inorganic Gas', formula: 'N₂', molecularWeight: '28.01' },
-            'O2': { type: 'Inorganic Gas', formula: 'O₂', molecularWeight: '32.00' },
-            'CO2': { type: 'Inorganic Gas', formula: 'CO₂', molecularWeight: '44.01' },
-            'CO': { type: 'Inorganic Gas', formula: 'CO', molecularWeight: '28.01' },
-            'H2S': { type: 'Inorganic Gas', formula: 'H₂S', molecularWeight: '34.08' },
-            'NH3': { type: 'Inorganic Gas', formula: 'NH₃', molecularWeight: '17.03' },
-            'C1': { type: 'Hydrocarbon', formula: 'CH₄ (Methane)', molecularWeight: '16.04' },
-            'CH4': { type: 'Hydrocarbon', formula: 'CH₄ (Methane)', molecularWeight: '16.04' },
-            'C2': { type: 'Hydrocarbon', formula: 'C₂H₆ (Ethane)', molecularWeight: '30.07' },
-            'C2H6': { type: 'Hydrocarbon', formula: 'C₂H₆ (Ethane)', molecularWeight: '30.07' },
-            'ETHANE': { type: 'Hydrocarbon', formula: 'C₂H₆ (Ethane)', molecularWeight: '30.07' },
-            'C3': { type: 'Hydrocarbon', formula: 'C₃H₈ (Propane)', molecularWeight: '44.10' },
-            'C3H8': { type: 'Hydrocarbon', formula: 'C₃H₈ (Propane)', molecularWeight: '44.10' },
-            'PROPANE': { type: 'Hydrocarbon', formula: 'C₃H₈ (Propane)', molecularWeight: '44.10' },
-            'IC4': { type: 'Hydrocarbon', formula: 'C₄H₁₀ (i-Butane)', molecularWeight: '58.12' },
-            'ISOBUTANE': { type: 'Hydrocarbon', formula: 'C₄H₁₀ (i-Butane)', molecularWeight: '58.12' },
-            'NC4': { type: 'Hydrocarbon', formula: 'C₄H₁₀ (n-Butane)', molecularWeight: '58.12' },
-            'N-BUTANE': { type: 'Hydrocarbon', formula: 'C₄H₁₀ (n-Butane)', molecularWeight: '58.12' },
-            'IC5': { type: 'Hydrocarbon', formula: 'C₅H₁₂ (i-Pentane)', molecularWeight: '72.15' },
-            'NC5': { type: 'Hydrocarbon', formula: 'C₅H₁₂ (n-Pentane)', molecularWeight: '72.15' },
-            'NC6': { type: 'Hydrocarbon', formula: 'C₆H₁₄ (n-Hexane)', molecularWeight: '86.18' },
-            'NC7': { type: 'Hydrocarbon', formula: 'C₇H₁₆ (n-Heptane)', molecularWeight: '100.20' },
-            'NC8': { type: 'Hydrocarbon', formula: 'C₈H₁₈ (n-Octane)', molecularWeight: '114.23' },
-            'NC9': { type: 'Hydrocarbon', formula: 'C₉H₂₀ (n-Nonane)', molecularWeight: '128.26' },
-            'NC10': { type: 'Hydrocarbon', formula: 'C₁₀H₂₂ (n-Decane)', molecularWeight: '142.28' },
-            'NC12': { type: 'Hydrocarbon', formula: 'C₁₂H₂₆ (n-Dodecane)', molecularWeight: '170.34' },
-            'NC13': { type: 'Hydrocarbon', formula: 'C₁₃H₂₈ (n-Tridecane)', molecularWeight: '184.36' },
-            'NC14': { type: 'Hydrocarbon', formula: 'C₁₄H₃₀ (n-Tetradecane)', molecularWeight: '198.39' },
-            'NC15': { type: 'Hydrocarbon', formula: 'C₁₅H₃₂ (n-Pentadecane)', molecularWeight: '212.41' },
-            'NC16': { type: 'Hydrocarbon', formula: 'C₁₆H₃₄ (n-Hexadecane)', molecularWeight: '226.44' },
-            'BENZENE': { type: 'Aromatic', formula: 'C₆H₆', molecularWeight: '78.11' },
-            'TOLUENE': { type: 'Aromatic', formula: 'C₇H₈', molecularWeight: '92.14' },
-            'ETHYLBENZENE': { type: 'Aromatic', formula: 'C₈H₁₀', molecularWeight: '106.17' },
-            'XYLENE': { type: 'Aromatic', formula: 'C₈H₁₀', molecularWeight: '106.17' },
-        };
+    private getComponentDetails(name: string): NonNullable<Symbol['metadata']> {
+        const component = this.databank.lookup(name);
+        if (!component) return {};
 
-        return components[name] || {};
+        return {
+            libraryId: component.id,
+            componentName: component.name,
+            type: component.family,
+            formula: component.formula ? formatFormula(component.formula) : undefined,
+            molecularWeight: component.mw?.toFixed(2),
+            tc: component.tc,
+            pc: component.pc,
+            omega: component.omega,
+            nbp: component.nbp
+        };
     }
 
     /**
      * Add a stream to the symbol table
      */
-    private addStream(name: string, line: number, context: string, lineText?: string): void {
+    private addStream(name: string, line: number, context: string, parameters: ParameterNode[], column?: number): void {
         const upperName = name.toUpperCase();
         
         if (!this.symbols.has(upperName)) {
             this.symbols.set(upperName, {
                 name: upperName,
                 kind: SymbolKind.STREAM,
-                definedAt: { line },
-                references: [{ line, context }],
-                metadata: this.extractStreamProperties(lineText || '')
+                definedAt: { line, column },
+                references: [{ line, column, context }],
+                metadata: this.extractStreamProperties(parameters)
             });
         } else {
             const symbol = this.symbols.get(upperName)!;
             if (symbol.kind === SymbolKind.STREAM) {
-                symbol.references.push({ line, context });
+                // The first STREAM DATA entry is the definition
+                if (context === 'definition' && !symbol.references.some(ref => ref.context === 'definition')) {
+                    symbol.definedAt = { line, column };
+                }
+                symbol.references.push({ line, column, context });
                 // Merge properties if this is a definition
-                if (context === 'definition' && lineText) {
-                    const props = this.extractStreamProperties(lineText);
+                if (context === 'definition') {
+                    const props = this.extractStreamProperties(parameters);
                     symbol.metadata = { ...symbol.metadata, ...props };
                 }
             }
@@ -273,30 +323,29 @@ export class SymbolTable {
     }
 
     /**
-     * Extract stream properties from PROP statement
+     * Extract stream properties from a PROP statement, in the units given by
+     * the qualifier or the DIMENSION statement
      */
-    private extractStreamProperties(lineText: string): Record<string, any> {
+    private extractStreamProperties(parameters: ParameterNode[]): Record<string, any> {
         const props: Record<string, any> = {};
+        const keys: { [quantity: string]: [string, string] } = {
+            temperature: ['temp', 'tempUnit'],
+            pressure: ['pres', 'presUnit'],
+            moleRate: ['rate', 'rateUnit'],
+            massRate: ['rate', 'rateUnit'],
+            liquidVolumeRate: ['rate', 'rateUnit'],
+            vaporVolumeRate: ['rate', 'rateUnit']
+        };
 
-        // Extract TEMP=
-        const tempMatch = lineText.match(/TEMP\s*=\s*([\d.]+)/i);
-        if (tempMatch) {
-            props.temp = parseFloat(tempMatch[1]);
-        }
+        for (const param of parameters) {
+            if (param.value.type !== 'Number') continue;
 
-        // Extract PRES=
-        const presMatch = lineText.match(/PRES(?:SURE)?\s*(?:\([^)]+\))?\s*=\s*([\d.]+)/i);
-        if (presMatch) {
-            props.pres = parseFloat(presMatch[1]);
-        }
+            const resolved = getParameterUnit(this.unitSystem, param.name.name, param.qualifier);
+            const key = resolved && keys[resolved.kind];
+            if (!key) continue;
 
-        // Extract RATE=
-        const rateMatch = lineText.match(/RATE\s*(?:\(([^)]+)\))?\s*=\s*([\d.]+)/i);
-        if (rateMatch) {
-            props.rate = parseFloat(rateMatch[2]);
-            if (rateMatch[1]) {
-                props.rateUnit = rateMatch[1];
-            }
+            props[key[0]] = param.value.value;
+            props[key[1]] = resolved.unit.label;
         }
 
         return props;
@@ -305,7 +354,7 @@ export class SymbolTable {
     /**
      * Add a stream reference
      */
-    private addStreamReference(name: string, line: number, context: string): void {
+    private addStreamReference(name: string, line: number, context: string, column?: number): void {
         const upperName = name.toUpperCase();
         
         if (!this.symbols.has(upperName)) {
@@ -313,32 +362,54 @@ export class SymbolTable {
             this.symbols.set(upperName, {
                 name: upperName,
                 kind: SymbolKind.STREAM,
-                definedAt: { line }, // First reference location
-                references: [{ line, context }]
+                definedAt: { line, column }, // First reference location
+                references: [{ line, column, context }]
             });
         } else {
             const symbol = this.symbols.get(upperName)!;
-            symbol.references.push({ line, context });
+            // Without STREAM DATA, the unit producing the stream defines it
+            if (context === 'product' &&
+                !symbol.references.some(ref => ref.context === 'definition' || ref.context === 'product')) {
+                symbol.definedAt = { line, column };
+            }
+            symbol.references.push({ line, column, context });
+        }
+    }
+
+    /**
+     * Record the first unit producing a stream
+     */
+    private setProducer(name: string, unit: string): void {
+        const symbol = this.symbols.get(name.toUpperCase());
+        if (symbol && !symbol.metadata?.producedBy) {
+            symbol.metadata = { ...symbol.metadata, producedBy: unit.toUpperCase() };
         }
     }
 
     /**
      * Add a unit to the symbol table
      */
-    private addUnit(name: string, line: number, unitType: string): void {
+    private addUnit(name: string, line: number, unitType: string, column?: number): void {
         const upperName = name.toUpperCase();
         
         if (!this.symbols.has(upperName)) {
             this.symbols.set(upperName, {
                 name: upperName,
                 kind: SymbolKind.UNIT,
-                definedAt: { line },
-                references: [{ line, context: 'definition' }],
+                definedAt: { line, column },
+                references: [{ line, column, context: 'definition' }],
                 metadata: { unitType }
             });
         }
     }
 
+    /**
+     * Units in effect for the document (from its DIMENSION statement)
+     */
+    public getUnitSystem(): UnitSystem {
+        return this.unitSystem;
+    }
+
     /**
      * Get a symbol by name
      */
@@ -374,8 +445,10 @@ export class SymbolTable {
         return Array.from(this.symbols.values()).filter(symbol => {
             // Stream or unit used but never properly defined
             if (symbol.kind === SymbolKind.STREAM) {
-                // Check if stream is defined in STREAM DATA
-                const hasDefinition = symbol.references.some(ref => ref.context === 'definition');
+                // Streams are defined in STREAM DATA or as the product of a unit
+                const hasDefinition = symbol.references.some(ref =>
+                    ref.context === 'definition' || ref.context === 'product'
+                );
                 return !hasDefinition && symbol.references.length > 0;
             }
             return false;
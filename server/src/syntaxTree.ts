@@ -0,0 +1,324 @@
+/**
+ * Lossless Syntax Tree for PRO/II Language Server
+ * Wraps the AST with every source token. Whitespace, comments, & continuations
+ * and line breaks are attached to tokens as trivia, so printing the tree gives
+ * back the original text byte-for-byte.
+ */
+
+import {
+    ASTNode, ProgramNode, SectionNode, UnitOperationNode, ParameterNode,
+    StreamReferenceNode, ComponentDataNode, ComponentNode, StreamDataNode,
+    ThermodynamicDataNode, PrintStatementNode, ListNode
+} from './ast';
+import { Token, TokenType } from './types';
+
+export type TriviaKind = 'whitespace' | 'newline' | 'comment' | 'continuation';
+
+/**
+ * Text between tokens that does not affect the meaning of the input
+ */
+export interface Trivia {
+    kind: TriviaKind;
+    text: string;
+    line: number; // 1-based
+    column: number; // 1-based
+}
+
+/**
+ * A significant token with the trivia around it. Trailing trivia runs to
+ * the end of the token's line (including the line break); everything else
+ * before the next token is its leading trivia.
+ */
+export interface SyntaxToken {
+    kind: 'Token';
+    tokenType: TokenType;
+    text: string;
+    line: number; // 1-based
+    column: number; // 1-based
+    leadingTrivia: Trivia[];
+    trailingTrivia: Trivia[];
+}
+
+/**
+ * An AST node with its child nodes and tokens in source order
+ */
+export interface SyntaxNode {
+    kind: 'Node';
+    node: ASTNode;
+    children: SyntaxElement[];
+}
+
+export type SyntaxElement = SyntaxNode | SyntaxToken;
+
+/**
+ * Build the syntax tree of a document from its text and parsed AST.
+ * The root holds the end-of-file token, whose leading trivia is whatever
+ * follows the last token.
+ */
+export function buildSyntaxTree(text: string, ast: ProgramNode, tokens: Token[]): SyntaxNode {
+    const syntaxTokens = createSyntaxTokens(text, tokens);
+    const cursor = { index: 0 };
+    return buildNode(ast, syntaxTokens, cursor, true);
+}
+
+/**
+ * Print a syntax tree (or part of it) back to source text
+ */
+export function printSyntaxTree(element: SyntaxElement): string {
+    return getSyntaxTokens(element).map(printToken).join('');
+}
+
+/**
+ * Source text of a node without the trivia before its first token and after
+ * its last, with the nodes in `replacements` printed as the given text
+ */
+export function printNodeText(node: SyntaxNode, replacements: Map<ASTNode, string> = new Map()): string {
+    const tokens = getSyntaxTokens(node);
+    if (tokens.length === 0) return '';
+
+    const first = tokens[0];
+    const last = tokens[tokens.length - 1];
+    const text = printReplaced(node, replacements);
+    return text.slice(printTrivia(first.leadingTrivia).length, text.length - printTrivia(last.trailingTrivia).length);
+}
+
+function printReplaced(element: SyntaxElement, replacements: Map<ASTNode, string>): string {
+    if (element.kind === 'Token') return printToken(element);
+
+    const replacement = replacements.get(element.node);
+    if (replacement === undefined) {
+        return element.children.map(child => printReplaced(child, replacements)).join('');
+    }
+
+    // Keep the trivia around the replaced node
+    const tokens = getSyntaxTokens(element);
+    if (tokens.length === 0) return replacement;
+    return printTrivia(tokens[0].leadingTrivia) + replacement + printTrivia(tokens[tokens.length - 1].trailingTrivia);
+}
+
+/**
+ * Source text of a token including its trivia
+ */
+export function printToken(token: SyntaxToken): string {
+    return printTrivia(token.leadingTrivia) + token.text + printTrivia(token.trailingTrivia);
+}
+
+export function printTrivia(trivia: Trivia[]): string {
+    return trivia.map(t => t.text).join('');
+}
+
+/**
+ * All tokens under an element, in source order
+ */
+export function getSyntaxTokens(element: SyntaxElement): SyntaxToken[] {
+    if (element.kind === 'Token') return [element];
+    return element.children.flatMap(getSyntaxTokens);
+}
+
+/**
+ * The syntax node of an AST node
+ */
+export function findSyntaxNode(root: SyntaxNode, node: ASTNode): SyntaxNode | undefined {
+    if (root.node === node) return root;
+
+    for (const child of root.children) {
+        if (child.kind !== 'Node') continue;
+        const found = findSyntaxNode(child, node);
+        if (found) return found;
+    }
+    return undefined;
+}
+
+/**
+ * The innermost syntax node whose AST node is of a type, containing a token
+ */
+export function findAncestor(root: SyntaxNode, token: SyntaxToken, type: string): SyntaxNode | undefined {
+    let found: SyntaxNode | undefined;
+
+    const visit = (node: SyntaxNode): boolean => {
+        for (const child of node.children) {
+            if (child === token || (child.kind === 'Node' && visit(child))) {
+                if (node.node.type === type && !found) found = node;
+                return true;
+            }
+        }
+        return false;
+    };
+
+    visit(root);
+    return found;
+}
+
+/**
+ * The token at a position (1-based line and column), if any
+ */
+export function findTokenAt(root: SyntaxNode, line: number, column: number): SyntaxToken | undefined {
+    return getSyntaxTokens(root).find(token =>
+        token.line === line && column >= token.column && column < token.column + Math.max(token.text.length, 1)
+    );
+}
+
+/**
+ * Comments in a token's leading trivia, e.g. the comment lines above a unit
+ */
+export function getLeadingComments(token: SyntaxToken): Trivia[] {
+    return token.leadingTrivia.filter(trivia => trivia.kind === 'comment');
+}
+
+/**
+ * Convert lexer tokens to syntax tokens. Newlines, comments and & become
+ * trivia, and the text between tokens (spaces, tabs, \r) becomes whitespace.
+ */
+function createSyntaxTokens(text: string, tokens: Token[]): SyntaxToken[] {
+    const lineStarts = getLineStarts(text);
+    const result: SyntaxToken[] = [];
+    let pending: Trivia[] = [];
+    let previous: SyntaxToken | null = null; // Token whose line has not ended yet
+    let offset = 0;
+    let line = 1;
+    let column = 1;
+
+    const addTrivia = (trivia: Trivia) => {
+        if (previous) {
+            previous.trailingTrivia.push(trivia);
+            if (trivia.kind === 'newline') previous = null;
+        } else {
+            pending.push(trivia);
+        }
+    };
+
+    for (const token of tokens) {
+        const start = lineStarts[token.line - 1] + token.column - 1;
+        if (start > offset) {
+            addTrivia({ kind: 'whitespace', text: text.slice(offset, start), line, column });
+        }
+
+        const tokenText = text.slice(start, start + token.length);
+        offset = start + token.length;
+        line = token.line;
+        column = token.column + token.length;
+
+        switch (token.type) {
+            case TokenType.NEWLINE:
+                addTrivia({ kind: 'newline', text: tokenText, line: token.line, column: token.column });
+                line++;
+                column = 1;
+                break;
+            case TokenType.COMMENT:
+                addTrivia({ kind: 'comment', text: tokenText, line: token.line, column: token.column });
+                break;
+            case TokenType.CONTINUATION:
+                addTrivia({ kind: 'continuation', text: tokenText, line: token.line, column: token.column });
+                break;
+            default: {
+                const syntaxToken: SyntaxToken = {
+                    kind: 'Token',
+                    tokenType: token.type,
+                    text: tokenText,
+                    line: token.line,
+                    column: token.column,
+                    leadingTrivia: pending,
+                    trailingTrivia: []
+                };
+                result.push(syntaxToken);
+                pending = [];
+                previous = token.type === TokenType.EOF ? null : syntaxToken;
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Offset of the start of each line
+ */
+function getLineStarts(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') starts.push(i + 1);
+    }
+    return starts;
+}
+
+/**
+ * Build a syntax node, taking the tokens inside the node's span in order.
+ * Tokens between child nodes (keywords, = signs, commas) belong to the
+ * node itself. The root takes every remaining token so nothing is lost.
+ */
+function buildNode(node: ASTNode, tokens: SyntaxToken[], cursor: { index: number }, isRoot = false): SyntaxNode {
+    const children: SyntaxElement[] = [];
+    const inside = (token: SyntaxToken) => isRoot || isBefore(token, node.endLine, node.endColumn);
+
+    for (const child of getChildNodes(node)) {
+        while (cursor.index < tokens.length && isBefore(tokens[cursor.index], child.startLine, child.startColumn) &&
+               inside(tokens[cursor.index])) {
+            children.push(tokens[cursor.index++]);
+        }
+        children.push(buildNode(child, tokens, cursor));
+    }
+
+    while (cursor.index < tokens.length && inside(tokens[cursor.index])) {
+        children.push(tokens[cursor.index++]);
+    }
+
+    return { kind: 'Node', node, children };
+}
+
+/**
+ * Check if a token starts before a position
+ */
+function isBefore(token: SyntaxToken, line: number, column: number): boolean {
+    return token.line < line || (token.line === line && token.column < column);
+}
+
+/**
+ * Child AST nodes in source order
+ */
+function getChildNodes(node: ASTNode): ASTNode[] {
+    let children: Array<ASTNode | undefined>;
+
+    switch (node.type) {
+        case 'Program':
+            children = (node as ProgramNode).sections;
+            break;
+        case 'Section':
+            children = (node as SectionNode).statements;
+            break;
+        case 'UnitOperation': {
+            const unit = node as UnitOperationNode;
+            children = [unit.uid, ...unit.parameters, ...unit.feedStreams, ...unit.productStreams];
+            break;
+        }
+        case 'Parameter':
+            children = [(node as ParameterNode).name, (node as ParameterNode).value];
+            break;
+        case 'StreamReference':
+            children = [(node as StreamReferenceNode).streamName];
+            break;
+        case 'ComponentData':
+            children = (node as ComponentDataNode).components;
+            break;
+        case 'Component':
+            children = [(node as ComponentNode).libid];
+            break;
+        case 'StreamData':
+            children = [(node as StreamDataNode).streamName, ...(node as StreamDataNode).parameters];
+            break;
+        case 'ThermodynamicData':
+            children = (node as ThermodynamicDataNode).parameters;
+            break;
+        case 'PrintStatement':
+            children = (node as PrintStatementNode).parameters;
+            break;
+        case 'List':
+            children = (node as ListNode).values;
+            break;
+        default:
+            children = [];
+    }
+
+    return children
+        .filter((child): child is ASTNode => child !== undefined)
+        .sort((a, b) => a.startLine - b.startLine || a.startColumn - b.startColumn);
+}
@@ -0,0 +1,121 @@
+/**
+ * Tests for Completion Context
+ */
+
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { getCompletionContext, CompletionContext } from '../completionContext';
+import { SymbolKind } from '../symbolTable';
+
+/**
+ * Context at the | in the code
+ */
+function contextAt(code: string): CompletionContext {
+    const offset = code.indexOf('|');
+    const text = code.slice(0, offset) + code.slice(offset + 1);
+    const before = text.slice(0, offset).split('\n');
+    const position = { line: before.length - 1, character: before[before.length - 1].length };
+
+    const ast = new Parser(new Lexer(text).tokenize()).parse();
+    return getCompletionContext(ast, text, position);
+}
+
+const DOCUMENT = `COMPONENT DATA
+    LIBID 1, METHANE / 2, ETHANE
+
+STREAM DATA
+    PROP DATA=FEED1, TEMP=100
+`;
+
+describe('Completion Context', () => {
+    it('has no section before the first section', () => {
+        const context = contextAt(`|\nCOMPONENT DATA\n`);
+
+        expect(context.section).toBeUndefined();
+        expect(context.atStatementStart).toBe(true);
+    });
+
+    it('finds the section of the cursor', () => {
+        expect(contextAt(DOCUMENT + '    |').section).toBe('STREAM_DATA');
+        expect(contextAt(`COMPONENT DATA\n    LIB|\nSTREAM DATA\n`).section).toBe('COMPONENT_DATA');
+    });
+
+    it('puts a section header line in the section before it', () => {
+        expect(contextAt(DOCUMENT + 'UNIT OP|').section).toBe('STREAM_DATA');
+    });
+
+    it('treats a partly typed first word as the start of a statement', () => {
+        const context = contextAt(DOCUMENT + '    PR|');
+
+        expect(context.atStatementStart).toBe(true);
+        expect(context.keyword).toBeUndefined();
+    });
+
+    it('finds the statement keyword and the parameter being given a value', () => {
+        const context = contextAt(DOCUMENT + '    PROP DATA=FEED2, TEMP(F)=1|');
+
+        expect(context.atStatementStart).toBe(false);
+        expect(context.keyword).toBe('PROP');
+        expect(context.parameter).toBe('TEMP');
+    });
+
+    it('finds the unit block of the cursor', () => {
+        const context = contextAt(DOCUMENT + `UNIT OPERATIONS
+    FLASH UID=F-1
+        FEED=FEED1
+    PUMP UID=P-1
+        FEED=L1
+
+        |`);
+
+        expect(context.section).toBe('UNIT_OPERATIONS');
+        expect(context.unit?.statementType).toBe('PUMP');
+        expect(context.atStatementStart).toBe(true);
+    });
+
+    it('joins & continuation lines to the statement', () => {
+        const context = contextAt(DOCUMENT + `UNIT OPERATIONS
+    FLASH UID=F-1, &
+        TEMP=100, &
+        |`);
+
+        expect(context.unit?.statementType).toBe('FLASH');
+        expect(context.atStatementStart).toBe(false);
+        expect(context.keyword).toBe('FLASH');
+        expect(context.statementText).toMatch(/^ {4}FLASH UID=F-1, +TEMP=100, +$/);
+    });
+
+    describe('symbol references', () => {
+        const UNITS = DOCUMENT + 'UNIT OPERATIONS\n';
+
+        it('finds stream lists after FEED and PROD', () => {
+            expect(contextAt(UNITS + '    FLASH UID=F-1\n        FEED |').reference).toEqual({ kind: SymbolKind.STREAM });
+            expect(contextAt(UNITS + '    FLASH UID=F-1\n        FEED=FEED1, F|').reference).toEqual({ kind: SymbolKind.STREAM });
+            expect(contextAt(UNITS + '    FLASH UID=F-1\n        PROD=V=VAPOR, L=|').reference).toEqual({ kind: SymbolKind.STREAM });
+            expect(contextAt(UNITS + '    COLUMN UID=C-1\n        FEED=10/|').reference).toEqual({ kind: SymbolKind.STREAM });
+        });
+
+        it('does not mistake names or later parameters for stream lists', () => {
+            expect(contextAt(UNITS + '    FLASH UID=F-1\n        FEED|').reference).toBeUndefined();
+            expect(contextAt(UNITS + '    FLASH UID=F-1\n        FEED=A, TEMP=|').reference).toBeUndefined();
+            expect(contextAt(UNITS + '    MIXER UID=PROD-1, |').reference).toBeUndefined();
+        });
+
+        it('finds streams after DATA= and STREAM=', () => {
+            expect(contextAt(DOCUMENT + '    COMP DATA=|').reference).toEqual({ kind: SymbolKind.STREAM });
+            expect(contextAt(UNITS + '    COLUMN UID=C-1\n        SPEC STREAM=|').reference).toEqual({ kind: SymbolKind.STREAM });
+        });
+
+        it('finds units after UID= and unit types', () => {
+            expect(contextAt(UNITS + '    FLASH UID=|').reference).toEqual({ kind: SymbolKind.UNIT });
+            expect(contextAt(UNITS + '    COLUMN UID=C-1\n        VARY FLASH=F|').reference)
+                .toEqual({ kind: SymbolKind.UNIT, unitType: 'FLASH' });
+        });
+
+        it('finds components in SPEC and VARY only', () => {
+            expect(contextAt(UNITS + '    COLUMN UID=C-1\n        SPEC STREAM=D, COMP=|').reference)
+                .toEqual({ kind: SymbolKind.COMPONENT });
+            expect(contextAt(DOCUMENT + '    PROP DATA=FEED2, COMP=|').reference).toBeUndefined();
+        });
+    });
+});
@@ -8,9 +8,13 @@ import {
     getSectionCompletions,
     getParameterCompletions,
     getThermodynamicMethodCompletions,
-    getContextAwareCompletions
+    getContextAwareCompletions,
+    provideCompletions
 } from '../completionProvider';
-import { CompletionItemKind } from 'vscode-languageserver/node';
+import { CompletionItem, CompletionItemKind } from 'vscode-languageserver/node';
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { SymbolTable } from '../symbolTable';
 
 describe('Completion Provider', () => {
     describe('getKeywordCompletions', () => {
@@ -179,6 +183,16 @@ describe('Completion Provider', () => {
             expect(labels).toContain('COLUMN');
         });
 
+        test('should return library components in LIBID statements', () => {
+            const items = getContextAwareCompletions('LIBID 1, C1/2, ET', 17);
+            const ethane = items.find(item => item.label === 'ETHANE');
+
+            expect(ethane).toBeDefined();
+            expect(ethane!.detail).toContain('C2H6');
+            expect(ethane!.filterText).toContain('C2');
+            expect(getContextAwareCompletions('LIBID 1', 7)).not.toContainEqual(expect.objectContaining({ label: 'ETHANE' }));
+        });
+
         test('should return empty array for stream references (future)', () => {
             const items = getContextAwareCompletions('FEED=', 5);
             expect(items).toEqual([]);
@@ -206,3 +220,182 @@ describe('Completion Provider', () => {
         });
     });
 });
+
+describe('provideCompletions', () => {
+    /**
+     * Completions at the | in the code
+     */
+    function completeAt(code: string): CompletionItem[] {
+        const offset = code.indexOf('|');
+        const text = code.slice(0, offset) + code.slice(offset + 1);
+        const before = text.slice(0, offset).split('\n');
+        const position = { line: before.length - 1, character: before[before.length - 1].length };
+
+        return provideCompletions(new Parser(new Lexer(text).tokenize()).parse(), text, position);
+    }
+
+    function labels(items: CompletionItem[]): string[] {
+        return items.map(item => item.label);
+    }
+
+    const HEADER = `COMPONENT DATA
+    LIBID 1, METHANE / 2, ETHANE
+
+STREAM DATA
+    PROP DATA=FEED1, TEMP=100
+`;
+
+    test('offers section headers before the first section', () => {
+        const items = labels(completeAt('|'));
+
+        expect(items).toContain('COMPONENT DATA');
+        expect(items).not.toContain('FLASH');
+        expect(items).not.toContain('TEMP');
+    });
+
+    test('offers PROP and COMP in STREAM DATA', () => {
+        const items = labels(completeAt(HEADER + '    |'));
+
+        expect(items).toEqual(expect.arrayContaining(['PROP', 'COMP', 'UNIT OPERATIONS']));
+        expect(items).not.toContain('FLASH');
+        expect(items).not.toContain('METHOD');
+    });
+
+    test('offers METHOD and SET in THERMODYNAMIC DATA', () => {
+        const items = labels(completeAt(HEADER + 'THERMODYNAMIC DATA\n    |'));
+
+        expect(items).toEqual(expect.arrayContaining(['METHOD', 'SET']));
+        expect(items).not.toContain('PROP');
+    });
+
+    test('offers unit operations in UNIT OPERATIONS', () => {
+        const items = labels(completeAt(HEADER + 'UNIT OPERATIONS\n    |'));
+
+        expect(items).toEqual(expect.arrayContaining(['FLASH', 'COLUMN', 'CALCULATOR', 'STCALC']));
+        expect(items).not.toContain('PROP');
+        expect(items).not.toContain('TEMP');
+    });
+
+    test('offers the unit type\'s own parameters inside a unit block', () => {
+        const items = completeAt(HEADER + `UNIT OPERATIONS
+    PUMP UID=P-1
+        FEED=FEED1
+        PRES=200
+        |`);
+        const names = labels(items);
+
+        expect(names).toEqual(expect.arrayContaining(['DELTA-P', 'EFF', 'HEAD', 'PROD', 'FLASH']));
+        expect(names).not.toContain('VFRAC');
+        expect(names).not.toContain('NSTAGE');
+        // Already given
+        expect(names).not.toContain('UID');
+        expect(names).not.toContain('PRES');
+
+        const head = items.find(item => item.label === 'HEAD');
+        const flash = items.find(item => item.label === 'FLASH');
+        expect(head!.sortText! < flash!.sortText!).toBe(true);
+    });
+
+    test('offers only parameters after the unit keyword, across continuations', () => {
+        const names = labels(completeAt(HEADER + `UNIT OPERATIONS
+    COLUMN UID=C-1, &
+        |`));
+
+        expect(names).toContain('NSTAGE');
+        expect(names).not.toContain('FLASH');
+        expect(names).not.toContain('STREAM DATA');
+    });
+
+    test('offers the choices of a unit parameter', () => {
+        const items = completeAt(HEADER + `UNIT OPERATIONS
+    REACTOR UID=R-1
+        TYPE=|`);
+
+        expect(labels(items)).toEqual(['CONVERSION', 'EQUILIBRIUM', 'GIBBS', 'PLUG', 'CSTR']);
+    });
+
+    test('offers statement parameters in STREAM DATA', () => {
+        const names = labels(completeAt(HEADER + '    COMP DATA=FEED1, |'));
+
+        expect(names).toEqual(['RATE', 'COMP', 'FRAC']);
+    });
+
+    test('offers methods after SYSTEM=', () => {
+        expect(labels(completeAt(HEADER + 'THERMODYNAMIC DATA\n    METHOD SYSTEM=|'))).toContain('SRK');
+    });
+
+    test('offers components in LIBID continuations', () => {
+        const names = labels(completeAt(`COMPONENT DATA
+    LIBID 1, METHANE / &
+        2, ET|`));
+
+        expect(names).toContain('ETHANE');
+    });
+
+    test('offers nothing inside comments', () => {
+        expect(completeAt(HEADER + '    $ PROP |')).toEqual([]);
+    });
+
+    describe('symbol names', () => {
+        const FLOWSHEET = HEADER + `UNIT OPERATIONS
+    FLASH UID=F-100
+        FEED=FEED1
+        PROD=V=VAPOR, L=LIQUID
+        TEMP=100, PRES=50
+`;
+
+        test('offers streams after FEED with where they come from', () => {
+            const items = completeAt(FLOWSHEET + `    PUMP UID=P-1
+        FEED=|`);
+
+            expect(labels(items)).toEqual(['FEED1', 'VAPOR', 'LIQUID']);
+            expect(items[0].detail).toBe('defined in STREAM DATA');
+            expect(items[1].detail).toBe('product of F-100');
+            expect(items[1].kind).toBe(CompletionItemKind.Variable);
+        });
+
+        test('offers streams after DATA= in STREAM DATA', () => {
+            expect(labels(completeAt(HEADER + '    COMP DATA=|'))).toEqual(['FEED1']);
+        });
+
+        test('offers unit UIDs, filtered by unit type', () => {
+            const text = FLOWSHEET + `    PUMP UID=P-1
+        FEED=LIQUID
+        PROD=PUMPED
+        PRES=200
+    COLUMN UID=C-1
+        NSTAGE=10
+        VARY PUMP=|`;
+
+            const items = completeAt(text);
+            expect(labels(items)).toEqual(['P-1']);
+            expect(items[0].detail).toMatch(/^PUMP on line \d+$/);
+            expect(labels(completeAt(FLOWSHEET + '    PUMP UID=|'))).toEqual(['F-100']);
+        });
+
+        test('offers declared components in SPEC statements', () => {
+            const items = completeAt(FLOWSHEET + `    COLUMN UID=C-1
+        SPEC STREAM=VAPOR, COMP=|`);
+
+            expect(labels(items)).toEqual(['METHANE', 'ETHANE']);
+            expect(items[1].detail).toBe('Component 2 · Ethane');
+        });
+
+        test('uses the given symbol table', () => {
+            const text = HEADER + '    COMP DATA=';
+            const ast = new Parser(new Lexer(text).tokenize()).parse();
+            const position = { line: 5, character: 14 };
+
+            expect(labels(provideCompletions(ast, text, position))).toEqual(['FEED1']);
+            expect(provideCompletions(ast, text, position, new SymbolTable())).toEqual([]);
+        });
+
+        test('reopens the completion list after FEED=', () => {
+            const items = completeAt(FLOWSHEET + '    PUMP UID=P-1\n        |');
+            const feed = items.find(item => item.label === 'FEED');
+
+            expect(feed?.insertText).toBe('FEED=');
+            expect(feed?.command?.command).toBe('editor.action.triggerSuggest');
+        });
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * Tests for Component Databank
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ComponentDatabank, parseComponentFile, formatFormula, loadBundledComponents } from '../componentDatabank';
+
+describe('Component Databank', () => {
+    describe('bundled library', () => {
+        const databank = new ComponentDatabank();
+
+        it('loads components with properties', () => {
+            const methane = databank.lookup('METHANE')!;
+
+            expect(methane).toMatchObject({ name: 'Methane', formula: 'CH4', family: 'Paraffin' });
+            expect(methane.mw).toBeCloseTo(16.04, 2);
+            expect(methane.tc).toBeCloseTo(190.56, 2);
+            expect(methane.pc).toBeCloseTo(4599, 0);
+            expect(methane.omega).toBeCloseTo(0.011, 3);
+            expect(methane.nbp).toBeCloseTo(111.66, 2);
+        });
+
+        it('finds components by alias, case-insensitively', () => {
+            expect(databank.lookup('c1')!.id).toBe('METHANE');
+            expect(databank.lookup('NC4')!.id).toBe('BUTANE');
+            expect(databank.lookup('water')!.id).toBe('H2O');
+            expect(databank.lookup('UNOBTAINIUM')).toBeUndefined();
+        });
+
+        it('covers the common component families', () => {
+            const families = new Set(loadBundledComponents().components.map(c => c.family));
+
+            for (const family of ['Paraffin', 'Aromatic', 'Inorganic', 'Alcohol', 'Amine']) {
+                expect(families.has(family)).toBe(true);
+            }
+        });
+
+        it('reports a missing library', () => {
+            const { components, errors } = loadBundledComponents('/nonexistent/components.json');
+
+            expect(components).toEqual([]);
+            expect(errors[0]).toMatch(/^Cannot read the component library \/nonexistent\/components\.json/);
+        });
+
+        it('has complete, unique entries', () => {
+            const { components, errors } = loadBundledComponents();
+            const names = components.flatMap(c => [c.id, ...c.aliases]);
+
+            expect(errors).toEqual([]);
+            expect(new Set(names).size).toBe(names.length);
+            for (const c of components) {
+                expect([c.formula, c.mw, c.tc, c.pc, c.omega, c.nbp].every(v => v !== undefined)).toBe(true);
+            }
+        });
+    });
+
+    describe('project components', () => {
+        it('extends and overrides the bundled library', () => {
+            const databank = new ComponentDatabank();
+            databank.setProjectComponents('project', [
+                { id: 'MYOIL', name: 'Pseudo oil', aliases: ['OIL1'], mw: 250 },
+                { id: 'METHANE', name: 'Custom methane', aliases: [], mw: 16 }
+            ]);
+
+            expect(databank.lookup('OIL1')!.name).toBe('Pseudo oil');
+            expect(databank.lookup('METHANE')!.name).toBe('Custom methane');
+            expect(databank.lookup('C1')).toBeUndefined();
+
+            databank.removeProjectComponents('project');
+            expect(databank.lookup('MYOIL')).toBeUndefined();
+            expect(databank.lookup('C1')!.name).toBe('Methane');
+        });
+
+        it('loads a project file from disk', async () => {
+            const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proii-'));
+            const filePath = path.join(dir, 'proii-components.json');
+            fs.writeFileSync(filePath, JSON.stringify({ components: [{ id: 'myoil', mw: 'heavy' }] }));
+
+            const databank = new ComponentDatabank([]);
+            const errors = await databank.loadProjectFile(filePath);
+
+            expect(errors).toEqual(['Component MYOIL: "mw" must be a number']);
+            expect(databank.lookup('MYOIL')).toMatchObject({ id: 'MYOIL', name: 'myoil' });
+
+            fs.rmSync(dir, { recursive: true });
+            expect(await databank.loadProjectFile(filePath)).toEqual([]);
+            expect(databank.lookup('MYOIL')).toBeUndefined();
+        });
+
+        it('reports invalid files', () => {
+            expect(parseComponentFile('{').errors[0]).toMatch(/^Invalid JSON/);
+            expect(parseComponentFile('{}').errors).toEqual(['Expected a "components" array']);
+            expect(parseComponentFile('null').errors).toEqual(['Expected a "components" array']);
+            expect(parseComponentFile('42').errors).toEqual(['Expected a "components" array']);
+            expect(parseComponentFile('{"components":[{"name":"X"}]}').errors).toEqual(['Component 1: missing "id"']);
+            expect(parseComponentFile('{"components":[null, "X", {"id":7}]}').errors)
+                .toEqual(['Component 1: missing "id"', 'Component 2: missing "id"', 'Component 3: missing "id"']);
+        });
+    });
+
+    it('formats formulas with subscripts', () => {
+        expect(formatFormula('C3H8')).toBe('C₃H₈');
+        expect(formatFormula('C10H22')).toBe('C₁₀H₂₂');
+    });
+});
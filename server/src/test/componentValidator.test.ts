@@ -0,0 +1,90 @@
+/**
+ * Tests for Component Validator
+ */
+
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { ComponentDatabank } from '../componentDatabank';
+import { validateComponents, ComponentCodes, editDistance, suggestNames } from '../componentValidator';
+
+function validate(code: string, databank = new ComponentDatabank()): Diagnostic[] {
+    const ast = new Parser(new Lexer(code).tokenize()).parse();
+    return validateComponents(ast, databank);
+}
+
+function withCode(diagnostics: Diagnostic[], code: string): Diagnostic[] {
+    return diagnostics.filter(d => d.code === code);
+}
+
+describe('Component Validator', () => {
+    it('reports components that are not in the library', () => {
+        const diagnostics = validate(`COMPONENT DATA
+LIBID 1, C1/2, FOOBAR/3, METHNE
+`);
+        const unknown = withCode(diagnostics, ComponentCodes.UNKNOWN_COMPONENT);
+
+        expect(unknown.length).toBe(2);
+        expect(unknown[0].severity).toBe(DiagnosticSeverity.Warning);
+        expect(unknown[0].message).toBe("Component 'FOOBAR' is not in the component library");
+        expect(unknown[0].range).toEqual({
+            start: { line: 1, character: 15 },
+            end: { line: 1, character: 21 }
+        });
+        expect(unknown[1].message).toBe("Component 'METHNE' is not in the component library. Did you mean 'METHANE'?");
+    });
+
+    it('accepts components from a project file', () => {
+        const databank = new ComponentDatabank();
+        databank.setProjectComponents('project', [{ id: 'FOOBAR', name: 'Foo', aliases: [] }]);
+
+        expect(validate('COMPONENT DATA\nLIBID 1, FOOBAR\n', databank)).toEqual([]);
+    });
+
+    it('reports duplicate components, including aliases', () => {
+        const diagnostics = validate(`COMPONENT DATA
+LIBID 1, C1/2, C2/3, METHANE/4, C2
+`);
+        const duplicates = withCode(diagnostics, ComponentCodes.DUPLICATE_COMPONENT);
+
+        expect(duplicates.map(d => d.message)).toEqual([
+            "Duplicate component 'METHANE' (already listed as 'C1' on line 2)",
+            "Duplicate component 'C2' (already listed on line 2)"
+        ]);
+    });
+
+    it('reports component numbers that repeat or skip', () => {
+        const diagnostics = validate(`COMPONENT DATA
+LIBID 1, C1/2, C2/2, C3/5, NC4
+LIBID 6, H2O
+`);
+        const repeated = withCode(diagnostics, ComponentCodes.DUPLICATE_COMPONENT_NUMBER);
+        const skipped = withCode(diagnostics, ComponentCodes.SKIPPED_COMPONENT_NUMBER);
+
+        expect(repeated.map(d => d.message)).toEqual(["Component number 2 is already used by 'C2'"]);
+        expect(repeated[0].range.start).toEqual({ line: 1, character: 18 });
+        expect(skipped.map(d => d.message)).toEqual(['Component number 5 skips 3-4']);
+    });
+
+    it('accepts a valid component list', () => {
+        expect(validate(`COMPONENT DATA
+LIBID 1, C1/2, C2/3, C3, &
+      4, IC4/5, NC4
+NAME 1, FUEL
+`)).toEqual([]);
+    });
+
+    describe('suggestions', () => {
+        it('measures edit distance ignoring case', () => {
+            expect(editDistance('methne', 'METHANE')).toBe(1);
+            expect(editDistance('NC4', 'IC4')).toBe(1);
+            expect(editDistance('', 'ABC')).toBe(3);
+        });
+
+        it('suggests only the closest names', () => {
+            expect(suggestNames('NC44', ['NC4', 'NC14', 'IC4', 'BENZENE'])).toEqual(['NC14', 'NC4']);
+            expect(suggestNames('NC14X', ['NC14', 'NC4'])).toEqual(['NC14']);
+            expect(suggestNames('XYZ', ['BENZENE'])).toEqual([]);
+        });
+    });
+});
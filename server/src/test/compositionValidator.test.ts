@@ -0,0 +1,152 @@
+/**
+ * Tests for Composition Validator
+ */
+
+import { CodeAction, Diagnostic, DiagnosticSeverity, TextEdit } from 'vscode-languageserver/node';
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { ProgramNode } from '../ast';
+import {
+    validateCompositions, provideCompositionActions, normalizeComposition, CompositionCodes
+} from '../compositionValidator';
+import { buildSyntaxTree } from '../syntaxTree';
+
+const URI = 'file:///test.inp';
+
+function parse(code: string): ProgramNode {
+    return new Parser(new Lexer(code).tokenize()).parse();
+}
+
+function withCode(diagnostics: Diagnostic[], code: string): Diagnostic[] {
+    return diagnostics.filter(d => d.code === code);
+}
+
+function quickFixes(code: string): CodeAction[] {
+    const tokens = new Lexer(code).tokenize();
+    const ast = new Parser(tokens).parse();
+    return provideCompositionActions(buildSyntaxTree(code, ast, tokens), URI, validateCompositions(ast));
+}
+
+function applyEdits(text: string, edits: TextEdit[]): string {
+    const lines = text.split('\n');
+    const offset = (line: number, character: number) =>
+        lines.slice(0, line).reduce((sum, l) => sum + l.length + 1, 0) + character;
+
+    let result = text;
+    for (const edit of [...edits].sort((a, b) => offset(b.range.start.line, b.range.start.character) -
+                                                 offset(a.range.start.line, a.range.start.character))) {
+        const start = offset(edit.range.start.line, edit.range.start.character);
+        const end = offset(edit.range.end.line, edit.range.end.character);
+        result = result.slice(0, start) + edit.newText + result.slice(end);
+    }
+    return result;
+}
+
+const COMPONENTS = `COMPONENT DATA
+LIBID 1, C1/2, C2/3, C3
+
+STREAM DATA
+`;
+
+describe('Composition Validator', () => {
+    it('accepts compositions that match the components', () => {
+        const ast = parse(COMPONENTS + `COMP DATA=F1, RATE(WT)=20/30/50
+PROP DATA=F2, TEMP=100, COMP=0.2/0.3/0.5
+COMP DATA=F3, RATE(M)=250, 300, 350
+COMP DATA=F4, COMP=1,0.5/3,0.5
+`);
+        expect(validateCompositions(ast)).toEqual([]);
+    });
+
+    it('reports value counts that differ from the component count', () => {
+        const diagnostics = validateCompositions(parse(COMPONENTS + 'COMP DATA=FEED, RATE(WT)=20/20/20/40\n'));
+        const counts = withCode(diagnostics, CompositionCodes.COUNT_MISMATCH);
+
+        expect(counts.length).toBe(1);
+        expect(counts[0].message).toBe('RATE of FEED has 4 value(s) but 3 component(s) are declared');
+        expect(counts[0].range).toEqual({
+            start: { line: 4, character: 25 },
+            end: { line: 4, character: 36 }
+        });
+    });
+
+    it('reports fractions and percentages that do not sum to 1 or 100', () => {
+        const diagnostics = validateCompositions(parse(COMPONENTS + `COMP DATA=F1, COMP=20/30/51
+PROP DATA=F2, COMP=0.2/0.3/0.4
+PROP DATA=F3, COMP=0.2/0.3/0.5001
+`));
+        const sums = withCode(diagnostics, CompositionCodes.SUM_MISMATCH);
+
+        expect(sums.map(d => d.message)).toEqual([
+            'COMP of F1 sums to 101, not 100',
+            'COMP of F2 sums to 0.9, not 1'
+        ]);
+        expect(sums[0].severity).toBe(DiagnosticSeverity.Warning);
+    });
+
+    it('does not check the total of absolute rates', () => {
+        const diagnostics = validateCompositions(parse(COMPONENTS + 'COMP DATA=F1, RATE(M)=250/300/351\n'));
+
+        expect(withCode(diagnostics, CompositionCodes.SUM_MISMATCH)).toEqual([]);
+    });
+
+    it('does not check rates that happen to sum to nearly 100', () => {
+        const code = COMPONENTS.replace('3, C3', '3, C3/4, C4') + 'COMP DATA=FEED, RATE(WT)=30/30/30/5\n';
+
+        expect(validateCompositions(parse(code))).toEqual([]);
+        expect(quickFixes(code)).toEqual([]);
+    });
+
+    it('reports negative values', () => {
+        const diagnostics = validateCompositions(parse(COMPONENTS + 'PROP DATA=F1, COMP=0.6/-0.1/0.5\n'));
+        const negatives = withCode(diagnostics, CompositionCodes.NEGATIVE_VALUE);
+
+        expect(negatives.length).toBe(1);
+        expect(negatives[0].message).toBe('Negative value -0.1 in COMP of F1');
+        expect(negatives[0].range.start).toEqual({ line: 4, character: 23 });
+    });
+
+    describe('quick fix', () => {
+        it('normalizes a composition in place', () => {
+            const code = COMPONENTS + 'PROP DATA=F1, COMP=0.6/-0.1/0.6\n';
+            const actions = quickFixes(code);
+
+            expect(actions.length).toBe(1);
+            expect(actions[0].title).toBe('Normalize composition of F1 to 1');
+            expect(applyEdits(code, actions[0].edit!.changes![URI])).toContain('PROP DATA=F1, COMP=0.5/0/0.5\n');
+        });
+
+        it('normalizes percentages to 100', () => {
+            const code = COMPONENTS + 'COMP DATA=F1, FRAC(WT)=24/24/48\n';
+            const actions = quickFixes(code);
+
+            expect(applyEdits(code, actions[0].edit!.changes![URI])).toContain('FRAC(WT)=25/25/50\n');
+        });
+
+        it('only clears negative absolute rates', () => {
+            const code = COMPONENTS + 'COMP DATA=F1, RATE(M)=250/-5/300\n';
+            const actions = quickFixes(code);
+
+            expect(actions[0].title).toBe('Replace negative values in F1 with 0');
+            expect(applyEdits(code, actions[0].edit!.changes![URI])).toContain('RATE(M)=250/0/300\n');
+        });
+
+        it('keeps continuations and comments inside the list', () => {
+            const code = COMPONENTS + 'COMP DATA=F1, FRAC=24 / 24 / & $ light ends\n    48\n';
+            const edits = quickFixes(code)[0].edit!.changes![URI];
+
+            expect(edits).toHaveLength(1);
+            expect(applyEdits(code, edits)).toContain('FRAC=25 / 25 / & $ light ends\n    50\n');
+        });
+
+        it('offers no fix for count mismatches', () => {
+            expect(quickFixes(COMPONENTS + 'COMP DATA=F1, RATE(WT)=50/50\n')).toEqual([]);
+        });
+    });
+
+    it('normalizes values', () => {
+        expect(normalizeComposition([1, 1, 2], 1)).toEqual([0.25, 0.25, 0.5]);
+        expect(normalizeComposition([-1, 3], 100)).toEqual([0, 100]);
+        expect(normalizeComposition([-1, 3])).toEqual([0, 3]);
+    });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for Definition Provider
+ */
+
+import { SymbolTable } from '../symbolTable';
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { provideDefinition } from '../definitionProvider';
+
+const URI = 'file:///test.inp';
+
+function buildSymbolTable(code: string): SymbolTable {
+    const lexer = new Lexer(code);
+    const parser = new Parser(lexer.tokenize());
+    const symbolTable = new SymbolTable();
+    symbolTable.build(parser.parse(), code);
+    return symbolTable;
+}
+
+function definitionAt(code: string, line: number, character: number) {
+    const symbolTable = buildSymbolTable(code);
+    const lineText = code.split('\n')[line];
+    return provideDefinition(symbolTable, URI, lineText, { line, character });
+}
+
+describe('Definition Provider', () => {
+    const code = `COMPONENT DATA
+LIBID 1, METHANE / 2, ETHANE
+
+STREAM DATA
+PROP DATA=FEED-3, TEMP=100, PRES=300
+
+UNIT OPERATIONS
+FLASH UID=F-100
+  FEED FEED-3
+  PROD V=VAPOR, L=LIQUID
+  TEMP=350, PRES=150
+VALVE UID=V-1
+  FEED LIQUID
+  PROD LOW-P
+`;
+
+    it('jumps from a feed to the PROP DATA entry', () => {
+        const location = definitionAt(code, 8, 9);
+        expect(location).not.toBeNull();
+        expect(location?.uri).toBe(URI);
+        expect(location?.range.start).toEqual({ line: 4, character: 10 });
+        expect(location?.range.end).toEqual({ line: 4, character: 16 });
+    });
+
+    it('jumps from a feed to the producing unit when there is no stream data', () => {
+        const location = definitionAt(code, 12, 8);
+        expect(location?.range.start).toEqual({ line: 9, character: 18 });
+    });
+
+    it('jumps from a UID to the unit header', () => {
+        const location = definitionAt(code, 7, 12);
+        expect(location?.range.start).toEqual({ line: 7, character: 10 });
+        expect(location?.range.end).toEqual({ line: 7, character: 15 });
+    });
+
+    it('jumps from a component to its LIBID entry', () => {
+        const location = definitionAt(code, 1, 23);
+        expect(location?.range.start).toEqual({ line: 1, character: 22 });
+    });
+
+    it('returns null for unknown words', () => {
+        expect(definitionAt(code, 10, 2)).toBeNull();
+    });
+
+    it('returns null inside comments', () => {
+        const commented = `STREAM DATA
+PROP DATA=S1, TEMP=100 $ see S1`;
+        expect(definitionAt(commented, 1, 29)).toBeNull();
+    });
+});
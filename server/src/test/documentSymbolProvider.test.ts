@@ -0,0 +1,81 @@
+/**
+ * Tests for Document Symbol Provider
+ */
+
+import { SymbolKind } from 'vscode-languageserver/node';
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { provideDocumentSymbols } from '../documentSymbolProvider';
+
+const code = `$ Outline test
+COMPONENT DATA
+LIBID 1, METHANE / 2, ETHANE
+
+STREAM DATA
+PROP DATA=FEED-1, TEMP=100, PRES=300
+
+THERMODYNAMIC DATA
+METHOD SYSTEM=SRK
+
+UNIT OPERATIONS
+FLASH UID=F-100
+  FEED FEED-1
+  PROD V=GAS, L=LIQ
+  TEMP=350, PRES=150
+
+$ Let down valve
+VALVE UID=V-1
+  FEED LIQ
+  PROD LOW-P
+`;
+
+function outline() {
+    const lexer = new Lexer(code);
+    const parser = new Parser(lexer.tokenize());
+    return provideDocumentSymbols(parser.parse(), code.split('\n'));
+}
+
+describe('Document Symbol Provider', () => {
+    it('lists sections as top-level symbols', () => {
+        const names = outline().map(s => s.name);
+        expect(names).toEqual(['COMPONENT DATA', 'STREAM DATA', 'THERMODYNAMIC DATA', 'UNIT OPERATIONS']);
+        outline().forEach(s => expect(s.kind).toBe(SymbolKind.Namespace));
+    });
+
+    it('nests unit operations by UID and type', () => {
+        const units = outline()[3];
+        expect(units.children?.map(c => c.name)).toEqual(['F-100', 'V-1']);
+        expect(units.children?.[0].detail).toBe('FLASH');
+        expect(units.children?.[1].detail).toBe('VALVE');
+    });
+
+    it('gives unit blocks accurate ranges', () => {
+        const [flash, valve] = outline()[3].children!;
+        expect(flash.range).toEqual({ start: { line: 11, character: 0 }, end: { line: 14, character: 20 } });
+        expect(flash.selectionRange).toEqual({ start: { line: 11, character: 10 }, end: { line: 11, character: 15 } });
+        expect(valve.range.start.line).toBe(17);
+        expect(valve.range.end.line).toBe(19);
+    });
+
+    it('ends sections at their last statement', () => {
+        const [components, streams, , units] = outline();
+        expect(components.range.start.line).toBe(1);
+        expect(components.range.end.line).toBe(2);
+        expect(streams.range.end.line).toBe(5);
+        expect(units.range.end.line).toBe(19);
+    });
+
+    it('nests stream definitions', () => {
+        const streams = outline()[1];
+        expect(streams.children?.[0].name).toBe('FEED-1');
+        expect(streams.children?.[0].detail).toBe('PROP DATA');
+        expect(streams.children?.[0].selectionRange.start).toEqual({ line: 5, character: 10 });
+    });
+
+    it('nests component lists with their components', () => {
+        const libid = outline()[0].children![0];
+        expect(libid.name).toBe('LIBID');
+        expect(libid.children?.map(c => c.name)).toEqual(['METHANE', 'ETHANE']);
+        expect(libid.children?.[1].range.start).toEqual({ line: 2, character: 22 });
+    });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for Flowsheet Graph
+ */
+
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { FlowsheetGraph } from '../flowsheet';
+
+function buildGraph(code: string): FlowsheetGraph {
+    const ast = new Parser(new Lexer(code).tokenize()).parse();
+    const graph = new FlowsheetGraph();
+    graph.build(ast);
+    return graph;
+}
+
+// Feed preheat with a recycle: M-1 -> E-101 -> F-1 -> (LIQ back to M-1)
+const RECYCLE = `UNIT OPERATIONS
+PUMP UID=P-1
+  FEED FRESH
+  PROD PUMPED
+MIXER UID=M-1
+  FEED PUMPED, RECYC
+  PROD MIXED
+HX UID=E-101
+  FEED MIXED
+  PROD HOT
+FLASH UID=F-1
+  FEED HOT
+  PROD V=GAS, L=RECYC
+COMPRESSOR UID=K-1
+  FEED GAS
+  PROD HPGAS
+VALVE UID=V-9
+  FEED OTHER
+  PROD OTHER-OUT
+`;
+
+describe('Flowsheet Graph', () => {
+    describe('structure', () => {
+        it('connects units through their streams', () => {
+            const graph = buildGraph(RECYCLE);
+
+            expect(graph.getUnits().map(u => u.id)).toEqual(['P-1', 'M-1', 'E-101', 'F-1', 'K-1', 'V-9']);
+            expect(graph.getStream('recyc')).toEqual({ name: 'RECYC', producers: ['F-1'], consumers: ['M-1'] });
+            expect(graph.getEdges()).toContainEqual({ from: 'F-1', to: 'M-1', stream: 'RECYC' });
+        });
+
+        it('lists streams entering and leaving the flowsheet', () => {
+            const graph = buildGraph(RECYCLE);
+
+            expect(graph.getFeedStreams().map(s => s.name)).toEqual(['FRESH', 'OTHER']);
+            expect(graph.getProductStreams().map(s => s.name)).toEqual(['HPGAS', 'OTHER-OUT']);
+        });
+
+        it('names units without a UID by type and line', () => {
+            const graph = buildGraph(`UNIT OPERATIONS
+FLASH
+  FEED A
+  PROD B
+`);
+            expect(graph.getUnits()[0].id).toBe('FLASH@2');
+        });
+    });
+
+    describe('analysis', () => {
+        it('finds connected components', () => {
+            const graph = buildGraph(RECYCLE);
+
+            expect(graph.getConnectedComponents()).toEqual([
+                ['P-1', 'M-1', 'E-101', 'F-1', 'K-1'],
+                ['V-9']
+            ]);
+        });
+
+        it('finds upstream and downstream units', () => {
+            const graph = buildGraph(RECYCLE);
+
+            expect(graph.getUpstreamUnits('e-101')).toEqual(['P-1', 'M-1', 'F-1']);
+            expect(graph.getDownstreamUnits('F-1')).toEqual(['M-1', 'E-101', 'K-1']);
+            expect(graph.getUpstreamUnits('NOPE')).toEqual([]);
+        });
+
+        it('finds recycle loops and suggests tear streams', () => {
+            const loops = buildGraph(RECYCLE).getRecycleLoops();
+
+            expect(loops.length).toBe(1);
+            expect(loops[0].units).toEqual(['M-1', 'E-101', 'F-1']);
+            expect(loops[0].streams.sort()).toEqual(['HOT', 'MIXED', 'RECYC']);
+            expect(loops[0].tearStreams).toEqual(['RECYC']);
+        });
+
+        it('treats a unit feeding itself as a loop', () => {
+            const loops = buildGraph(`UNIT OPERATIONS
+REACTOR UID=R-1
+  FEED FRESH, LOOP
+  PROD LOOP
+`).getRecycleLoops();
+
+            expect(loops).toEqual([{ units: ['R-1'], streams: ['LOOP'], tearStreams: ['LOOP'] }]);
+        });
+
+        it('orders units so each runs after the units feeding it', () => {
+            const graph = buildGraph(`UNIT OPERATIONS
+FLASH UID=F-2
+  FEED MID
+  PROD V=OUT1, L=OUT2
+HX UID=E-1
+  FEED IN
+  PROD MID
+`);
+            expect(graph.getCalculationOrder()).toEqual(['E-1', 'F-2']);
+            expect(graph.getRecycleLoops()).toEqual([]);
+        });
+
+        it('calculates recycle loops as a block', () => {
+            expect(buildGraph(RECYCLE).getCalculationOrder()).toEqual(['P-1', 'M-1', 'E-101', 'F-1', 'K-1', 'V-9']);
+        });
+    });
+
+    describe('view', () => {
+        it('places units in layers after the units feeding them', () => {
+            const graph = buildGraph(RECYCLE);
+
+            expect(graph.getLayers()).toEqual([['P-1', 'V-9'], ['M-1'], ['E-101'], ['F-1'], ['K-1']]);
+        });
+
+        it('describes units and stream connections for drawing', () => {
+            const view = buildGraph(RECYCLE).getView();
+
+            expect(view.units).toContainEqual({ id: 'M-1', unitType: 'MIXER', line: 4, layer: 1, row: 0 });
+            expect(view.streams).toContainEqual({ name: 'FRESH', to: 'P-1', tear: false });
+            expect(view.streams).toContainEqual({ name: 'HPGAS', from: 'K-1', tear: false });
+            expect(view.streams).toContainEqual({ name: 'RECYC', from: 'F-1', to: 'M-1', tear: true });
+            expect(view.streams).toContainEqual({ name: 'MIXED', from: 'M-1', to: 'E-101', tear: false });
+        });
+    });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for Flowsheet Export
+ */
+
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { FlowsheetGraph } from '../flowsheet';
+import { exportDot, exportFlowsheet, exportJson, exportMermaid, isExportFormat } from '../flowsheetExport';
+
+function buildGraph(code: string): FlowsheetGraph {
+    const ast = new Parser(new Lexer(code).tokenize()).parse();
+    const graph = new FlowsheetGraph();
+    graph.build(ast);
+    return graph;
+}
+
+const FLOWSHEET = `UNIT OPERATIONS
+FLASH UID=F-100
+  FEED FEED1
+  PROD V=GAS, L=LIQ
+  TEMP=350, PRES(BAR)=15
+PUMP UID=P-1
+  FEED LIQ
+  PROD PUMPED
+`;
+
+describe('Flowsheet Export', () => {
+    describe('JSON', () => {
+        it('describes units with their parameters and streams', () => {
+            const json = exportJson(buildGraph(FLOWSHEET));
+
+            expect(json.schema).toBe('proii-flowsheet');
+            expect(json.version).toBe(1);
+            expect(json.units[0]).toEqual({
+                id: 'F-100',
+                uid: 'F-100',
+                type: 'FLASH',
+                line: 2,
+                feeds: ['FEED1'],
+                products: ['GAS', 'LIQ'],
+                parameters: [
+                    { name: 'TEMP', value: 350 },
+                    { name: 'PRES', qualifier: 'BAR', value: 15 }
+                ]
+            });
+            expect(json.streams).toEqual([
+                { name: 'FEED1', producers: [], consumers: ['F-100'] },
+                { name: 'GAS', producers: ['F-100'], consumers: [] },
+                { name: 'LIQ', producers: ['F-100'], consumers: ['P-1'] },
+                { name: 'PUMPED', producers: ['P-1'], consumers: [] }
+            ]);
+        });
+
+        it('gives units without a UID a null uid', () => {
+            const json = exportJson(buildGraph(`UNIT OPERATIONS
+MIXER
+  FEED A, B
+  PROD C
+`));
+            expect(json.units[0].id).toBe('MIXER@2');
+            expect(json.units[0].uid).toBeNull();
+        });
+
+        it('produces the same text for the same input', () => {
+            const first = exportFlowsheet(buildGraph(FLOWSHEET), 'json');
+            const second = exportFlowsheet(buildGraph(FLOWSHEET), 'json');
+
+            expect(first).toBe(second);
+            expect(JSON.parse(first)).toEqual(exportJson(buildGraph(FLOWSHEET)));
+        });
+    });
+
+    describe('DOT', () => {
+        it('writes units with labels and streams as edges', () => {
+            const dot = exportDot(buildGraph(FLOWSHEET));
+
+            expect(dot.startsWith('digraph flowsheet {')).toBe(true);
+            expect(dot).toContain('"F-100" [label="F-100\\nFLASH\\nTEMP=350\\nPRES(BAR)=15"];');
+            expect(dot).toContain('"F-100" -> "P-1" [label="LIQ"];');
+            expect(dot).toContain('"feed:FEED1" [shape=point, label=""];');
+            expect(dot).toContain('"feed:FEED1" -> "F-100" [label="FEED1"];');
+            expect(dot).toContain('"P-1" -> "product:PUMPED" [label="PUMPED"];');
+            expect(dot.trimEnd().endsWith('}')).toBe(true);
+        });
+    });
+
+    describe('Mermaid', () => {
+        it('writes a flowchart with numbered nodes', () => {
+            const mermaid = exportMermaid(buildGraph(FLOWSHEET));
+
+            expect(mermaid.split('\n')).toEqual([
+                'flowchart LR',
+                '    U1["F-100<br/>FLASH<br/>TEMP=350<br/>PRES(BAR)=15"]',
+                '    U2["P-1<br/>PUMP"]',
+                '    IN1(("FEED1"))',
+                '    OUT2(("GAS"))',
+                '    OUT3(("PUMPED"))',
+                '    IN1 -->|"FEED1"| U1',
+                '    U1 -->|"GAS"| OUT2',
+                '    U1 -->|"LIQ"| U2',
+                '    U2 -->|"PUMPED"| OUT3',
+                ''
+            ]);
+        });
+    });
+
+    it('recognises export formats', () => {
+        expect(isExportFormat('dot')).toBe(true);
+        expect(isExportFormat('mermaid')).toBe(true);
+        expect(isExportFormat('svg')).toBe(false);
+        expect(isExportFormat(undefined)).toBe(false);
+    });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for Folding Range Provider
+ */
+
+import { FoldingRange, FoldingRangeKind } from 'vscode-languageserver/node';
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { provideFoldingRanges } from '../foldingRangeProvider';
+
+/**
+ * Folding ranges of a document as "start-end" strings (1-based lines),
+ * with the kind when there is one
+ */
+function foldingRanges(code: string): string[] {
+    const ast = new Parser(new Lexer(code).tokenize()).parse();
+    return provideFoldingRanges(ast, code.split('\n')).map(describeRange);
+}
+
+function describeRange(range: FoldingRange): string {
+    const lines = `${range.startLine + 1}-${range.endLine + 1}`;
+    return range.kind ? `${lines} ${range.kind}` : lines;
+}
+
+describe('Folding Range Provider', () => {
+    it('folds sections and unit blocks', () => {
+        const code = `COMPONENT DATA
+    LIBID 1, METHANE / 2, ETHANE
+
+STREAM DATA
+    PROP DATA=FEED, TEMP=100, PRES=200
+
+UNIT OPERATIONS
+    FLASH UID=F-1
+        FEED FEED
+        PROD V=VAP, L=LIQ
+    PUMP UID=P-1
+        FEED LIQ
+        PROD OUT
+`;
+
+        expect(foldingRanges(code)).toEqual(['1-2', '4-5', '7-13', '8-10', '11-13']);
+    });
+
+    it('folds statements continued with &', () => {
+        const code = `COMPONENT DATA
+    LIBID 1, METHANE / &
+          2, ETHANE
+
+UNIT OPERATIONS
+    COLUMN UID=C-1, NSTAGE=10
+        FEED F1, 5
+        SPEC STREAM=OVHD, RATE(M), &
+             VALUE=100
+        VARY HEAT=1
+`;
+
+        expect(foldingRanges(code)).toEqual(['1-3', '2-3', '5-10', '6-10', '8-9']);
+    });
+
+    it('folds the procedure of a CALCULATOR', () => {
+        const code = `UNIT OPERATIONS
+    CALCULATOR UID=CALC1
+        DEFINE P(1) AS STREAM=S1, TEMP
+        PROCEDURE
+        R(1) = P(1) * 2
+        RETURN
+    MIXER UID=M-1
+        FEED S1, S2
+        PROD S3
+`;
+
+        expect(foldingRanges(code)).toContain('4-6');
+        expect(foldingRanges(code)).toContain('2-6');
+    });
+
+    it('folds runs of comment lines', () => {
+        const code = `$ ==============================
+$ Refinery model
+$ ==============================
+COMPONENT DATA
+    LIBID 1, METHANE / 2, ETHANE   $ light ends
+    $ single comment
+
+    $ two comment
+    $ lines
+`;
+        const ranges = foldingRanges(code);
+
+        expect(ranges).toContain(`1-3 ${FoldingRangeKind.Comment}`);
+        expect(ranges).toContain(`8-9 ${FoldingRangeKind.Comment}`);
+        expect(ranges.filter(range => range.endsWith(FoldingRangeKind.Comment))).toHaveLength(2);
+    });
+
+    it('does not fold the END statement into the last unit', () => {
+        const code = `UNIT OPERATIONS
+    MIXER UID=M-1
+        FEED S1, S2
+        PROD S3
+END
+`;
+
+        expect(foldingRanges(code)).toEqual(['1-4', '2-4']);
+    });
+
+    it('has no ranges for single-line blocks', () => {
+        expect(foldingRanges('STREAM DATA\n')).toEqual([]);
+        expect(foldingRanges('$ one comment\n')).toEqual([]);
+    });
+});
@@ -0,0 +1,166 @@
+/**
+ * Tests for Formatting Provider
+ */
+
+import { Range, TextEdit } from 'vscode-languageserver/node';
+import { formatText, provideFormatting, provideRangeFormatting, DEFAULT_FORMAT_SETTINGS } from '../formattingProvider';
+
+const OPTIONS = { tabSize: 2, insertSpaces: true };
+
+function applyEdits(text: string, edits: TextEdit[]): string {
+    const lines = text.split('\n');
+    const offset = (line: number, character: number) =>
+        lines.slice(0, line).reduce((sum, l) => sum + l.length + 1, 0) + character;
+
+    let result = text;
+    for (const edit of [...edits].reverse()) {
+        const start = offset(edit.range.start.line, edit.range.start.character);
+        const end = offset(edit.range.end.line, edit.range.end.character);
+        result = result.slice(0, start) + edit.newText + result.slice(end);
+    }
+    return result;
+}
+
+const MESSY = `$ Test flowsheet
+component data
+libid 1, c1/2, c2/3
+stream data
+prop data=feed ,  temp = 100, pres=300
+unit operations
+flash uid=f-100
+feed feed
+     prod v=gas,l=liq  $ split
+temp=350
+nstage=10
+pres(bar) = 15
+print input=all
+`;
+
+describe('Formatting Provider', () => {
+    it('indents sub-statements, aligns = and upper-cases keywords', () => {
+        expect(formatText(MESSY)).toBe(`$ Test flowsheet
+COMPONENT DATA
+LIBID 1, c1/2, c2/3
+
+STREAM DATA
+PROP DATA=feed, TEMP=100, PRES=300
+
+UNIT OPERATIONS
+FLASH UID=f-100
+  FEED feed
+  PROD V=gas, L=liq $ split
+  TEMP     =350
+  NSTAGE   =10
+  PRES(BAR)=15
+PRINT INPUT=all
+`);
+    });
+
+    it('is idempotent', () => {
+        const once = formatText(MESSY);
+        expect(formatText(once)).toBe(once);
+    });
+
+    it('keeps comments unchanged', () => {
+        const text = `UNIT OPERATIONS
+    $   indented comment, Keep Case
+FLASH UID=F-1 % trailing Comment
+`;
+        const formatted = formatText(text);
+
+        expect(formatted).toContain('    $   indented comment, Keep Case\n');
+        expect(formatted).toContain('FLASH UID=F-1 % trailing Comment\n');
+    });
+
+    it('puts exactly one blank line between sections', () => {
+        const formatted = formatText(`
+
+COMPONENT DATA
+LIBID 1, C1
+
+
+
+$ Streams
+STREAM DATA
+PROP DATA=S1, TEMP=100
+
+
+`);
+        expect(formatted).toBe(`COMPONENT DATA
+LIBID 1, C1
+
+$ Streams
+STREAM DATA
+PROP DATA=S1, TEMP=100
+`);
+    });
+
+    it('wraps long lines at commas with & continuations', () => {
+        const names = Array.from({ length: 12 }, (_, i) => `COMPONENT${i + 1}`).join(', ');
+        const formatted = formatText(`COMPONENT DATA\nNAME ${names}\n`);
+        const lines = formatted.trimEnd().split('\n');
+
+        expect(lines.length).toBeGreaterThan(2);
+        expect(lines.every(line => line.length <= DEFAULT_FORMAT_SETTINGS.maxLineLength)).toBe(true);
+        expect(lines[1].endsWith(', &')).toBe(true);
+        expect(lines[2].startsWith('  COMPONENT')).toBe(true);
+        expect(formatText(formatted)).toBe(formatted);
+    });
+
+    it('keeps existing continuation lines', () => {
+        const text = `COMPONENT DATA
+LIBID 1, C1/2, C2/ &
+3, C3 $ propane
+`;
+        expect(formatText(text)).toBe(`COMPONENT DATA
+LIBID 1, C1/2, C2/ &
+  3, C3 $ propane
+`);
+    });
+
+    it('copies & lines with nothing to continue unchanged', () => {
+        const text = 'COMPONENT DATA\n&\nLIBID 1,C1\n';
+
+        expect(formatText(text)).toBe('COMPONENT DATA\n&\nLIBID 1, C1\n');
+        expect(provideRangeFormatting(text, Range.create(1, 0, 2, 10), OPTIONS)).toEqual([
+            TextEdit.replace(Range.create(1, 0, 3, 0), '&\nLIBID 1, C1\n')
+        ]);
+    });
+
+    it('uses the editor tab size', () => {
+        const edits = provideFormatting('UNIT OPERATIONS\nPUMP UID=P-1\nFEED A\n', { tabSize: 4, insertSpaces: true });
+
+        expect(edits.length).toBe(1);
+        expect(edits[0].newText).toBe('UNIT OPERATIONS\nPUMP UID=P-1\n    FEED A\n');
+    });
+
+    it('returns no edits for a formatted document', () => {
+        expect(provideFormatting(formatText(MESSY), OPTIONS)).toEqual([]);
+    });
+
+    it('formats only the statements in a range', () => {
+        const text = `UNIT OPERATIONS
+flash uid=f-1
+feed a
+valve uid=v-1
+feed b
+`;
+        const edits = provideRangeFormatting(text, Range.create(3, 2, 4, 1), OPTIONS);
+
+        expect(edits.length).toBe(1);
+        expect(edits[0].range).toEqual(Range.create(3, 0, 5, 0));
+        expect(applyEdits(text, edits)).toBe(`UNIT OPERATIONS
+flash uid=f-1
+feed a
+VALVE UID=v-1
+  FEED b
+`);
+    });
+
+    it('gives range formatting the same result as document formatting', () => {
+        const lines = MESSY.split('\n').length - 1;
+        const edits = provideRangeFormatting(MESSY, Range.create(0, 0, lines, 0), OPTIONS);
+
+        expect(applyEdits(MESSY, edits)).toBe(formatText(MESSY));
+    });
+});
@@ -96,6 +96,13 @@ describe('Keyword Documentation', () => {
             expect(formatted).toContain('🔧');
             expect(formatted).toContain('parameter');
         });
+
+        test('should say what replaces a deprecated keyword', () => {
+            const formatted = formatHoverDoc(getKeywordDoc('PRODUCT')!);
+
+            expect(formatted).toContain('**Deprecated:** Use PROD');
+            expect(formatHoverDoc(getKeywordDoc('PROD')!)).not.toContain('Deprecated');
+        });
     });
 
     describe('getAllKeywords', () => {
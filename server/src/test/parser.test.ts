@@ -0,0 +1,319 @@
+/**
+ * Tests for Parser positions and errors
+ */
+
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { ProgramNode, UnitOperationNode, StreamDataNode, ParameterNode, ListNode, ErrorNode } from '../ast';
+import { SymbolTable } from '../symbolTable';
+
+function parse(code: string): { ast: ProgramNode; parser: Parser } {
+    const parser = new Parser(new Lexer(code).tokenize());
+    const ast = parser.parse();
+    return { ast, parser };
+}
+
+describe('Parser', () => {
+    describe('node spans', () => {
+        const code = `STREAM DATA
+PROP DATA=S1, TEMP=100, PRES=200
+
+UNIT OPERATIONS
+FLASH UID=F-100
+  FEED S1
+  PROD V=GAS, L=LIQ
+`;
+
+        it('gives every node its start and end columns', () => {
+            const { ast } = parse(code);
+            const stream = ast.sections[0].statements[0] as StreamDataNode;
+
+            expect(stream).toMatchObject({ startLine: 2, startColumn: 1, endLine: 2, endColumn: 33 });
+            expect(stream.streamName).toMatchObject({ startLine: 2, startColumn: 11, endColumn: 13 });
+            expect(stream.parameters[1]).toMatchObject({ startColumn: 25, endColumn: 33 });
+            expect(stream.parameters[1].value).toMatchObject({ startColumn: 30, endColumn: 33 });
+        });
+
+        it('spans unit blocks across their sub-statement lines', () => {
+            const { ast } = parse(code);
+            const flash = ast.sections[1].statements[0] as UnitOperationNode;
+
+            expect(flash).toMatchObject({ startLine: 5, startColumn: 1, endLine: 7, endColumn: 20 });
+            expect(flash.uid).toMatchObject({ startLine: 5, startColumn: 11, endColumn: 16 });
+            expect(flash.productStreams[0]).toMatchObject({ startColumn: 8, endColumn: 13, streamType: 'V' });
+            expect(ast.sections[1]).toMatchObject({ startLine: 4, endLine: 7 });
+        });
+
+        it('ends lists before the next NAME=value pair', () => {
+            const { ast } = parse(`STREAM DATA
+PROP DATA=S1, TEMP=350, PRES=150, COMP=1/2/3
+`);
+            const params = (ast.sections[0].statements[0] as StreamDataNode).parameters;
+
+            expect(params.map((p: ParameterNode) => p.name.name)).toEqual(['TEMP', 'PRES', 'COMP']);
+            expect(params[0].value.type).toBe('Number');
+            const list = params[2].value as ListNode;
+            expect(list.values.length).toBe(3);
+            expect(list).toMatchObject({ separator: '/', startColumn: 40, endColumn: 45 });
+        });
+
+        it('reads the stream name after STRM=', () => {
+            const { ast, parser } = parse(`STREAM DATA
+PROP STRM=FEED, TEMP=25, PRES=10
+`);
+            const stream = ast.sections[0].statements[0] as StreamDataNode;
+
+            expect(stream.streamName).toMatchObject({ name: 'FEED', startColumn: 11, endColumn: 15 });
+            expect(stream.parameters.map((p: ParameterNode) => p.name.name)).toEqual(['TEMP', 'PRES']);
+            expect(parser.getErrors()).toEqual([]);
+        });
+
+        it('ends the last unit and section before END', () => {
+            const { ast, parser } = parse(code + 'END\n');
+            const flash = ast.sections[1].statements[0] as UnitOperationNode;
+
+            expect(flash.endLine).toBe(7);
+            expect(flash.parameters).toHaveLength(0);
+            expect(ast.sections).toHaveLength(2);
+            expect(ast.sections[1]).toMatchObject({ startLine: 4, endLine: 7 });
+            expect(parser.getErrors()).toHaveLength(0);
+        });
+    });
+
+    describe('errors', () => {
+        it('reports a missing UID name at the offending token', () => {
+            const { parser } = parse(`UNIT OPERATIONS
+FLASH UID=, TEMP=100
+`);
+            expect(parser.getErrors()).toEqual([
+                expect.objectContaining({ code: 'expected-identifier', startLine: 2, startColumn: 11, endColumn: 12 })
+            ]);
+        });
+
+        it('reports UID without an equals sign', () => {
+            const { parser } = parse(`UNIT OPERATIONS
+FLASH UID F-1
+`);
+            expect(parser.getErrors()[0]).toMatchObject({ code: 'expected-equals', startLine: 2, startColumn: 7, endColumn: 10 });
+        });
+
+        it('reports a missing stream name and keeps an empty name', () => {
+            const { ast, parser } = parse(`STREAM DATA
+PROP DATA=, TEMP=100
+`);
+            const stream = ast.sections[0].statements[0] as StreamDataNode;
+
+            expect(stream.streamName.name).toBe('');
+            expect(stream.parameters.length).toBe(1);
+            expect(parser.getErrors()[0]).toMatchObject({ code: 'expected-identifier', startLine: 2, startColumn: 11 });
+        });
+
+        it('reports a parameter without a value', () => {
+            const { parser } = parse(`STREAM DATA
+PROP DATA=S1, TEMP=
+`);
+            expect(parser.getErrors()[0]).toMatchObject({ code: 'expected-value', startLine: 2, startColumn: 20 });
+            expect(parser.getErrors()[0].message).toContain('TEMP');
+        });
+
+        it('gives errors at the end of the file a visible range', () => {
+            const { parser } = parse(`UNIT OPERATIONS
+FLASH UID=F-1
+  PROD V=`);
+            expect(parser.getErrors()[0]).toMatchObject({ code: 'expected-identifier', startLine: 3, startColumn: 10, endColumn: 11 });
+        });
+
+        it('has no errors for valid input', () => {
+            const { parser } = parse(`COMPONENT DATA
+LIBID 1, METHANE / 2, ETHANE
+`);
+            expect(parser.getErrors()).toEqual([]);
+        });
+    });
+
+    describe('error recovery', () => {
+        it('skips a bad line and parses the statements after it', () => {
+            const { ast, parser } = parse(`STREAM DATA
+PROP DATA=S1, TEMP=100
+= 5, 6
+PROP DATA=S2, TEMP=200
+`);
+            const statements = ast.sections[0].statements;
+
+            expect(statements.map(s => s.type)).toEqual(['StreamData', 'Error', 'StreamData']);
+            expect(statements[1]).toMatchObject({ startLine: 3, startColumn: 1, endLine: 3, endColumn: 7 });
+            expect(parser.getErrors()).toEqual([
+                expect.objectContaining({ code: 'unexpected-token', startLine: 3, startColumn: 1, endColumn: 7 })
+            ]);
+        });
+
+        it('reports unknown statements and resynchronises at the next statement keyword', () => {
+            const { ast, parser } = parse(`COMPONENT DATA
+LIBID 1, METHANE
+PHASE VL=1
+  2, 3
+NAME METHANE
+`);
+            const statements = ast.sections[0].statements;
+
+            expect(statements.map(s => s.type)).toEqual(['ComponentData', 'Error', 'ComponentData']);
+            expect((statements[1] as ErrorNode).message).toContain('PHASE');
+            expect(statements[1]).toMatchObject({ startLine: 3, endLine: 4 });
+            expect(parser.getErrors()[0].code).toBe('unknown-statement');
+        });
+
+        it('notes valid statements that are not modelled', () => {
+            const { ast, parser } = parse(`THERMODYNAMIC DATA
+METHOD SYSTEM=SRK, SET=SET01
+KVALUE BANK=SIMSCI
+ENTHALPY(L) SYSTEM=LK
+METHOD SYSTEM=PR, SET=SET02
+`);
+            const statements = ast.sections[0].statements;
+
+            expect(statements.map(s => s.type)).toEqual(['ThermodynamicData', 'Error', 'Error', 'ThermodynamicData']);
+            expect(parser.getErrors()).toEqual([
+                expect.objectContaining({ code: 'unmodelled-statement', message: 'KVALUE statements are not checked', startLine: 3 }),
+                expect.objectContaining({ code: 'unmodelled-statement', message: 'ENTHALPY statements are not checked', startLine: 4 })
+            ]);
+        });
+
+        it('reports tokens left over after a statement', () => {
+            const { ast, parser } = parse(`STREAM DATA
+PROP DATA=S1, TEMP=100 "x" 5
+`);
+            expect(ast.sections[0].statements[1]).toMatchObject({ type: 'Error', startColumn: 24, endColumn: 29 });
+            expect(parser.getErrors().length).toBe(1);
+        });
+
+        it('keeps the rest of a unit block after a half-typed line', () => {
+            const code = `UNIT OPERATIONS
+FLASH UID=F-1
+  FEED S1
+  = TEMP
+  PROD V=GAS, L=LIQ
+VALVE UID=V-1
+  FEED LIQ
+`;
+            const { ast, parser } = parse(code);
+            const statements = ast.sections[0].statements;
+            const flash = statements[0] as UnitOperationNode;
+
+            expect(statements.map(s => s.type)).toEqual(['UnitOperation', 'Error', 'UnitOperation']);
+            expect(flash.productStreams.map(p => p.streamName.name)).toEqual(['GAS', 'LIQ']);
+            expect(statements[1]).toMatchObject({ startLine: 4, startColumn: 3, endLine: 4, endColumn: 9 });
+            expect(parser.getErrors().length).toBe(1);
+
+            const symbolTable = new SymbolTable();
+            symbolTable.build(ast, code);
+            expect(symbolTable.getSymbol('LIQ')?.references.length).toBe(2);
+            expect(symbolTable.getSymbol('V-1')).toBeDefined();
+        });
+
+        it('records stray tokens outside sections in an OTHER section', () => {
+            const { ast, parser } = parse(`) junk
+COMPONENT DATA
+LIBID 1, METHANE
+`);
+            expect(ast.sections.map(s => s.sectionType)).toEqual(['OTHER', 'COMPONENT_DATA']);
+            expect(ast.sections[0].statements[0].type).toBe('Error');
+            expect(parser.getErrors()[0]).toMatchObject({ startLine: 1, endLine: 1, endColumn: 7 });
+        });
+
+        it('does not report unmodelled unit sub-statements or qualifiers', () => {
+            const { ast, parser } = parse(`STREAM DATA
+COMP DATA=S1, RATE(WT)=20/30/50
+
+UNIT OPERATIONS
+COLUMN UID=T-1
+  PARAM TRAY=10
+  DUTY 1, 1, -10.5
+  SPEC STREAM=OVHD, RATE=100
+`);
+            const rate = (ast.sections[0].statements[0] as StreamDataNode).parameters[0];
+
+            expect(rate.qualifier).toBe('WT');
+            expect((rate.value as ListNode).values.length).toBe(3);
+            expect(parser.getErrors()).toEqual([]);
+        });
+
+        it('reports unknown lines and stray values in a unit block', () => {
+            const { ast, parser } = parse(`UNIT OPERATIONS
+FLASH UID=F-1
+  FEED S1
+  TMEP 100
+  PROD V=GAS, L=LIQ 5
+  TEMP=100, PRES=50
+`);
+            const statements = ast.sections[0].statements;
+            const flash = statements[0] as UnitOperationNode;
+
+            expect(statements.map(s => s.type)).toEqual(['UnitOperation', 'Error', 'Error']);
+            expect(flash.parameters.map(p => p.name.name)).toEqual(['TEMP', 'PRES']);
+            expect(parser.getErrors()).toEqual([
+                expect.objectContaining({ code: 'unknown-statement', message: "Unknown FLASH statement 'TMEP'", startLine: 4 }),
+                expect.objectContaining({ code: 'unexpected-token', message: "Unexpected '5' in FLASH", startLine: 5, startColumn: 21 })
+            ]);
+        });
+
+        it('reads stream and value lists continued with &', () => {
+            const { ast, parser } = parse(`STREAM DATA
+PROP DATA=S1, COMP=0.2/0.3/ & $ light ends
+  0.5
+
+UNIT OPERATIONS
+MIXER UID=M-1
+  FEED S1, &
+       S2
+  PROD S3
+`);
+            const comp = (ast.sections[0].statements[0] as StreamDataNode).parameters[0];
+            const mixer = ast.sections[1].statements[0] as UnitOperationNode;
+
+            expect((comp.value as ListNode).values.length).toBe(3);
+            expect(mixer.feedStreams.map(s => s.streamName.name)).toEqual(['S1', 'S2']);
+            expect(parser.getErrors()).toEqual([]);
+        });
+
+        it('skips the procedure of a CALCULATOR', () => {
+            const { ast, parser } = parse(`UNIT OPERATIONS
+CALCULATOR UID=CALC1
+  DEFINE P(1) AS STREAM=S1, TEMP
+  PROCEDURE
+  R(1) = P(1) * 2
+  RETURN
+MIXER UID=M-1
+  FEED S1, S2
+`);
+            expect(ast.sections[0].statements.map(s => s.statementType)).toEqual(['CALCULATOR', 'MIXER']);
+            expect(parser.getErrors()).toEqual([]);
+        });
+
+        it('reports an unknown line between sections up to the next statement', () => {
+            const { ast, parser } = parse(`TITLE PROJECT=TEST
+COMPONET DATA
+LIBID 1, METHANE
+DIMENSION METRIC
+STREAM DATA
+PROP DATA=S1, TEMP=100
+`);
+            expect(ast.sections.map(s => s.sectionType)).toEqual(['OTHER', 'STREAM_DATA']);
+            expect(ast.sections[0].statements[0]).toMatchObject({ type: 'Error', startLine: 2, endLine: 3 });
+            expect(parser.getErrors()).toEqual([
+                expect.objectContaining({ code: 'unknown-statement', message: "Unknown statement 'COMPONET'" })
+            ]);
+        });
+
+        it('notes sections that are not modelled', () => {
+            const { ast, parser } = parse(`REACTION DATA
+SET ID=1
+UNIT OPERATIONS
+MIXER UID=M-1
+`);
+            expect(ast.sections.map(s => s.sectionType)).toEqual(['OTHER', 'UNIT_OPERATIONS']);
+            expect(parser.getErrors()).toEqual([
+                expect.objectContaining({ code: 'unmodelled-statement', message: 'REACTION DATA is not checked', endLine: 2 })
+            ]);
+        });
+    });
+});
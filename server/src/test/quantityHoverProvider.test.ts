@@ -0,0 +1,76 @@
+/**
+ * Tests for Quantity Hover Provider
+ */
+
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { SymbolTable } from '../symbolTable';
+import { createQuantityHover } from '../quantityHoverProvider';
+
+function hover(code: string, line: number, character: number): string | null {
+    const ast = new Parser(new Lexer(code).tokenize()).parse();
+    const symbolTable = new SymbolTable();
+    symbolTable.build(ast, code);
+
+    const result = createQuantityHover(ast, symbolTable, { line, character });
+    return result ? (result.contents as { value: string }).value : null;
+}
+
+const FLOWSHEET = `STREAM DATA
+PROP DATA=FEED, TEMP=350, PRES(BAR)=10, RATE(WT)=1000
+
+UNIT OPERATIONS
+FLASH UID=F-1
+  FEED FEED
+  PROD V=GAS, L=LIQ
+  DUTY=1.5
+  NSTAGE=10
+`;
+
+describe('Quantity Hover Provider', () => {
+    it('converts temperatures in the document units', () => {
+        const content = hover(FLOWSHEET, 1, 22)!;
+
+        expect(content).toContain('TEMP = 350 °F');
+        expect(content).toContain('in °F (ENGLISH units)');
+        expect(content).toContain('| °C | 176.667 |');
+        expect(content).toContain('| K | 449.817 |');
+    });
+
+    it('uses the unit from a qualifier', () => {
+        const content = hover(FLOWSHEET, 1, 36)!;
+
+        expect(content).toContain('PRES(BAR) = 10 bar');
+        expect(content).toContain('(from qualifier)');
+        expect(content).toContain('| bar *(declared)* | 10 |');
+        expect(content).toContain('| psia | 145.038 |');
+        expect(content).toContain('| kPa | 1000 |');
+    });
+
+    it('converts rates on their basis', () => {
+        const content = hover(FLOWSHEET, 1, 50)!;
+
+        expect(content).toContain('Mass rate');
+        expect(content).toContain('| lb/hr *(declared)* | 1000 |');
+        expect(content).toContain('| kg/hr | 453.592 |');
+    });
+
+    it('converts duties', () => {
+        const content = hover(FLOWSHEET, 7, 8)!;
+
+        expect(content).toContain('DUTY = 1.5 M*Btu/hr');
+        expect(content).toContain('| M*kJ/hr | 1.58258 |');
+    });
+
+    it('follows the DIMENSION statement', () => {
+        const content = hover('DIMENSION METRIC\nSTREAM DATA\nPROP DATA=FEED, TEMP=100\n', 2, 22)!;
+
+        expect(content).toContain('TEMP = 100 °C');
+        expect(content).toContain('| °F | 212 |');
+    });
+
+    it('ignores numbers without units and other words', () => {
+        expect(hover(FLOWSHEET, 8, 10)).toBeNull();
+        expect(hover(FLOWSHEET, 1, 17)).toBeNull();
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for References Provider
+ */
+
+import { SymbolTable } from '../symbolTable';
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { provideReferences } from '../referencesProvider';
+
+const URI = 'file:///test.inp';
+
+const code = `COMPONENT DATA
+LIBID 1, METHANE / 2, ETHANE
+
+STREAM DATA
+PROP DATA=S12, TEMP=100, PRES=300
+COMP DATA=S12, RATE=50/50
+
+UNIT OPERATIONS
+FLASH UID=F-100
+  FEED S12
+  PROD V=GAS, L=LIQ
+  TEMP=350, PRES=150
+COLUMN UID=C-301
+  FEED LIQ &
+       , GAS
+  SPEC STREAM=GAS, COMP=METHANE, FRAC=0.95
+  VARY UNIT=F-100, TEMP
+  DEFINE DUTY AS C-301, DUTY
+PRINT STREAM=S12 $ S12 in a comment
+`;
+
+function referencesAt(line: number, character: number, includeDeclaration = true) {
+    const lexer = new Lexer(code);
+    const parser = new Parser(lexer.tokenize());
+    const symbolTable = new SymbolTable();
+    symbolTable.build(parser.parse(), code);
+
+    const lineText = code.split('\n')[line];
+    return provideReferences(symbolTable, URI, lineText, { line, character }, includeDeclaration);
+}
+
+describe('References Provider', () => {
+    it('finds stream definitions, feeds, COMP DATA and PRINT usages', () => {
+        const locations = referencesAt(9, 8);
+        const lines = locations.map(loc => loc.range.start.line);
+
+        expect(lines).toEqual([4, 5, 9, 18]);
+        locations.forEach(loc => expect(loc.uri).toBe(URI));
+    });
+
+    it('returns exact column ranges', () => {
+        const locations = referencesAt(9, 8);
+        expect(locations[1].range).toEqual({
+            start: { line: 5, character: 10 },
+            end: { line: 5, character: 13 }
+        });
+        expect(locations[3].range.start.character).toBe(13);
+    });
+
+    it('finds stream usages in SPEC expressions and continuation lines', () => {
+        const lines = referencesAt(10, 10).map(loc => loc.range.start.line);
+        expect(lines).toEqual([10, 14, 15]);
+    });
+
+    it('finds UID usages in VARY and DEFINE statements', () => {
+        const f100 = referencesAt(8, 12).map(loc => loc.range.start.line);
+        expect(f100).toEqual([8, 16]);
+
+        const c301 = referencesAt(12, 12).map(loc => loc.range.start.line);
+        expect(c301).toEqual([12, 17]);
+    });
+
+    it('finds component usages', () => {
+        const lines = referencesAt(1, 10).map(loc => loc.range.start.line);
+        expect(lines).toEqual([1, 15]);
+    });
+
+    it('excludes the declaration when asked to', () => {
+        const lines = referencesAt(9, 8, false).map(loc => loc.range.start.line);
+        expect(lines).toEqual([9, 18]);
+    });
+
+    it('ignores comments', () => {
+        expect(referencesAt(18, 25)).toEqual([]);
+    });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for Rename Provider
+ */
+
+import { ResponseError, TextEdit, WorkspaceEdit } from 'vscode-languageserver/node';
+import { SymbolTable } from '../symbolTable';
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { prepareRename, provideRename } from '../renameProvider';
+
+const URI = 'file:///test.inp';
+
+const code = `COMPONENT DATA
+LIBID 1, METHANE / 2, ETHANE
+
+STREAM DATA
+PROP DATA=S12, TEMP=100, PRES=300 $ S12 is the feed
+
+UNIT OPERATIONS
+FLASH UID=F-100, NAME="Flash S12"
+  FEED S12
+  PROD V=GAS, L=LIQ
+VALVE UID=V-1
+  FEED LIQ
+  PROD FEED
+`;
+
+function build(): SymbolTable {
+    const lexer = new Lexer(code);
+    const parser = new Parser(lexer.tokenize());
+    const symbolTable = new SymbolTable();
+    symbolTable.build(parser.parse(), code);
+    return symbolTable;
+}
+
+function lineAt(line: number): string {
+    return code.split('\n')[line];
+}
+
+function apply(edit: WorkspaceEdit): string {
+    const lines = code.split('\n');
+    const edits = [...edit.changes![URI]].sort((a, b) =>
+        b.range.start.line - a.range.start.line || b.range.start.character - a.range.start.character
+    );
+    edits.forEach((e: TextEdit) => {
+        const line = lines[e.range.start.line];
+        lines[e.range.start.line] = line.substring(0, e.range.start.character) + e.newText + line.substring(e.range.end.character);
+    });
+    return lines.join('\n');
+}
+
+describe('Rename Provider', () => {
+    describe('prepareRename', () => {
+        it('returns the range and current name of a stream', () => {
+            const result = prepareRename(build(), lineAt(8), { line: 8, character: 8 });
+            expect(result).toEqual({
+                range: { start: { line: 8, character: 7 }, end: { line: 8, character: 10 } },
+                placeholder: 'S12'
+            });
+        });
+
+        it('rejects keywords and comments', () => {
+            const symbolTable = build();
+            expect(prepareRename(symbolTable, lineAt(8), { line: 8, character: 3 })).toBeNull();
+            expect(prepareRename(symbolTable, lineAt(4), { line: 4, character: 37 })).toBeNull();
+        });
+
+        it('handles streams named like keywords', () => {
+            const symbolTable = build();
+            expect(prepareRename(symbolTable, lineAt(12), { line: 12, character: 8 })).not.toBeNull();
+            expect(prepareRename(symbolTable, lineAt(12), { line: 12, character: 3 })).toBeNull();
+        });
+    });
+
+    describe('provideRename', () => {
+        it('renames the definition and every reference in one edit', () => {
+            const edit = provideRename(build(), URI, lineAt(8), { line: 8, character: 8 }, 'HP-GAS') as WorkspaceEdit;
+            expect(edit.changes![URI].length).toBe(2);
+
+            const result = apply(edit);
+            expect(result).toContain('PROP DATA=HP-GAS, TEMP=100, PRES=300 $ S12 is the feed');
+            expect(result).toContain('  FEED HP-GAS');
+            expect(result).toContain('NAME="Flash S12"');
+        });
+
+        it('renames unit UIDs', () => {
+            const edit = provideRename(build(), URI, lineAt(7), { line: 7, character: 11 }, 'D-100') as WorkspaceEdit;
+            expect(apply(edit)).toContain('FLASH UID=D-100');
+        });
+
+        it('refuses names of existing symbols', () => {
+            const result = provideRename(build(), URI, lineAt(8), { line: 8, character: 8 }, 'liq');
+            expect(result).toBeInstanceOf(ResponseError);
+            expect((result as ResponseError<void>).message).toContain('already used');
+        });
+
+        it('refuses reserved keywords', () => {
+            const result = provideRename(build(), URI, lineAt(8), { line: 8, character: 8 }, 'FLASH');
+            expect((result as ResponseError<void>).message).toContain('reserved');
+        });
+
+        it('refuses invalid names', () => {
+            const result = provideRename(build(), URI, lineAt(8), { line: 8, character: 8 }, 'NEW NAME');
+            expect((result as ResponseError<void>).message).toContain('not a valid');
+        });
+
+        it('allows changing only the case of a name', () => {
+            const edit = provideRename(build(), URI, lineAt(8), { line: 8, character: 8 }, 's12');
+            expect(edit).not.toBeInstanceOf(ResponseError);
+        });
+    });
+});
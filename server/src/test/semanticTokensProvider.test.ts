@@ -0,0 +1,157 @@
+/**
+ * Tests for Semantic Tokens Provider
+ */
+
+import { SemanticTokensBuilder, SemanticTokensDelta } from 'vscode-languageserver/node';
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { SymbolTable } from '../symbolTable';
+import {
+    classifyTokens, provideSemanticTokens, provideSemanticTokensDelta,
+    SEMANTIC_TOKENS_LEGEND, SemanticTokenType, SemanticTokenModifier
+} from '../semanticTokensProvider';
+
+/**
+ * Symbol table for a document
+ */
+function buildSymbolTable(code: string): SymbolTable {
+    const symbolTable = new SymbolTable();
+    symbolTable.build(new Parser(new Lexer(code).tokenize()).parse(), code);
+    return symbolTable;
+}
+
+/**
+ * Classified words of a document as "line text type modifiers" strings
+ * (1-based lines)
+ */
+function classify(code: string): string[] {
+    const lines = code.split('\n');
+    return classifyTokens(code, buildSymbolTable(code)).map(token => {
+        const text = lines[token.line].substr(token.character, token.length);
+        return [token.line + 1, text, token.type, ...token.modifiers].join(' ');
+    });
+}
+
+const DOCUMENT = `COMPONENT DATA
+    LIBID 1, METHANE / 2, ETHANE
+
+THERMODYNAMIC DATA
+    METHOD SYSTEM=SRK
+
+STREAM DATA
+    PROP DATA=FEED, TEMP(F)=100, PRES=200
+
+UNIT OPERATIONS
+    FLASH UID=F-1
+        FEED FEED, MISSING
+        PROD V=VAP, L=LIQ
+        TEMP=100, PRES=50
+    COLUMN UID=C-1
+        FEED VAP
+        SPEC STREAM=LIQ, COMP=METHANE, VALUE=0.9
+`;
+
+describe('Semantic Tokens Provider', () => {
+    describe('classifyTokens', () => {
+        const tokens = classify(DOCUMENT);
+
+        it('colours a stream named like a keyword as a stream', () => {
+            expect(tokens).toContain('8 FEED stream declaration');
+            expect(tokens).toContain('12 FEED keyword');
+            expect(tokens).toContain('12 FEED stream');
+        });
+
+        it('tells streams, units and components apart', () => {
+            expect(tokens).toContain('11 F-1 unit declaration');
+            expect(tokens).toContain('13 VAP stream declaration');
+            expect(tokens).toContain('16 VAP stream');
+            expect(tokens).toContain('2 METHANE component declaration defaultLibrary');
+            expect(tokens).toContain('17 METHANE component defaultLibrary');
+        });
+
+        it('marks streams that are used but never defined', () => {
+            expect(tokens).toContain('12 MISSING stream undefined');
+        });
+
+        it('classifies words given a value as parameters', () => {
+            expect(tokens).toContain('8 TEMP parameter');
+            expect(tokens).toContain('11 UID parameter');
+            expect(tokens).toContain('14 TEMP parameter');
+            expect(tokens).toContain('17 STREAM parameter');
+        });
+
+        it('classifies thermodynamic methods and keywords', () => {
+            expect(tokens).toContain('5 SRK thermodynamicMethod');
+            expect(tokens).toContain('5 METHOD keyword');
+            expect(tokens).toContain('11 FLASH keyword');
+            expect(tokens).toContain('1 COMPONENT keyword');
+        });
+
+        it('marks deprecated keywords', () => {
+            const code = 'UNIT OPERATIONS\n    FLASH UID=F-1\n        FEED A\n        PRODUCT V=B, L=C\n';
+
+            expect(classify(code)).toContain('4 PRODUCT keyword deprecated');
+        });
+
+        it('leaves numbers, comments and plain values to the grammar', () => {
+            const code = '$ FEED comment\nUNIT OPERATIONS\n    REACTOR UID=R-1\n        TYPE=CONVERSION, TEMP=350\n';
+            const texts = classify(code).map(token => token.split(' ')[1]);
+
+            expect(texts).toEqual(['UNIT', 'REACTOR', 'UID', 'R-1', 'TYPE', 'TEMP']);
+        });
+
+        it('does not take a stream called PR for the method', () => {
+            const code = 'STREAM DATA\n    PROP DATA=PR, TEMP=100\nUNIT OPERATIONS\n    PUMP UID=P-1\n        FEED PR\n';
+
+            expect(classify(code)).toContain('5 PR stream');
+        });
+    });
+
+    describe('provideSemanticTokens', () => {
+        it('encodes tokens relative to the previous one', () => {
+            const code = 'UNIT OPERATIONS\n    FLASH UID=F-1\n';
+            const result = provideSemanticTokens(code, buildSymbolTable(code));
+            const keyword = SEMANTIC_TOKENS_LEGEND.tokenTypes.indexOf(SemanticTokenType.KEYWORD);
+            const parameter = SEMANTIC_TOKENS_LEGEND.tokenTypes.indexOf(SemanticTokenType.PARAMETER);
+            const unit = SEMANTIC_TOKENS_LEGEND.tokenTypes.indexOf(SemanticTokenType.UNIT);
+            const declaration = 1 << SEMANTIC_TOKENS_LEGEND.tokenModifiers.indexOf(SemanticTokenModifier.DECLARATION);
+
+            expect(result.resultId).toBeDefined();
+            expect(result.data).toEqual([
+                0, 0, 4, keyword, 0, // UNIT
+                1, 4, 5, keyword, 0, // FLASH
+                0, 6, 3, parameter, 0, // UID
+                0, 4, 3, unit, declaration // F-1
+            ]);
+        });
+    });
+
+    describe('provideSemanticTokensDelta', () => {
+        it('returns edits to the previous result', () => {
+            const builder = new SemanticTokensBuilder();
+            const before = DOCUMENT;
+            const after = DOCUMENT.replace('FEED VAP', 'FEED VAP, LIQ');
+
+            const full = provideSemanticTokens(before, buildSymbolTable(before), builder);
+            const delta = provideSemanticTokensDelta(after, buildSymbolTable(after), builder, full.resultId!);
+
+            expect('edits' in delta).toBe(true);
+            const edits = (delta as SemanticTokensDelta).edits;
+            expect(edits.length).toBeGreaterThan(0);
+
+            // Applying the edits gives the full tokens of the new text
+            const data = [...full.data];
+            for (const edit of [...edits].reverse()) {
+                data.splice(edit.start, edit.deleteCount, ...(edit.data ?? []));
+            }
+            expect(data).toEqual(provideSemanticTokens(after, buildSymbolTable(after)).data);
+        });
+
+        it('returns full tokens for an unknown previous result', () => {
+            const builder = new SemanticTokensBuilder();
+            const delta = provideSemanticTokensDelta(DOCUMENT, buildSymbolTable(DOCUMENT), builder, 'stale');
+
+            expect('data' in delta).toBe(true);
+        });
+    });
+});
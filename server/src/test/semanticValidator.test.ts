@@ -0,0 +1,159 @@
+/**
+ * Tests for Semantic Validator
+ */
+
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { SymbolTable } from '../symbolTable';
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { validateSemantics, SemanticCodes } from '../semanticValidator';
+
+function validate(code: string): Diagnostic[] {
+    const ast = new Parser(new Lexer(code).tokenize()).parse();
+    const symbolTable = new SymbolTable();
+    symbolTable.build(ast, code);
+    return validateSemantics(ast, symbolTable);
+}
+
+function withCode(diagnostics: Diagnostic[], code: string): Diagnostic[] {
+    return diagnostics.filter(d => d.code === code);
+}
+
+describe('Semantic Validator', () => {
+    it('reports feeds that are never defined or produced', () => {
+        const diagnostics = validate(`STREAM DATA
+PROP DATA=FEED1, TEMP=100
+
+UNIT OPERATIONS
+FLASH UID=F-100
+  FEED FEED1, MISSING
+  PROD V=GAS, L=LIQ
+VALVE UID=V-1
+  FEED LIQ
+  PROD OUT
+`);
+        const undefinedFeeds = withCode(diagnostics, SemanticCodes.UNDEFINED_STREAM);
+
+        expect(undefinedFeeds.length).toBe(1);
+        expect(undefinedFeeds[0].severity).toBe(DiagnosticSeverity.Error);
+        expect(undefinedFeeds[0].message).toContain("'MISSING' fed to F-100");
+        expect(undefinedFeeds[0].range).toEqual({
+            start: { line: 5, character: 14 },
+            end: { line: 5, character: 21 }
+        });
+    });
+
+    it('reports streams produced by more than one unit', () => {
+        const diagnostics = validate(`UNIT OPERATIONS
+FLASH UID=F-1
+  PROD V=GAS, L=LIQ
+FLASH UID=F-2
+  PROD V=GAS2, L=LIQ
+`);
+        const duplicates = withCode(diagnostics, SemanticCodes.MULTIPLE_PRODUCERS);
+
+        expect(duplicates.length).toBe(1);
+        expect(duplicates[0].message).toContain('already produced by F-1');
+        expect(duplicates[0].range.start).toEqual({ line: 4, character: 17 });
+    });
+
+    it('reports unused products as information', () => {
+        const diagnostics = validate(`UNIT OPERATIONS
+FLASH UID=F-1
+  PROD V=GAS, L=LIQ
+PUMP UID=P-1
+  FEED LIQ
+  PROD PUMPED
+`);
+        const unused = withCode(diagnostics, SemanticCodes.UNUSED_PRODUCT);
+
+        expect(unused.map(d => d.message)).toEqual([
+            "Product 'GAS' of F-1 is not fed to any unit",
+            "Product 'PUMPED' of P-1 is not fed to any unit"
+        ]);
+        expect(unused.every(d => d.severity === DiagnosticSeverity.Information)).toBe(true);
+    });
+
+    it('reports duplicate UIDs', () => {
+        const diagnostics = validate(`UNIT OPERATIONS
+FLASH UID=F-1
+VALVE UID=f-1
+`);
+        const duplicates = withCode(diagnostics, SemanticCodes.DUPLICATE_UID);
+
+        expect(duplicates.length).toBe(1);
+        expect(duplicates[0].message).toContain('first used by FLASH on line 2');
+        expect(duplicates[0].range).toEqual({
+            start: { line: 2, character: 10 },
+            end: { line: 2, character: 13 }
+        });
+    });
+
+    it('reports unknown unit qualifiers', () => {
+        const diagnostics = validate(`STREAM DATA
+PROP DATA=FEED, TEMP(XYZ)=100, PRES(BAR)=3, RATE(WT,KG/FOO)=10
+`);
+        const units = withCode(diagnostics, SemanticCodes.UNKNOWN_UNIT);
+
+        expect(units.map(d => d.message)).toEqual([
+            "Unknown temperature unit 'XYZ' (expected F, C, K, R)",
+            "Unknown mass rate unit 'KG/FOO'"
+        ]);
+        expect(units[0].severity).toBe(DiagnosticSeverity.Warning);
+        expect(units[0].range.start).toEqual({ line: 1, character: 16 });
+    });
+
+    it('leaves qualifiers of unit parameters with a schema to the unit validator', () => {
+        const diagnostics = validate(`STREAM DATA
+PROP DATA=F1, TEMP(XYZ)=100
+
+UNIT OPERATIONS
+FLASH UID=F-1
+  FEED F1
+  PROD V=V1, L=L1
+  TEMP(KG)=100
+`);
+        const units = withCode(diagnostics, SemanticCodes.UNKNOWN_UNIT);
+
+        expect(units.map(d => d.message)).toEqual(["Unknown temperature unit 'XYZ' (expected F, C, K, R)"]);
+    });
+
+    it('accepts a connected flowsheet', () => {
+        const diagnostics = validate(`STREAM DATA
+PROP DATA=FEED, TEMP=100
+
+UNIT OPERATIONS
+FLASH UID=F-1
+  FEED FEED
+  PROD V=GAS, L=LIQ
+MIXER UID=M-1
+  FEED GAS, LIQ
+  PROD MIXED
+PUMP UID=P-1
+  FEED MIXED
+  PROD FEED
+`);
+        expect(diagnostics).toEqual([]);
+    });
+
+    it('knows the overhead and bottoms of a COLUMN', () => {
+        const diagnostics = validate(`STREAM DATA
+PROP STRM=F1, TEMP=60, PRES=15
+
+UNIT OPERATIONS
+COLUMN UID=T1
+  PARA TRAY=20
+  FEED F1, 10
+  PROD OVHD=D1,50, BTMS=B1
+VALVE UID=V1
+  FEED D1
+  PROD D2
+PUMP UID=P1
+  FEED B1
+  PROD F1
+`);
+        expect(withCode(diagnostics, SemanticCodes.UNDEFINED_STREAM)).toEqual([]);
+        expect(withCode(diagnostics, SemanticCodes.UNUSED_PRODUCT).map(d => d.message))
+            .toEqual(["Product 'D2' of V1 is not fed to any unit"]);
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for Signature Help Provider
+ */
+
+import { SignatureHelp } from 'vscode-languageserver/node';
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { provideSignatureHelp } from '../signatureHelpProvider';
+
+/**
+ * Signature help at the | in the code
+ */
+function helpAt(code: string): SignatureHelp | null {
+    const offset = code.indexOf('|');
+    const text = code.slice(0, offset) + code.slice(offset + 1);
+    const before = text.slice(0, offset).split('\n');
+    const position = { line: before.length - 1, character: before[before.length - 1].length };
+
+    return provideSignatureHelp(new Parser(new Lexer(text).tokenize()).parse(), text, position);
+}
+
+/**
+ * Text of the highlighted parameter
+ */
+function activeText(help: SignatureHelp | null): string {
+    const signature = help!.signatures[help!.activeSignature!];
+    const [start, end] = signature.parameters![help!.activeParameter!].label as [number, number];
+    return signature.label.substring(start, end);
+}
+
+const STREAMS = `COMPONENT DATA
+    LIBID 1, METHANE / 2, ETHANE
+
+STREAM DATA
+`;
+
+describe('Signature Help Provider', () => {
+    it('shows the syntax of PROP DATA statements', () => {
+        const help = helpAt(STREAMS + '    PROP DATA, |');
+
+        expect(help!.signatures[0].label).toBe('PROP DATA, STREAM=name, TEMP=t, PRES=p, RATE=r');
+        expect(activeText(help)).toBe('STREAM=name');
+    });
+
+    it('moves the active parameter past commas', () => {
+        expect(activeText(helpAt(STREAMS + '    PROP DATA, STREAM=FEED1, |'))).toBe('TEMP=t');
+        expect(activeText(helpAt(STREAMS + '    PROP DATA, STREAM=FEED1, TEMP=100, |'))).toBe('PRES=p');
+    });
+
+    it('follows parameters given by name', () => {
+        expect(activeText(helpAt(STREAMS + '    PROP DATA=FEED1, RATE=|'))).toBe('RATE=r');
+        expect(activeText(helpAt(STREAMS + '    PROP DATA=FEED1, |'))).toBe('TEMP=t');
+    });
+
+    it('shows the statement form of COMP DATA', () => {
+        const help = helpAt(STREAMS + '    COMP DATA=FEED1, RATE(M)=250, |');
+
+        expect(help!.signatures[0].label).toBe('COMP DATA, STREAM=name, RATE(M)=r1, r2, ...');
+        expect(activeText(help)).toBe('r2');
+    });
+
+    it('moves past slashes in LIBID lists', () => {
+        const help = helpAt('COMPONENT DATA\n    LIBID 1, METHANE / 2, |');
+
+        expect(help!.signatures[0].label).toBe('LIBID id, name / id, name / ...');
+        expect(help!.activeParameter).toBe(3);
+        expect(activeText(help)).toBe('name');
+    });
+
+    it('shows METHOD SYSTEM= in THERMODYNAMIC DATA', () => {
+        const help = helpAt(STREAMS + 'THERMODYNAMIC DATA\n    METHOD SYSTEM=SRK, |');
+
+        expect(help!.signatures[0].label).toBe('METHOD SYSTEM=method, SET=set');
+        expect(activeText(help)).toBe('SET=set');
+    });
+
+    it('joins the syntax lines of unit operation headers', () => {
+        const help = helpAt(STREAMS + 'UNIT OPERATIONS\n    FLASH UID=F-1, |');
+
+        expect(help!.signatures[0].label).toBe('FLASH UID=name, FEED=stream, PROD=V=vapor, L=liquid, TEMP=value, PRES=value');
+        expect(help!.signatures[0].documentation).toMatch(/^Two-phase vapor-liquid flash/);
+        expect(activeText(help)).toBe('FEED=stream');
+    });
+
+    it('follows unit headers across continuations', () => {
+        const help = helpAt(STREAMS + 'UNIT OPERATIONS\n    FLASH UID=F-1, &\n        PRES=|');
+
+        expect(activeText(help)).toBe('PRES=value');
+    });
+
+    it('documents parameters from their keyword entries', () => {
+        const help = helpAt(STREAMS + 'UNIT OPERATIONS\n    FLASH UID=F-1, |');
+        const temp = help!.signatures[0].parameters!.find(p => {
+            const [start, end] = p.label as [number, number];
+            return help!.signatures[0].label.substring(start, end) === 'TEMP=value';
+        });
+
+        expect(temp?.documentation).toBeDefined();
+    });
+
+    it('shows SPEC statements inside unit blocks', () => {
+        const help = helpAt(STREAMS + 'UNIT OPERATIONS\n    COLUMN UID=C-1\n        SPEC STREAM=OVHD, RATE(M), |');
+
+        expect(help!.signatures[0].label).toBe('SPEC STREAM=name, property, COMP=number, VALUE=value');
+        expect(activeText(help)).toBe('COMP=number');
+    });
+
+    it('ignores commas inside qualifiers', () => {
+        const help = helpAt(STREAMS + '    PROP DATA, STREAM=FEED1, TEMP(F)=100, RATE(WT,KG/HR)=|');
+
+        expect(activeText(help)).toBe('RATE=r');
+    });
+
+    it('has no help while the keyword is typed, for other statements or in comments', () => {
+        expect(helpAt(STREAMS + '    PRO|')).toBeNull();
+        expect(helpAt(STREAMS + 'UNIT OPERATIONS\n    FLASH UID=F-1\n        TEMP=|')).toBeNull();
+        expect(helpAt(STREAMS + '    $ PROP DATA, |')).toBeNull();
+    });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for Specification Analyzer
+ */
+
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { ProgramNode, UnitOperationNode } from '../ast';
+import { analyzeSpecifications, validateSpecifications, SpecificationCodes } from '../specificationAnalyzer';
+
+function parse(code: string): ProgramNode {
+    return new Parser(new Lexer(`UNIT OPERATIONS\n${code}\n`).tokenize()).parse();
+}
+
+function firstUnit(code: string): UnitOperationNode {
+    return parse(code).sections[0].statements[0] as UnitOperationNode;
+}
+
+function validate(code: string): Diagnostic[] {
+    return validateSpecifications(parse(code));
+}
+
+describe('Specification Analyzer', () => {
+    describe('analyzeSpecifications', () => {
+        it('counts the specifications of a flash', () => {
+            const analysis = analyzeSpecifications(firstUnit(`FLASH UID=F-1
+    FEED=F1
+    PROD=V, L
+    TEMP=100, PRES=50`));
+
+            expect(analysis?.status).toBe('ok');
+            expect(analysis?.rule.min).toBe(2);
+            expect(analysis?.given.map(p => p.name.name)).toEqual(['TEMP', 'PRES']);
+        });
+
+        it('counts a repeated specification once', () => {
+            const analysis = analyzeSpecifications(firstUnit(`VALVE UID=V-1
+    FEED=S1
+    PROD=S2
+    PRES=20, PRES=25`));
+
+            expect(analysis?.given).toHaveLength(1);
+            expect(analysis?.status).toBe('ok');
+        });
+
+        it('returns null for units without a specification rule', () => {
+            expect(analyzeSpecifications(firstUnit(`MIXER UID=M-1
+    FEED=S1, S2
+    PROD=S3`))).toBeNull();
+        });
+    });
+
+    describe('validateSpecifications', () => {
+        it('reports an under-specified flash on its keyword', () => {
+            const diagnostics = validate(`FLASH UID=F-1
+    FEED=F1
+    PROD=V, L
+    TEMP=100`);
+
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].code).toBe(SpecificationCodes.UNDER_SPECIFIED);
+            expect(diagnostics[0].severity).toBe(DiagnosticSeverity.Error);
+            expect(diagnostics[0].message).toMatch(
+                /^FLASH F-1 is under-specified: 1 of 2 specifications given \(TEMP\); add one of PRES, DUTY or VFRAC\. A flash has two degrees of freedom/
+            );
+            expect(diagnostics[0].range).toEqual({ start: { line: 1, character: 0 }, end: { line: 1, character: 5 } });
+        });
+
+        it('explains the rule with the keyword syntax', () => {
+            const diagnostics = validate(`FLASH UID=F-1
+    FEED=F1
+    PROD=V, L
+    DUTY=0`);
+
+            expect(diagnostics[0].message).toContain('FLASH syntax:\nFLASH UID=name');
+        });
+
+        it('reports an over-specified flash on the extra specification', () => {
+            const diagnostics = validate(`FLASH UID=F-1
+    FEED=F1
+    PROD=V, L
+    TEMP=100, PRES=50, VFRAC=0.5`);
+
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].code).toBe(SpecificationCodes.OVER_SPECIFIED);
+            expect(diagnostics[0].message).toMatch(
+                /^FLASH F-1 is over-specified: 3 specifications given \(TEMP, PRES, VFRAC\) but only 2 can be set\./
+            );
+            expect(diagnostics[0].range.start).toEqual({ line: 4, character: 23 });
+        });
+
+        it('reports a compressor with both efficiency and outlet temperature', () => {
+            const diagnostics = validate(`COMPRESSOR UID=K-1
+    FEED=V1
+    PROD=V2
+    PRES=250, EFF=75, TEMP=120`);
+
+            expect(diagnostics.map(d => d.code)).toEqual([SpecificationCodes.OVER_SPECIFIED]);
+        });
+
+        it('accepts compressors with a discharge pressure and one other specification', () => {
+            expect(validate(`COMPRESSOR UID=K-1
+    FEED=V1
+    PROD=V2
+    PRES=250, EFF=75`)).toEqual([]);
+        });
+
+        it('reports the shortfall of a flash with no specifications', () => {
+            const diagnostics = validate(`FLASH UID=F-1
+    FEED=F1
+    PROD=V, L`);
+
+            expect(diagnostics).toHaveLength(1);
+            expect(diagnostics[0].message).toMatch(
+                /^FLASH F-1 is under-specified: 0 of 2 specifications given; add 2 of TEMP, PRES, DUTY or VFRAC\./
+            );
+        });
+
+        it('leaves conflicts reported by the unit schema alone', () => {
+            // PRES with DELTA-P
+            expect(validate(`PUMP UID=P-1
+    FEED=L1
+    PROD=L2
+    PRES=200, DELTA-P=50`)).toEqual([]);
+        });
+    });
+});
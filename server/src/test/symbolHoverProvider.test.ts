@@ -3,6 +3,8 @@
  */
 
 import { SymbolTable, SymbolKind } from '../symbolTable';
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
 import { 
     createStreamHover, 
     createComponentHover, 
@@ -97,6 +99,19 @@ describe('Symbol Hover Provider', () => {
             expect(content).toContain('Used as product 1 time(s)');
         });
 
+        test('should show units from the DIMENSION statement and qualifiers', () => {
+            const code = `DIMENSION METRIC, PRES=BAR
+STREAM DATA
+PROP DATA=FEED1, TEMP(F)=100, PRES=3, RATE(WT)=500
+`;
+            symbolTable.build(new Parser(new Lexer(code).tokenize()).parse(), code);
+
+            const content = (createStreamHover(symbolTable, 'FEED1')?.contents as any).value;
+            expect(content).toContain('100 °F');
+            expect(content).toContain('3 bar');
+            expect(content).toContain('500 kg/hr');
+        });
+
         test('should return null for non-existent stream', () => {
             const hover = createStreamHover(symbolTable, 'NONEXISTENT');
             expect(hover).toBeNull();
@@ -169,6 +184,23 @@ describe('Symbol Hover Provider', () => {
         });
     });
 
+    describe('Component Library Properties', () => {
+        test('should show critical properties in the document units', () => {
+            const code = `DIMENSION SI
+COMPONENT DATA
+LIBID 1, C1
+`;
+            symbolTable.build(new Parser(new Lexer(code).tokenize()).parse(), code);
+
+            const content = (createComponentHover(symbolTable, 'C1')?.contents as any).value;
+            expect(content).toContain('| **Name** | Methane |');
+            expect(content).toContain('| **Critical Temperature** | 190.56 K |');
+            expect(content).toContain('| **Critical Pressure** | 4599 kPa |');
+            expect(content).toContain('| **Acentric Factor** | 0.011 |');
+            expect(content).toContain('| **Library ID** | METHANE |');
+        });
+    });
+
     describe('Unit Operation Hover', () => {
         test('should create hover for unit operation', () => {
             const symbol = {
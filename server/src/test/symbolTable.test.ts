@@ -5,6 +5,7 @@
 import { SymbolTable, SymbolKind } from '../symbolTable';
 import { Lexer } from '../lexer';
 import { Parser } from '../parser';
+import { ComponentDatabank } from '../componentDatabank';
 
 describe('SymbolTable', () => {
     describe('Component Data Processing', () => {
@@ -50,6 +51,29 @@ NAME METHANE, ETHANE, PROPANE
             expect(symbolTable.isDefined('ETHANE')).toBe(true);
             expect(symbolTable.isDefined('PROPANE')).toBe(true);
         });
+
+        it('looks up component properties in the databank', () => {
+            const code = `
+COMPONENT DATA
+LIBID 1, C3/2, WATER/3, MYCOMP
+`;
+            const ast = new Parser(new Lexer(code).tokenize()).parse();
+            const databank = new ComponentDatabank();
+            databank.setProjectComponents('project', [{ id: 'MYCOMP', name: 'My component', aliases: [], mw: 123.4 }]);
+
+            const symbolTable = new SymbolTable(databank);
+            symbolTable.build(ast);
+
+            expect(symbolTable.getSymbol('C3')!.metadata).toMatchObject({
+                libid: 1,
+                libraryId: 'PROPANE',
+                componentName: 'Propane',
+                formula: 'C₃H₈',
+                molecularWeight: '44.10'
+            });
+            expect(symbolTable.getSymbol('WATER')!.metadata!.tc).toBeCloseTo(647.14, 2);
+            expect(symbolTable.getSymbol('MYCOMP')!.metadata).toMatchObject({ componentName: 'My component', molecularWeight: '123.40' });
+        });
     });
     
     describe('Stream Data Processing', () => {
@@ -143,6 +167,25 @@ PROD VAPOR, LIQUID
             expect(symbolTable.isDefined('VAPOR')).toBe(true);
             expect(symbolTable.isDefined('LIQUID')).toBe(true);
         });
+
+        it('records the first unit producing a stream', () => {
+            const code = `
+UNIT OPERATIONS
+FLASH UID=F-100
+FEED FEED
+PROD VAPOR, LIQUID
+VALVE
+FEED LIQUID
+PROD FLASHED
+`;
+            const ast = new Parser(new Lexer(code).tokenize()).parse();
+            const symbolTable = new SymbolTable();
+            symbolTable.build(ast);
+
+            expect(symbolTable.getSymbol('VAPOR')?.metadata?.producedBy).toBe('F-100');
+            expect(symbolTable.getSymbol('FLASHED')?.metadata?.producedBy).toBe('VALVE');
+            expect(symbolTable.getSymbol('FEED')?.metadata?.producedBy).toBeUndefined();
+        });
     });
     
     describe('Undefined Symbols Detection', () => {
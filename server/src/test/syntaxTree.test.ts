@@ -0,0 +1,127 @@
+/**
+ * Tests for Lossless Syntax Tree
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { TokenType } from '../types';
+import { UnitOperationNode } from '../ast';
+import {
+    SyntaxNode, buildSyntaxTree, printSyntaxTree, printNodeText, getSyntaxTokens,
+    findTokenAt, findAncestor, findSyntaxNode, getLeadingComments, printTrivia
+} from '../syntaxTree';
+
+function build(text: string): SyntaxNode {
+    const tokens = new Lexer(text).tokenize();
+    const ast = new Parser(tokens).parse();
+    return buildSyntaxTree(text, ast, tokens);
+}
+
+const FLOWSHEET = `$ Feed flash
+UNIT OPERATIONS
+
+  $ Separator
+FLASH UID=F-1   $ first stage
+  FEED FEED1, &
+       RECYCLE
+  PROD V=GAS, L=LIQ
+  TEMP=100`;
+
+describe('Syntax Tree', () => {
+    describe('round trip', () => {
+        it('prints a document back unchanged', () => {
+            expect(printSyntaxTree(build(FLOWSHEET))).toBe(FLOWSHEET);
+        });
+
+        it('keeps CRLF line endings, tabs and trailing spaces', () => {
+            const text = 'COMPONENT DATA \r\n\tLIBID 1, C1  $ methane \r\n\r\n  \r\nNAME\tMETHANE\r\n';
+            expect(printSyntaxTree(build(text))).toBe(text);
+        });
+
+        it('keeps text the parser cannot understand', () => {
+            const text = 'COMPONENT DATA\nLIBID 1, C1\nPHASE ??? = \n@@\n';
+            expect(printSyntaxTree(build(text))).toBe(text);
+        });
+
+        it('handles empty and comment-only documents', () => {
+            expect(printSyntaxTree(build(''))).toBe('');
+            expect(printSyntaxTree(build('$ only a comment\n\n'))).toBe('$ only a comment\n\n');
+        });
+
+        it.each(['test.inp', 'test-undefined.inp', 'hover-demo.inp'])('prints %s unchanged', file => {
+            const text = fs.readFileSync(path.join(__dirname, '..', '..', '..', file), 'utf8');
+            expect(printSyntaxTree(build(text))).toBe(text);
+        });
+    });
+
+    describe('trivia', () => {
+        it('attaches comments and line breaks to the end of a line', () => {
+            const tree = build(FLOWSHEET);
+            const uid = findTokenAt(tree, 5, 11)!;
+
+            expect(uid.text).toBe('F-1');
+            expect(uid.trailingTrivia.map(t => t.kind)).toEqual(['whitespace', 'comment', 'newline']);
+            expect(printTrivia(uid.trailingTrivia)).toBe('   $ first stage\n');
+        });
+
+        it('attaches blank lines and comment lines to the next token', () => {
+            const tree = build(FLOWSHEET);
+            const flash = findTokenAt(tree, 5, 1)!;
+
+            expect(flash.leadingTrivia.map(t => t.kind)).toEqual(['newline', 'whitespace', 'comment', 'newline']);
+            expect(getLeadingComments(flash).map(t => t.text)).toEqual(['$ Separator']);
+        });
+
+        it('keeps continuations as trivia', () => {
+            const tree = build(FLOWSHEET);
+            const comma = findTokenAt(tree, 6, 13)!;
+
+            expect(comma.tokenType).toBe(TokenType.COMMA);
+            expect(comma.trailingTrivia.map(t => t.kind)).toEqual(['whitespace', 'continuation', 'newline']);
+            expect(getSyntaxTokens(tree).some(t => t.tokenType === TokenType.CONTINUATION)).toBe(false);
+        });
+    });
+
+    describe('structure', () => {
+        it('nests tokens under their AST nodes', () => {
+            const tree = build(FLOWSHEET);
+            const gas = findTokenAt(tree, 8, 10)!;
+            const unit = findAncestor(tree, gas, 'UnitOperation')!;
+            const stream = findAncestor(tree, gas, 'StreamReference')!;
+
+            expect(printSyntaxTree(stream)).toBe('V=GAS');
+            expect(getSyntaxTokens(unit)[0].text).toBe('FLASH');
+            expect(getSyntaxTokens(unit).map(t => t.text)).toContain('TEMP');
+        });
+
+        it('prints a node with some of its children replaced', () => {
+            const tree = build(FLOWSHEET);
+            const unit = findAncestor(tree, findTokenAt(tree, 5, 1)!, 'UnitOperation')!;
+            const recycle = (unit.node as UnitOperationNode).feedStreams[1].streamName;
+
+            expect(findSyntaxNode(tree, recycle)).toBeDefined();
+            expect(printNodeText(unit, new Map([[recycle, 'RECYC']]))).toBe(`FLASH UID=F-1   $ first stage
+  FEED FEED1, &
+       RECYC
+  PROD V=GAS, L=LIQ
+  TEMP=100`);
+        });
+
+        it('ends with the end-of-file token', () => {
+            const tokens = getSyntaxTokens(build('METHOD SRK\n\n$ end\n'));
+            const eof = tokens[tokens.length - 1];
+
+            expect(eof.tokenType).toBe(TokenType.EOF);
+            expect(printTrivia(eof.leadingTrivia)).toBe('\n$ end\n');
+        });
+    });
+
+    it('produces comment nodes in the AST', () => {
+        const ast = new Parser(new Lexer(FLOWSHEET).tokenize()).parse();
+
+        expect(ast.comments.map(c => c.text)).toEqual(['$ Feed flash', '$ Separator', '$ first stage']);
+        expect(ast.comments[2]).toMatchObject({ startLine: 5, startColumn: 17, endLine: 5, endColumn: 30 });
+    });
+});
@@ -0,0 +1,229 @@
+/**
+ * Tests for Unit Operation Validator
+ */
+
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+import { validateUnitOperations, UnitCodes } from '../unitValidator';
+import { getUnitSchema, getParameterSchema } from '../unitSchema';
+
+function validate(code: string): Diagnostic[] {
+    const ast = new Parser(new Lexer(code).tokenize()).parse();
+    return validateUnitOperations(ast, code);
+}
+
+function withCode(diagnostics: Diagnostic[], code: string): Diagnostic[] {
+    return diagnostics.filter(d => d.code === code);
+}
+
+function unitBlock(lines: string): string {
+    return `UNIT OPERATIONS\n${lines}\n`;
+}
+
+describe('Unit Schemas', () => {
+    it('looks up schemas and parameters case-insensitively', () => {
+        expect(getUnitSchema('flash')?.type).toBe('FLASH');
+        expect(getParameterSchema('Compressor', 'pres')?.required).toBe(true);
+        expect(getParameterSchema('PUMP', 'TEMP')).toBeUndefined();
+    });
+
+    it('has no schema for free-form units', () => {
+        expect(getUnitSchema('CALCULATOR')).toBeUndefined();
+    });
+});
+
+describe('Unit Operation Validator', () => {
+    it('accepts well-formed units', () => {
+        const diagnostics = validate(unitBlock(`FLASH UID=F-1, NAME="Flash Drum"
+    FEED=FEED1
+    PROD=V=VAPOR, L=LIQUID
+    TEMP=120, PRES=50
+COLUMN UID=C-1
+    NSTAGE=20, CONDENSER=TOTAL
+    FEED=VAPOR
+    PROD=D=DIST, B=BTMS
+SPLITTER UID=S-1
+    FEED=LIQUID
+    PROD=SPLIT1, SPLIT2
+    FRAC=0.6, 0.4`));
+
+        expect(diagnostics).toEqual([]);
+    });
+
+    it('reports a FLASH with neither TEMP nor DUTY', () => {
+        const diagnostics = validate(unitBlock(`FLASH UID=F-1
+    FEED=FEED1
+    PROD=VAPOR, LIQUID
+    PRES=50`));
+
+        const missing = withCode(diagnostics, UnitCodes.MISSING_PARAMETER);
+        expect(missing).toHaveLength(1);
+        expect(missing[0].message).toBe('FLASH F-1 needs one of TEMP, DUTY or VFRAC');
+        expect(missing[0].severity).toBe(DiagnosticSeverity.Error);
+        expect(missing[0].range).toEqual({ start: { line: 1, character: 0 }, end: { line: 1, character: 5 } });
+    });
+
+    it('reports required parameters', () => {
+        const diagnostics = validate(unitBlock(`COMPRESSOR UID=K-1
+    FEED=V1
+    PROD=V2
+    EFF=75`));
+
+        const missing = withCode(diagnostics, UnitCodes.MISSING_PARAMETER);
+        expect(missing.map(d => d.message)).toEqual(['COMPRESSOR K-1 is missing PRES (discharge pressure)']);
+    });
+
+    it('reports a COLUMN without a stage count', () => {
+        const diagnostics = validate(unitBlock(`COLUMN UID=C-1
+    FEED=F1
+    PROD=D, B`));
+
+        const missing = withCode(diagnostics, UnitCodes.MISSING_PARAMETER);
+        expect(missing.map(d => d.message)).toEqual(['COLUMN C-1 needs one of NSTAGE or TRAY']);
+    });
+
+    it('accepts a COLUMN with its stages, products and specifications as sub-statements', () => {
+        const diagnostics = validate(unitBlock(`COLUMN UID=T1, NAME=DEBUTANIZER
+    PARA TRAY=20, IO
+    FEED F1, 10
+    PROD OVHD=D1,50, BTMS=B1
+    CONDENSER TYPE=BUBB
+    DUTY 1, 1, -10
+    DUTY 2, 20
+    PSPEC PTOP=14, DPCOL=2
+    SPEC STREAM=D1, RATE, VALUE=50
+    SPEC RREFLUX, VALUE=2.5
+    VARY DUTY=1, 2`));
+
+        expect(diagnostics).toEqual([]);
+    });
+
+    it('reports a MIXER with two products on the extra product', () => {
+        const diagnostics = validate(unitBlock(`MIXER UID=M-1
+    FEED=S1, S2
+    PROD=MIXED, EXTRA`));
+
+        const counts = withCode(diagnostics, UnitCodes.STREAM_COUNT);
+        expect(counts).toHaveLength(1);
+        expect(counts[0].message).toBe('MIXER M-1 takes at most 1 product, found 2');
+        expect(counts[0].range.start).toEqual({ line: 3, character: 16 });
+    });
+
+    it('reports too few products', () => {
+        const diagnostics = validate(unitBlock(`SPLITTER UID=S-1
+    FEED=S1
+    PROD=ONLY`));
+
+        expect(withCode(diagnostics, UnitCodes.STREAM_COUNT).map(d => d.message))
+            .toEqual(['SPLITTER S-1 needs at least 2 products, found 1']);
+    });
+
+    it('reports unknown parameters with suggestions', () => {
+        const diagnostics = validate(unitBlock(`FLASH UID=F-1
+    FEED=F1
+    PROD=V, L
+    TEMPP=120, COLOR=3`));
+
+        const unknown = withCode(diagnostics, UnitCodes.UNKNOWN_PARAMETER);
+        expect(unknown.map(d => d.message)).toEqual([
+            "Unknown parameter 'TEMPP' for FLASH. Did you mean 'TEMP'?",
+            "Unknown parameter 'COLOR' for FLASH"
+        ]);
+        expect(unknown[0].severity).toBe(DiagnosticSeverity.Warning);
+        expect(unknown[0].range).toEqual({ start: { line: 4, character: 4 }, end: { line: 4, character: 9 } });
+    });
+
+    it('reports mutually exclusive parameters on the later one', () => {
+        const diagnostics = validate(unitBlock(`PUMP UID=P-1
+    FEED=L1
+    PROD=L2
+    PRES=200
+    DELTA-P=50`));
+
+        const conflicts = withCode(diagnostics, UnitCodes.CONFLICTING_PARAMETERS);
+        expect(conflicts).toHaveLength(1);
+        expect(conflicts[0].message).toBe('DELTA-P conflicts with PRES (line 5); PUMP P-1 takes only one of PRES, DELTA-P or HEAD');
+        expect(conflicts[0].range.start.line).toBe(5);
+    });
+
+    it('reports parameters given twice', () => {
+        const diagnostics = validate(unitBlock(`VALVE UID=V-1
+    FEED=S1
+    PROD=S2
+    PRES=25, PRES=30`));
+
+        expect(withCode(diagnostics, UnitCodes.CONFLICTING_PARAMETERS).map(d => d.message))
+            .toEqual(['PRES is given more than once for VALVE V-1 (first on line 5)']);
+    });
+
+    it('checks value types, enumerations and ranges', () => {
+        const diagnostics = validate(unitBlock(`COLUMN UID=C-1
+    NSTAGE=12.5, REFLUX=-1
+    FEED=F1
+    PROD=D, B
+REACTOR UID=R-1
+    TYPE=BATCH
+    FEED=F2
+    PROD=P2
+FLASH UID=F-1
+    FEED=F3
+    PROD=V, L
+    VFRAC=1.5, TEMP=HOT`));
+
+        expect(withCode(diagnostics, UnitCodes.INVALID_VALUE).map(d => d.message)).toEqual([
+            'NSTAGE of COLUMN C-1 must be a whole number, not 12.5',
+            'REFLUX of COLUMN C-1 must be at least 0, not -1',
+            "TYPE of REACTOR R-1 must be one of CONVERSION, EQUILIBRIUM, GIBBS, PLUG, CSTR, not 'BATCH'",
+            'VFRAC of FLASH F-1 must be at most 1, not 1.5',
+            'TEMP of FLASH F-1 must be a single number'
+        ]);
+    });
+
+    it('checks unit qualifiers against the parameter quantity', () => {
+        const diagnostics = validate(unitBlock(`FLASH UID=F-1
+    FEED=F1
+    PROD=V, L
+    TEMP(KG)=100, PRES(BAR)=5
+PUMP UID=P-1
+    FEED=F2
+    PROD=P2
+    DELTA-P(C)=3`));
+        const units = withCode(diagnostics, UnitCodes.UNKNOWN_UNIT);
+
+        expect(units.map(d => d.message)).toEqual([
+            "Unknown temperature unit 'KG' for TEMP of FLASH F-1",
+            "Unknown pressure unit 'C' for DELTA-P of PUMP P-1"
+        ]);
+        expect(units[0].severity).toBe(DiagnosticSeverity.Warning);
+        expect(units[0].range.start).toEqual({ line: 4, character: 4 });
+    });
+
+    it('ignores parameters of sub-statements', () => {
+        const diagnostics = validate(unitBlock(`COLUMN UID=C-1
+    NSTAGE=20
+    FEED=F1
+    PROD=D, B
+    SPEC STREAM=D, RATE=100, &
+        VALUE=50
+    VARY DUTY=1`));
+
+        expect(withCode(diagnostics, UnitCodes.UNKNOWN_PARAMETER)).toEqual([]);
+    });
+
+    it('counts sub-statement parameters as specifications', () => {
+        const diagnostics = validate(unitBlock(`FLASH UID=F-1
+    FEED=F1
+    PROD=V, L
+    ISO TEMP=100, PRES=20`));
+
+        expect(withCode(diagnostics, UnitCodes.MISSING_PARAMETER)).toEqual([]);
+    });
+
+    it('does not check units without a schema', () => {
+        const diagnostics = validate(unitBlock(`CALCULATOR UID=CALC-1
+    ANYTHING=1`));
+
+        expect(diagnostics).toEqual([]);
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for Units of Measure
+ */
+
+import { Lexer } from '../lexer';
+import {
+    readDimensions, getDimensionSet, getParameterUnit, getSystemUnit,
+    parseUnit, findUnit, convert, formatQuantity
+} from '../units';
+
+function dimensions(code: string) {
+    return readDimensions(new Lexer(code).tokenize());
+}
+
+describe('Units of Measure', () => {
+    describe('readDimensions', () => {
+        it('defaults to English units', () => {
+            const system = dimensions('TITLE PROJECT=TEST\nCOMPONENT DATA\nLIBID 1, C1\n');
+
+            expect(system.base).toBe('ENGLISH');
+            expect(system.units.temperature.name).toBe('F');
+            expect(system.units.pressure.name).toBe('PSIA');
+        });
+
+        it('reads the dimension set and overrides', () => {
+            const system = dimensions('DIMENSION METRIC, PRES=BAR, &\n  TEMP=K\n');
+
+            expect(system.base).toBe('METRIC');
+            expect(system.units.pressure.name).toBe('BAR');
+            expect(system.units.temperature.name).toBe('K');
+            expect(system.units.mass.name).toBe('KG');
+        });
+
+        it('ignores unknown overrides', () => {
+            const system = dimensions('DIMENSION SI, TEMP=XYZ\n');
+
+            expect(system.units.temperature.name).toBe('K');
+        });
+    });
+
+    describe('getParameterUnit', () => {
+        const english = getDimensionSet('ENGLISH');
+
+        it('uses the unit system without a qualifier', () => {
+            expect(getParameterUnit(english, 'TEMP')!.unit.name).toBe('F');
+            expect(getParameterUnit(english, 'RATE')).toMatchObject({ kind: 'moleRate', unit: { label: 'lb-mol/hr' } });
+            expect(getParameterUnit(english, 'NSTAGE')).toBeUndefined();
+        });
+
+        it('reads unit qualifiers', () => {
+            expect(getParameterUnit(english, 'TEMP', 'C')!.unit.label).toBe('°C');
+            expect(getParameterUnit(english, 'PRES', 'bar')!.unit.name).toBe('BAR');
+        });
+
+        it('reads rate bases and units', () => {
+            expect(getParameterUnit(english, 'RATE', 'WT')).toMatchObject({ kind: 'massRate', unit: { label: 'lb/hr' } });
+            expect(getParameterUnit(english, 'RATE', 'WT,KG/HR')).toMatchObject({ kind: 'massRate', unit: { name: 'KG/HR' } });
+            expect(getParameterUnit(english, 'RATE', 'LV')!.unit.label).toBe('ft³/hr');
+        });
+
+        it('reports unknown units', () => {
+            const resolved = getParameterUnit(english, 'TEMP', 'XYZ')!;
+
+            expect(resolved.error).toBe("Unknown temperature unit 'XYZ'");
+            expect(resolved.unit.name).toBe('F');
+            expect(getParameterUnit(english, 'RATE', 'WT,KG/FOO')!.error).toBe("Unknown mass rate unit 'KG/FOO'");
+        });
+    });
+
+    describe('conversion', () => {
+        it('converts temperatures with offsets', () => {
+            const boiling = convert({ value: 212, unit: findUnit('F', 'temperature')! }, findUnit('C', 'temperature')!);
+
+            expect(boiling.value).toBeCloseTo(100, 6);
+            expect(formatQuantity(boiling)).toBe('100 °C');
+        });
+
+        it('converts gauge and absolute pressures', () => {
+            const gauge = convert({ value: 0, unit: findUnit('PSIG', 'pressure')! }, findUnit('PSIA', 'pressure')!);
+
+            expect(gauge.value).toBeCloseTo(14.696, 3);
+        });
+
+        it('converts rates', () => {
+            const rate = convert({ value: 1, unit: parseUnit('KG/SEC', 'massRate')! }, parseUnit('KG/HR', 'massRate')!);
+
+            expect(rate.value).toBeCloseTo(3600, 6);
+        });
+
+        it('labels duties in millions of energy per time', () => {
+            expect(getSystemUnit(getDimensionSet('ENGLISH'), 'duty').label).toBe('M*Btu/hr');
+            expect(getSystemUnit(getDimensionSet('SI'), 'moleRate').label).toBe('kg-mol/hr');
+        });
+    });
+});
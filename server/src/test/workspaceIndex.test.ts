@@ -0,0 +1,154 @@
+/**
+ * Tests for Workspace Index
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { SymbolKind } from 'vscode-languageserver/node';
+import { WorkspaceIndex, fuzzyScore, isIndexedFile } from '../workspaceIndex';
+import { SymbolTable } from '../symbolTable';
+import { Lexer } from '../lexer';
+import { Parser } from '../parser';
+
+const PLANT_A = `STREAM DATA
+PROP DATA=FEED-1, TEMP=100
+
+UNIT OPERATIONS
+COLUMN UID=C-301
+  FEED FEED-1
+  PROD D=OVHD, B=BTMS
+`;
+
+const PLANT_B = `COMPONENT DATA
+LIBID 1, METHANE / 2, ETHANE
+
+UNIT OPERATIONS
+FLASH UID=C-302
+  FEED OVHD
+  PROD V=GAS, L=LIQ
+`;
+
+describe('Workspace Index', () => {
+    describe('fuzzyScore', () => {
+        it('matches characters in order', () => {
+            expect(fuzzyScore('C301', 'C-301')).not.toBeNull();
+            expect(fuzzyScore('c3', 'C-301')).not.toBeNull();
+            expect(fuzzyScore('301C', 'C-301')).toBeNull();
+        });
+
+        it('ranks exact and prefix matches first', () => {
+            const exact = fuzzyScore('FEED', 'FEED')!;
+            const prefix = fuzzyScore('FEED', 'FEED-1')!;
+            const scattered = fuzzyScore('FEED', 'FRESH-FEED')!;
+            expect(exact).toBeGreaterThan(prefix);
+            expect(prefix).toBeGreaterThan(scattered);
+        });
+
+        it('matches everything for an empty query', () => {
+            expect(fuzzyScore('', 'ANY')).toBe(0);
+        });
+    });
+
+    describe('isIndexedFile', () => {
+        it('accepts PRO/II input files only', () => {
+            expect(isIndexedFile('case1.inp')).toBe(true);
+            expect(isIndexedFile('CASE1.P2I')).toBe(true);
+            expect(isIndexedFile('case1.out')).toBe(false);
+        });
+    });
+
+    describe('search', () => {
+        it('finds which file defines a unit', () => {
+            const index = new WorkspaceIndex();
+            index.indexText('file:///plant/a.inp', PLANT_A);
+            index.indexText('file:///plant/b.inp', PLANT_B);
+
+            const results = index.search('C-301');
+            expect(results[0].name).toBe('C-301');
+            expect(results[0].kind).toBe(SymbolKind.Class);
+            expect(results[0].containerName).toBe('COLUMN');
+            expect(results[0].location.uri).toBe('file:///plant/a.inp');
+            expect(results[0].location.range.start).toEqual({ line: 4, character: 11 });
+        });
+
+        it('returns streams and components from all files', () => {
+            const index = new WorkspaceIndex();
+            index.indexText('file:///plant/a.inp', PLANT_A);
+            index.indexText('file:///plant/b.inp', PLANT_B);
+
+            const names = index.search('').map(s => s.name);
+            expect(names).toEqual(expect.arrayContaining(['FEED-1', 'OVHD', 'METHANE', 'C-302']));
+            expect(index.search('meth')[0].kind).toBe(SymbolKind.Constant);
+        });
+
+        it('limits the number of results', () => {
+            const index = new WorkspaceIndex();
+            index.indexText('file:///plant/a.inp', PLANT_A);
+            expect(index.search('', 2).length).toBe(2);
+        });
+    });
+
+    describe('open documents', () => {
+        function buildSymbolTable(code: string): SymbolTable {
+            const parser = new Parser(new Lexer(code).tokenize());
+            const symbolTable = new SymbolTable();
+            symbolTable.build(parser.parse(), code);
+            return symbolTable;
+        }
+
+        it('prefers the open document over its contents on disk', () => {
+            const index = new WorkspaceIndex();
+            index.updateDocument('file:///plant/a.inp', buildSymbolTable(PLANT_B));
+            expect(index.indexText('file:///plant/a.inp', PLANT_A)).toBe(false);
+
+            expect(index.search('C-301').length).toBe(0);
+            expect(index.search('C-302').length).toBe(1);
+        });
+
+        it('removes documents', () => {
+            const index = new WorkspaceIndex();
+            index.indexText('file:///plant/a.inp', PLANT_A);
+            index.removeDocument('file:///plant/a.inp');
+            expect(index.getStats()).toEqual({ files: 0, symbols: 0 });
+        });
+    });
+
+    describe('indexFolder', () => {
+        let root: string;
+
+        beforeEach(() => {
+            root = fs.mkdtempSync(path.join(os.tmpdir(), 'proii-index-'));
+            fs.mkdirSync(path.join(root, 'cases'));
+            fs.mkdirSync(path.join(root, 'node_modules'));
+            fs.writeFileSync(path.join(root, 'a.inp'), PLANT_A);
+            fs.writeFileSync(path.join(root, 'cases', 'b.p2i'), PLANT_B);
+            fs.writeFileSync(path.join(root, 'cases', 'notes.txt'), 'FLASH UID=X-1');
+            fs.writeFileSync(path.join(root, 'node_modules', 'c.inp'), PLANT_B);
+        });
+
+        afterEach(() => {
+            fs.rmSync(root, { recursive: true, force: true });
+        });
+
+        it('indexes PRO/II files in nested folders', async () => {
+            const index = new WorkspaceIndex();
+            const count = await index.indexFolder(root);
+
+            expect(count).toBe(2);
+            const unit = index.search('C-302')[0];
+            expect(unit.location.uri).toBe(pathToFileURL(path.join(root, 'cases', 'b.p2i')).toString());
+        });
+
+        it('falls back to disk contents when a document is closed', async () => {
+            const index = new WorkspaceIndex();
+            const uri = pathToFileURL(path.join(root, 'a.inp')).toString();
+            index.updateDocument(uri, new SymbolTable());
+            expect(index.search('C-301').length).toBe(0);
+
+            await index.closeDocument(uri);
+            expect(index.search('C-301').length).toBe(1);
+        });
+    });
+});
@@ -154,3 +154,21 @@ export const KEYWORDS: Map<string, TokenType> = new Map([
     ['PR', TokenType.PR],
     ['NRTL', TokenType.NRTL],
 ]);
+
+/**
+ * Token types that start a unit operation in the UNIT OPERATIONS section
+ */
+export const UNIT_OPERATION_TYPES: Set<TokenType> = new Set([
+    TokenType.FLASH,
+    TokenType.COLUMN,
+    TokenType.HCURVE,
+    TokenType.HX,
+    TokenType.COMPRESSOR,
+    TokenType.PUMP,
+    TokenType.MIXER,
+    TokenType.SPLITTER,
+    TokenType.VALVE,
+    TokenType.REACTOR,
+    TokenType.CALCULATOR,
+    TokenType.STCALC
+]);
@@ -0,0 +1,239 @@
+/**
+ * Unit Operation Schemas for PRO/II Language Server
+ * Declares, per unit type, the parameters a unit accepts (value types,
+ * units, enumerations, ranges), which are required, which exclude each
+ * other, and how many feeds and products it takes
+ */
+
+import { QuantityKind } from './units';
+
+/**
+ * Kinds of parameter values
+ */
+export type ValueType =
+    | 'number' // 350
+    | 'integer' // 20
+    | 'numbers' // 0.6 or 0.6, 0.4
+    | 'word' // CONVERSION
+    | 'text'; // "Feed Heater" or FEED-HEATER
+
+/**
+ * A parameter accepted by a unit operation
+ */
+export interface ParameterSchema {
+    name: string;
+    type: ValueType;
+    description: string;
+    quantity?: QuantityKind; // Units of the value, from the qualifier or DIMENSION
+    values?: string[]; // Allowed words
+    min?: number;
+    max?: number;
+    required?: boolean;
+}
+
+/**
+ * Limits on the number of feed or product streams
+ */
+export interface StreamCount {
+    min?: number;
+    max?: number;
+}
+
+/**
+ * Degrees of freedom of a unit: how many of its specification parameters
+ * must be given once its feeds are known
+ */
+export interface SpecificationRule {
+    parameters: string[];
+    min: number;
+    max: number;
+    reason: string;
+}
+
+/**
+ * Schema of a unit operation type
+ */
+export interface UnitSchema {
+    type: string;
+    parameters: ParameterSchema[];
+    oneOf?: string[][]; // At least one parameter of each group is required
+    exclusive?: string[][]; // At most one parameter of each group may be given
+    feeds?: StreamCount;
+    products?: StreamCount;
+    specifications?: SpecificationRule;
+}
+
+const NAME: ParameterSchema = { name: 'NAME', type: 'text', description: 'Descriptive name' };
+
+const TEMP: ParameterSchema = { name: 'TEMP', type: 'number', quantity: 'temperature', description: 'Outlet temperature' };
+const PRES: ParameterSchema = { name: 'PRES', type: 'number', quantity: 'pressure', min: 0, description: 'Outlet pressure' };
+const DUTY: ParameterSchema = { name: 'DUTY', type: 'number', quantity: 'duty', description: 'Heat duty' };
+const DELTA_P: ParameterSchema = { name: 'DELTA-P', type: 'number', quantity: 'pressure', description: 'Pressure change' };
+const EFF: ParameterSchema = { name: 'EFF', type: 'number', min: 0, max: 100, description: 'Efficiency' };
+
+/**
+ * Schemas by unit type. CALCULATOR has free-form procedure statements and
+ * is not checked.
+ */
+export const UNIT_SCHEMAS: Map<string, UnitSchema> = new Map([
+    ['FLASH', {
+        type: 'FLASH',
+        parameters: [
+            NAME, TEMP, PRES, DUTY,
+            { name: 'VFRAC', type: 'number', min: 0, max: 1, description: 'Vapor fraction' }
+        ],
+        oneOf: [['TEMP', 'DUTY', 'VFRAC']],
+        specifications: {
+            parameters: ['TEMP', 'PRES', 'DUTY', 'VFRAC'],
+            min: 2,
+            max: 2,
+            reason: 'A flash has two degrees of freedom once its feed is known, e.g. TEMP and PRES for an isothermal flash or DUTY and PRES for an adiabatic one.'
+        },
+        feeds: { min: 1 },
+        products: { min: 1, max: 3 }
+    }],
+
+    ['COLUMN', {
+        type: 'COLUMN',
+        parameters: [
+            NAME, TEMP, PRES, DUTY,
+            { name: 'NSTAGE', type: 'integer', min: 2, description: 'Number of stages' },
+            { name: 'REFLUX', type: 'number', min: 0, description: 'Reflux ratio' },
+            { name: 'CONDENSER', type: 'word', values: ['TOTAL', 'PARTIAL', 'MIXED', 'BUBB', 'TFIX'], description: 'Condenser type' },
+            { name: 'REBOILER', type: 'word', values: ['KETTLE', 'THERMOSIPHON'], description: 'Reboiler type' }
+        ],
+        oneOf: [['NSTAGE', 'TRAY']], // TRAY of the PARA sub-statement
+        feeds: { min: 1 },
+        products: { min: 1 }
+    }],
+
+    ['HX', {
+        type: 'HX',
+        parameters: [
+            NAME, TEMP, PRES, DUTY,
+            { name: 'DELTA-T', type: 'number', description: 'Temperature change' },
+            { name: 'AREA', type: 'number', min: 0, description: 'Heat transfer area' },
+            { name: 'U', type: 'number', min: 0, description: 'Overall heat transfer coefficient' }
+        ],
+        exclusive: [['DUTY', 'TEMP', 'DELTA-T']],
+        feeds: { min: 1, max: 2 },
+        products: { min: 1, max: 2 }
+    }],
+
+    ['HCURVE', {
+        type: 'HCURVE',
+        parameters: [
+            NAME, TEMP, PRES, DUTY,
+            { name: 'PROFILE', type: 'word', description: 'Heating or cooling profile' }
+        ],
+        feeds: { min: 1 },
+        products: { max: 1 }
+    }],
+
+    ['COMPRESSOR', {
+        type: 'COMPRESSOR',
+        parameters: [
+            NAME, TEMP, DUTY, EFF,
+            { ...PRES, required: true, description: 'Discharge pressure' },
+            { name: 'TYPE', type: 'word', values: ['ADIABATIC', 'POLYTROPIC', 'ISENTROPIC'], description: 'Compression model' }
+        ],
+        specifications: {
+            parameters: ['PRES', 'EFF', 'TEMP', 'DUTY'],
+            min: 1,
+            max: 2,
+            reason: 'A compressor takes its discharge pressure plus at most one of EFF, TEMP or DUTY; the others follow from it.'
+        },
+        feeds: { min: 1 },
+        products: { min: 1, max: 1 }
+    }],
+
+    ['PUMP', {
+        type: 'PUMP',
+        parameters: [
+            NAME, EFF, DELTA_P,
+            { ...PRES, description: 'Discharge pressure' },
+            { name: 'HEAD', type: 'number', min: 0, description: 'Pump head' }
+        ],
+        oneOf: [['PRES', 'DELTA-P', 'HEAD']],
+        exclusive: [['PRES', 'DELTA-P', 'HEAD']],
+        specifications: {
+            parameters: ['PRES', 'DELTA-P', 'HEAD'],
+            min: 1,
+            max: 1,
+            reason: 'A pump has one degree of freedom: its discharge pressure, pressure rise or head.'
+        },
+        feeds: { min: 1 },
+        products: { min: 1, max: 1 }
+    }],
+
+    ['MIXER', {
+        type: 'MIXER',
+        parameters: [NAME, TEMP, PRES],
+        feeds: { min: 1 },
+        products: { min: 1, max: 1 }
+    }],
+
+    ['SPLITTER', {
+        type: 'SPLITTER',
+        parameters: [
+            NAME,
+            { name: 'FRAC', type: 'numbers', min: 0, max: 1, description: 'Split fractions' },
+            { name: 'RATE', type: 'numbers', quantity: 'moleRate', min: 0, description: 'Product rates' }
+        ],
+        exclusive: [['FRAC', 'RATE']],
+        feeds: { min: 1 },
+        products: { min: 2 }
+    }],
+
+    ['VALVE', {
+        type: 'VALVE',
+        parameters: [NAME, DELTA_P, PRES],
+        oneOf: [['PRES', 'DELTA-P']],
+        exclusive: [['PRES', 'DELTA-P']],
+        specifications: {
+            parameters: ['PRES', 'DELTA-P'],
+            min: 1,
+            max: 1,
+            reason: 'A valve expands its feed at constant enthalpy, so only its outlet pressure or pressure drop is free.'
+        },
+        feeds: { min: 1 },
+        products: { min: 1, max: 2 }
+    }],
+
+    ['REACTOR', {
+        type: 'REACTOR',
+        parameters: [
+            NAME, TEMP, PRES, DUTY,
+            { name: 'TYPE', type: 'word', values: ['CONVERSION', 'EQUILIBRIUM', 'GIBBS', 'PLUG', 'CSTR'], description: 'Reactor model' },
+            { name: 'REACTION', type: 'word', description: 'Reaction set' }
+        ],
+        exclusive: [['TEMP', 'DUTY']],
+        feeds: { min: 1 },
+        products: { min: 1 }
+    }],
+
+    ['STCALC', {
+        type: 'STCALC',
+        parameters: [
+            NAME, TEMP, PRES,
+            { name: 'STREAM', type: 'word', description: 'Stream to calculate' },
+            { name: 'PROPERTY', type: 'word', description: 'Property to calculate' },
+            { name: 'VALUE', type: 'number', description: 'Property value' }
+        ]
+    }]
+]);
+
+/**
+ * Get the schema of a unit type
+ */
+export function getUnitSchema(unitType: string): UnitSchema | undefined {
+    return UNIT_SCHEMAS.get(unitType.toUpperCase());
+}
+
+/**
+ * Get the schema of one of a unit type's parameters
+ */
+export function getParameterSchema(unitType: string, name: string): ParameterSchema | undefined {
+    const upperName = name.toUpperCase();
+    return getUnitSchema(unitType)?.parameters.find(param => param.name === upperName);
+}
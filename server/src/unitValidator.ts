@@ -0,0 +1,333 @@
+/**
+ * Unit Operation Validator for PRO/II Language Server
+ * Checks unit operations against their schemas: unknown parameters,
+ * missing or conflicting specifications, invalid values and the number
+ * of feeds and products
+ */
+
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver/node';
+import { ProgramNode, UnitOperationNode, ParameterNode, ValueNode } from './ast';
+import { createDiagnostic, spanToRange, splitLines } from './documentUtils';
+import { getUnitSchema, ParameterSchema, UnitSchema } from './unitSchema';
+import { suggestNames } from './componentValidator';
+import { formatValue, getDimensionSet, getQuantityUnit } from './units';
+
+/**
+ * Diagnostic codes reported by the unit operation validator
+ */
+export const UnitCodes = {
+    UNKNOWN_PARAMETER: 'unknown-parameter',
+    MISSING_PARAMETER: 'missing-parameter',
+    CONFLICTING_PARAMETERS: 'conflicting-parameters',
+    INVALID_VALUE: 'invalid-value',
+    UNKNOWN_UNIT: 'unknown-unit',
+    STREAM_COUNT: 'stream-count'
+} as const;
+
+/**
+ * Words that start a unit's own lines rather than a sub-statement
+ */
+const UNIT_LINE_WORDS = new Set(['UID', 'FEED', 'PROD', 'PRODUCT']);
+
+/**
+ * Run all unit operation checks on a parsed document
+ */
+export function validateUnitOperations(ast: ProgramNode, text: string): Diagnostic[] {
+    const lines = splitLines(text);
+    const diagnostics: Diagnostic[] = [];
+
+    for (const unit of getUnitOperations(ast)) {
+        const schema = getUnitSchema(unit.statementType);
+        if (!schema) continue;
+
+        // Parameters of sub-statements (SPEC STREAM=..., VALUE=...) belong
+        // to the sub-statement, not the unit
+        const parameters = unit.parameters.filter(param => !isSubStatementLine(lines, param.startLine));
+
+        diagnostics.push(
+            ...checkParameters(unit, schema, parameters),
+            ...checkQualifiers(unit, schema),
+            ...checkMissingParameters(unit, schema),
+            ...checkConflictingParameters(unit, schema, parameters),
+            ...checkStreamCounts(unit, schema)
+        );
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Unknown parameters and values of the wrong type, enumeration or range
+ */
+function checkParameters(unit: UnitOperationNode, schema: UnitSchema, parameters: ParameterNode[]): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const names = schema.parameters.map(param => param.name);
+
+    for (const param of parameters) {
+        const name = param.name.name.toUpperCase();
+        const paramSchema = schema.parameters.find(p => p.name === name);
+
+        if (!paramSchema) {
+            const suggestions = suggestNames(name, names);
+            const hint = suggestions.length > 0
+                ? `. Did you mean ${suggestions.map(s => `'${s}'`).join(', ')}?`
+                : '';
+            diagnostics.push(createDiagnostic(
+                spanToRange(param.name),
+                DiagnosticSeverity.Warning,
+                UnitCodes.UNKNOWN_PARAMETER,
+                `Unknown parameter '${param.name.name}' for ${unit.statementType}${hint}`
+            ));
+            continue;
+        }
+
+        const problem = checkValue(paramSchema, param.value);
+        if (problem) {
+            diagnostics.push(createDiagnostic(
+                spanToRange(param.value),
+                DiagnosticSeverity.Error,
+                UnitCodes.INVALID_VALUE,
+                `${name} of ${describeUnit(unit)} ${problem}`
+            ));
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Qualifiers that name no unit of the parameter's quantity, e.g. TEMP(KG)=
+ */
+function checkQualifiers(unit: UnitOperationNode, schema: UnitSchema): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    // Only the qualifier is checked, so any unit system will do
+    const system = getDimensionSet('ENGLISH');
+
+    for (const param of unit.parameters) {
+        const paramSchema = schema.parameters.find(p => p.name === param.name.name.toUpperCase());
+        if (!param.qualifier || !paramSchema?.quantity) continue;
+
+        const { error } = getQuantityUnit(system, paramSchema.quantity, param.qualifier);
+        if (error) {
+            diagnostics.push(createDiagnostic(
+                spanToRange(param),
+                DiagnosticSeverity.Warning,
+                UnitCodes.UNKNOWN_UNIT,
+                `${error} for ${paramSchema.name} of ${describeUnit(unit)}`
+            ));
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Describe what is wrong with a value, or return null if it is valid
+ */
+function checkValue(schema: ParameterSchema, value: ValueNode): string | null {
+    switch (schema.type) {
+        case 'number':
+        case 'integer':
+            if (value.type !== 'Number') return `must be a single number`;
+            if (schema.type === 'integer' && !Number.isInteger(value.value)) return `must be a whole number, not ${value.raw}`;
+            return checkRange(schema, [value.value]);
+
+        case 'numbers': {
+            const items = value.type === 'List' ? value.values : [value];
+            if (!items.every(item => item.type === 'Number')) return `must be a list of numbers`;
+            return checkRange(schema, items.map(item => (item as { value: number }).value));
+        }
+
+        case 'word':
+            if (value.type !== 'Identifier') return `must be a keyword`;
+            if (schema.values && !schema.values.includes(value.name.toUpperCase())) {
+                return `must be one of ${schema.values.join(', ')}, not '${value.name}'`;
+            }
+            return null;
+
+        case 'text':
+            return value.type === 'List' ? `must be a single name` : null;
+    }
+}
+
+/**
+ * Check numbers against a parameter's minimum and maximum
+ */
+function checkRange(schema: ParameterSchema, numbers: number[]): string | null {
+    for (const number of numbers) {
+        if (schema.min !== undefined && number < schema.min) {
+            return `must be at least ${formatValue(schema.min)}, not ${formatValue(number)}`;
+        }
+        if (schema.max !== undefined && number > schema.max) {
+            return `must be at most ${formatValue(schema.max)}, not ${formatValue(number)}`;
+        }
+    }
+    return null;
+}
+
+/**
+ * Required parameters, and groups of which at least one must be given.
+ * Parameters of sub-statements count as given.
+ */
+function checkMissingParameters(unit: UnitOperationNode, schema: UnitSchema): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const given = new Set(unit.parameters.map(param => param.name.name.toUpperCase()));
+    const range = getKeywordRange(unit);
+
+    for (const param of schema.parameters) {
+        if (param.required && !given.has(param.name)) {
+            diagnostics.push(createDiagnostic(
+                range,
+                DiagnosticSeverity.Error,
+                UnitCodes.MISSING_PARAMETER,
+                `${describeUnit(unit)} is missing ${param.name} (${param.description.toLowerCase()})`
+            ));
+        }
+    }
+
+    for (const group of schema.oneOf ?? []) {
+        if (!group.some(name => given.has(name))) {
+            diagnostics.push(createDiagnostic(
+                range,
+                DiagnosticSeverity.Error,
+                UnitCodes.MISSING_PARAMETER,
+                `${describeUnit(unit)} needs one of ${formatNames(group)}`
+            ));
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Parameters given more than once, or together with a parameter they
+ * exclude. The later parameter is reported.
+ */
+function checkConflictingParameters(unit: UnitOperationNode, schema: UnitSchema, parameters: ParameterNode[]): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const seen = new Map<string, ParameterNode>();
+
+    for (const param of parameters) {
+        const name = param.name.name.toUpperCase();
+        const group = (schema.exclusive ?? []).find(names => names.includes(name));
+        const previous = seen.get(name)
+            ?? (group ?? []).map(other => seen.get(other)).find(other => other !== undefined);
+
+        if (previous) {
+            const previousName = previous.name.name.toUpperCase();
+            const message = previousName === name
+                ? `${name} is given more than once for ${describeUnit(unit)} (first on line ${previous.startLine})`
+                : `${name} conflicts with ${previousName} (line ${previous.startLine}); ${describeUnit(unit)} takes only one of ${formatNames(group ?? [])}`;
+            diagnostics.push(createDiagnostic(
+                spanToRange(param.name),
+                DiagnosticSeverity.Error,
+                UnitCodes.CONFLICTING_PARAMETERS,
+                message
+            ));
+        }
+
+        if (!seen.has(name)) seen.set(name, param);
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Too few or too many feeds and products
+ */
+function checkStreamCounts(unit: UnitOperationNode, schema: UnitSchema): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const checks = [
+        { label: 'feed', streams: unit.feedStreams, count: schema.feeds },
+        { label: 'product', streams: unit.productStreams, count: schema.products }
+    ];
+
+    for (const { label, streams, count } of checks) {
+        if (!count) continue;
+
+        if (count.min !== undefined && streams.length < count.min) {
+            diagnostics.push(createDiagnostic(
+                getKeywordRange(unit),
+                DiagnosticSeverity.Error,
+                UnitCodes.STREAM_COUNT,
+                `${describeUnit(unit)} needs at least ${pluralize(count.min, label)}, found ${streams.length}`
+            ));
+        }
+
+        if (count.max !== undefined) {
+            for (const stream of streams.slice(count.max)) {
+                diagnostics.push(createDiagnostic(
+                    spanToRange(stream.streamName),
+                    DiagnosticSeverity.Error,
+                    UnitCodes.STREAM_COUNT,
+                    `${describeUnit(unit)} takes at most ${pluralize(count.max, label)}, found ${streams.length}`
+                ));
+            }
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Check if a line holds a sub-statement: its first word is neither a
+ * parameter (NAME=, TEMP(F)=) nor a unit keyword, FEED, PROD or UID.
+ * Continuation lines take the kind of the line they continue.
+ */
+function isSubStatementLine(lines: string[], lineNumber: number): boolean {
+    let index = lineNumber - 1;
+    while (index > 0 && lines[index - 1].trimEnd().endsWith('&')) {
+        index--;
+    }
+
+    const match = /^\s*([A-Za-z][\w-]*)\s*([=(]?)/.exec(lines[index] ?? '');
+    if (!match || match[2]) return false;
+
+    const word = match[1].toUpperCase();
+    return !UNIT_LINE_WORDS.has(word) && !getUnitSchema(word) && word !== 'CALCULATOR';
+}
+
+/**
+ * All unit operations in the document
+ */
+export function getUnitOperations(ast: ProgramNode): UnitOperationNode[] {
+    const units: UnitOperationNode[] = [];
+
+    for (const section of ast.sections) {
+        for (const stmt of section.statements) {
+            if (stmt.type === 'UnitOperation') {
+                units.push(stmt as UnitOperationNode);
+            }
+        }
+    }
+
+    return units;
+}
+
+/**
+ * Range of the keyword that starts a unit (FLASH, COLUMN, ...)
+ */
+export function getKeywordRange(unit: UnitOperationNode): Range {
+    return {
+        start: { line: unit.startLine - 1, character: unit.startColumn - 1 },
+        end: { line: unit.startLine - 1, character: unit.startColumn - 1 + unit.statementType.length }
+    };
+}
+
+/**
+ * Name used for a unit in messages: its type and UID
+ */
+export function describeUnit(unit: UnitOperationNode): string {
+    return unit.uid && unit.uid.name ? `${unit.statementType} ${unit.uid.name}` : unit.statementType;
+}
+
+/**
+ * List names as "A, B or C"
+ */
+export function formatNames(names: string[]): string {
+    return names.length > 1 ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}` : names.join('');
+}
+
+function pluralize(count: number, label: string): string {
+    return `${count} ${label}${count === 1 ? '' : 's'}`;
+}
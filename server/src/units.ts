@@ -0,0 +1,429 @@
+/**
+ * Units of Measure for PRO/II Language Server
+ * Dimension sets (ENGLISH, METRIC, SI), the DIMENSION statement, unit
+ * qualifiers such as TEMP(F)=, PRES(BAR)= and RATE(WT)=, and conversions
+ */
+
+import { Token, TokenType } from './types';
+
+/**
+ * Base dimensions that the DIMENSION statement can set
+ */
+export type Dimension = 'temperature' | 'pressure' | 'mass' | 'time' | 'liquidVolume' | 'vaporVolume' | 'energy';
+
+/**
+ * Quantities given by parameter values
+ */
+export type QuantityKind =
+    | 'temperature'
+    | 'pressure'
+    | 'moleRate'
+    | 'massRate'
+    | 'liquidVolumeRate'
+    | 'vaporVolumeRate'
+    | 'duty';
+
+/**
+ * A unit of measure. SI value = value * factor + offset.
+ */
+export interface Unit {
+    name: string; // PRO/II keyword (F, PSIA, KG/HR)
+    label: string; // Display label (°F, psia, kg/hr)
+    kind: Dimension | QuantityKind;
+    factor: number;
+    offset: number;
+}
+
+/**
+ * A value with its unit
+ */
+export interface Quantity {
+    value: number;
+    unit: Unit;
+}
+
+export type DimensionSetName = 'ENGLISH' | 'METRIC' | 'SI';
+
+/**
+ * Units in effect for a document
+ */
+export interface UnitSystem {
+    base: DimensionSetName;
+    units: Record<Dimension, Unit>;
+}
+
+function unit(name: string, label: string, kind: Dimension, factor: number, offset = 0): Unit {
+    return { name, label, kind, factor, offset };
+}
+
+/**
+ * Units accepted in DIMENSION and qualifiers. SI bases: K, Pa, kg, s, m³, J.
+ */
+const UNITS: Unit[] = [
+    unit('F', '°F', 'temperature', 5 / 9, 459.67 * 5 / 9),
+    unit('C', '°C', 'temperature', 1, 273.15),
+    unit('K', 'K', 'temperature', 1),
+    unit('R', '°R', 'temperature', 5 / 9),
+
+    unit('PSIA', 'psia', 'pressure', 6894.757),
+    unit('PSIG', 'psig', 'pressure', 6894.757, 101325),
+    unit('KG/CM2', 'kg/cm²', 'pressure', 98066.5),
+    unit('BAR', 'bar', 'pressure', 1e5),
+    unit('BARG', 'barg', 'pressure', 1e5, 101325),
+    unit('KPA', 'kPa', 'pressure', 1000),
+    unit('MPA', 'MPa', 'pressure', 1e6),
+    unit('PA', 'Pa', 'pressure', 1),
+    unit('ATM', 'atm', 'pressure', 101325),
+    unit('MMHG', 'mmHg', 'pressure', 133.322),
+
+    unit('LB', 'lb', 'mass', 0.45359237),
+    unit('KG', 'kg', 'mass', 1),
+    unit('G', 'g', 'mass', 0.001),
+    unit('TON', 'ton', 'mass', 907.18474),
+    unit('TONNE', 't', 'mass', 1000),
+
+    unit('HR', 'hr', 'time', 3600),
+    unit('MIN', 'min', 'time', 60),
+    unit('SEC', 's', 'time', 1),
+    unit('DAY', 'day', 'time', 86400),
+
+    unit('FT3', 'ft³', 'liquidVolume', 0.0283168466),
+    unit('BBL', 'bbl', 'liquidVolume', 0.158987295),
+    unit('GAL', 'gal', 'liquidVolume', 0.003785411784),
+    unit('M3', 'm³', 'liquidVolume', 1),
+    unit('LTR', 'L', 'liquidVolume', 0.001),
+
+    unit('FT3', 'ft³', 'vaporVolume', 0.0283168466),
+    unit('M3', 'm³', 'vaporVolume', 1),
+
+    unit('BTU', 'Btu', 'energy', 1055.05585),
+    unit('KCAL', 'kcal', 'energy', 4184),
+    unit('KJ', 'kJ', 'energy', 1000),
+    unit('J', 'J', 'energy', 1),
+    unit('KWH', 'kWh', 'energy', 3.6e6)
+];
+
+/**
+ * Keywords of the DIMENSION statement for each base dimension
+ */
+const DIMENSION_KEYWORDS: Record<string, Dimension> = {
+    'TEMP': 'temperature',
+    'PRES': 'pressure',
+    'WT': 'mass',
+    'TIME': 'time',
+    'LIQVOL': 'liquidVolume',
+    'VAPVOL': 'vaporVolume',
+    'ENERGY': 'energy'
+};
+
+/**
+ * Default units of the PRO/II dimension sets
+ */
+export const DIMENSION_SETS: Record<DimensionSetName, Record<Dimension, string>> = {
+    ENGLISH: {
+        temperature: 'F', pressure: 'PSIA', mass: 'LB', time: 'HR',
+        liquidVolume: 'FT3', vaporVolume: 'FT3', energy: 'BTU'
+    },
+    METRIC: {
+        temperature: 'C', pressure: 'KG/CM2', mass: 'KG', time: 'HR',
+        liquidVolume: 'M3', vaporVolume: 'M3', energy: 'KCAL'
+    },
+    SI: {
+        temperature: 'K', pressure: 'KPA', mass: 'KG', time: 'HR',
+        liquidVolume: 'M3', vaporVolume: 'M3', energy: 'KJ'
+    }
+};
+
+/**
+ * Rate bases used as RATE qualifiers
+ */
+const RATE_BASES: Record<string, QuantityKind> = {
+    'M': 'moleRate',
+    'WT': 'massRate',
+    'LV': 'liquidVolumeRate',
+    'GV': 'vaporVolumeRate',
+    'V': 'vaporVolumeRate'
+};
+
+/**
+ * Quantity given by each parameter name
+ */
+const PARAMETER_QUANTITIES: Record<string, QuantityKind> = {
+    'TEMP': 'temperature',
+    'TEMPERATURE': 'temperature',
+    'PRES': 'pressure',
+    'PRESSURE': 'pressure',
+    'RATE': 'moleRate',
+    'DUTY': 'duty'
+};
+
+/**
+ * Display names of quantities, for messages
+ */
+export const QUANTITY_NAMES: Record<QuantityKind, string> = {
+    temperature: 'temperature',
+    pressure: 'pressure',
+    moleRate: 'molar rate',
+    massRate: 'mass rate',
+    liquidVolumeRate: 'liquid volume rate',
+    vaporVolumeRate: 'vapor volume rate',
+    duty: 'duty'
+};
+
+/**
+ * Find a base unit by its PRO/II name
+ */
+export function findUnit(name: string, dimension: Dimension): Unit | undefined {
+    const upperName = name.toUpperCase();
+    return UNITS.find(u => u.kind === dimension && u.name === upperName);
+}
+
+/**
+ * Names of the units accepted for a base dimension
+ */
+export function getUnitNames(dimension: Dimension): string[] {
+    return UNITS.filter(u => u.kind === dimension).map(u => u.name);
+}
+
+/**
+ * Units of a dimension set
+ */
+export function getDimensionSet(base: DimensionSetName): UnitSystem {
+    const units = {} as Record<Dimension, Unit>;
+    for (const [dimension, name] of Object.entries(DIMENSION_SETS[base]) as Array<[Dimension, string]>) {
+        units[dimension] = findUnit(name, dimension)!;
+    }
+    return { base, units };
+}
+
+/**
+ * Read the units in effect from the DIMENSION statement, e.g.
+ * DIMENSION METRIC, PRES=BAR, TEMP=F. Files without one use ENGLISH units.
+ */
+export function readDimensions(tokens: Token[]): UnitSystem {
+    const statement = getDimensionStatement(tokens);
+    if (!statement) return getDimensionSet('ENGLISH');
+
+    const items = splitItems(statement);
+    const baseItem = items.find(item => item.length === 1 && item[0].value.toUpperCase() in DIMENSION_SETS);
+    const system = getDimensionSet(baseItem ? baseItem[0].value.toUpperCase() as DimensionSetName : 'ENGLISH');
+
+    for (const item of items) {
+        if (item.length < 3 || item[1].type !== TokenType.EQUALS) continue;
+
+        const dimension = DIMENSION_KEYWORDS[item[0].value.toUpperCase()];
+        const override = dimension && findUnit(joinTokens(item.slice(2)), dimension);
+        if (override) system.units[dimension] = override;
+    }
+
+    return system;
+}
+
+/**
+ * Tokens of the DIMENSION statement after the keyword, across & continuations
+ */
+function getDimensionStatement(tokens: Token[]): Token[] | null {
+    for (let i = 0; i < tokens.length; i++) {
+        const atLineStart = i === 0 || tokens[i - 1].type === TokenType.NEWLINE;
+        if (!atLineStart || tokens[i].value.toUpperCase() !== 'DIMENSION') continue;
+
+        const statement: Token[] = [];
+        for (let j = i + 1; j < tokens.length; j++) {
+            const token = tokens[j];
+            if (token.type === TokenType.CONTINUATION) {
+                while (tokens[j + 1] && (tokens[j + 1].type === TokenType.NEWLINE || tokens[j + 1].type === TokenType.COMMENT)) j++;
+                continue;
+            }
+            if (token.type === TokenType.NEWLINE || token.type === TokenType.COMMENT || token.type === TokenType.EOF) break;
+            statement.push(token);
+        }
+        return statement;
+    }
+    return null;
+}
+
+/**
+ * Split a statement into comma-separated items
+ */
+function splitItems(tokens: Token[]): Token[][] {
+    const items: Token[][] = [[]];
+    for (const token of tokens) {
+        if (token.type === TokenType.COMMA) {
+            items.push([]);
+        } else {
+            items[items.length - 1].push(token);
+        }
+    }
+    return items.filter(item => item.length > 0);
+}
+
+function joinTokens(tokens: Token[]): string {
+    return tokens.map(token => token.value).join('');
+}
+
+/**
+ * Unit of a quantity in a unit system. Rates are per the system's time
+ * unit; molar rates use the mole of the mass unit (lb-mol, kg-mol), and
+ * duties are in millions of the energy unit per time, as PRO/II reports them.
+ */
+export function getSystemUnit(system: UnitSystem, kind: QuantityKind): Unit {
+    const { temperature, pressure, mass, time, liquidVolume, vaporVolume, energy } = system.units;
+
+    switch (kind) {
+        case 'temperature':
+            return temperature;
+        case 'pressure':
+            return pressure;
+        case 'massRate':
+            return rateUnit(kind, mass, time);
+        case 'moleRate':
+            return rateUnit(kind, { ...mass, name: `${mass.name}-MOL`, label: `${mass.label}-mol`, factor: mass.factor * 1000 }, time);
+        case 'liquidVolumeRate':
+            return rateUnit(kind, liquidVolume, time);
+        case 'vaporVolumeRate':
+            return rateUnit(kind, vaporVolume, time);
+        case 'duty':
+            return rateUnit(kind, { ...energy, name: `M*${energy.name}`, label: `M*${energy.label}`, factor: energy.factor * 1e6 }, time);
+    }
+}
+
+function rateUnit(kind: QuantityKind, amount: Unit, time: Unit): Unit {
+    return {
+        name: `${amount.name}/${time.name}`,
+        label: `${amount.label}/${time.label}`,
+        kind,
+        factor: amount.factor / time.factor,
+        offset: 0
+    };
+}
+
+/**
+ * Quantity given by a parameter, or undefined if it has no units
+ */
+export function getParameterQuantity(name: string): QuantityKind | undefined {
+    return PARAMETER_QUANTITIES[name.toUpperCase()];
+}
+
+/**
+ * Result of resolving a parameter's unit
+ */
+export interface ParameterUnit {
+    kind: QuantityKind;
+    unit: Unit;
+    error?: string; // Set when the qualifier names an unknown unit
+}
+
+/**
+ * Unit of a parameter value from its qualifier, or from the unit system.
+ * TEMP(F) and PRES(BAR) name a unit; RATE(WT) names a basis and may add a
+ * unit (RATE(WT,KG/HR)).
+ */
+export function getParameterUnit(system: UnitSystem, name: string, qualifier?: string): ParameterUnit | undefined {
+    const kind = getParameterQuantity(name);
+    return kind ? getQuantityUnit(system, kind, qualifier) : undefined;
+}
+
+/**
+ * Unit of a value of a known quantity from its qualifier, or from the unit
+ * system
+ */
+export function getQuantityUnit(system: UnitSystem, quantity: QuantityKind, qualifier?: string): ParameterUnit {
+    let kind = quantity;
+    const parts = qualifier ? qualifier.toUpperCase().split(',').filter(part => part) : [];
+    let unitName: string | undefined;
+
+    for (const part of parts) {
+        if (kind === 'moleRate' && RATE_BASES[part] && unitName === undefined) {
+            kind = RATE_BASES[part];
+        } else {
+            unitName = part;
+        }
+    }
+
+    const systemUnit = getSystemUnit(system, kind);
+    if (unitName === undefined) {
+        return { kind, unit: systemUnit };
+    }
+
+    const unit = parseUnit(unitName, kind);
+    if (!unit) {
+        return {
+            kind,
+            unit: systemUnit,
+            error: `Unknown ${QUANTITY_NAMES[kind]} unit '${unitName}'`
+        };
+    }
+    return { kind, unit };
+}
+
+/**
+ * Parse a unit name for a quantity: a base unit (F, BAR) or, for rates,
+ * amount/time (KG/HR, M3/DAY)
+ */
+export function parseUnit(name: string, kind: QuantityKind): Unit | undefined {
+    const upperName = name.toUpperCase();
+
+    if (kind === 'temperature' || kind === 'pressure') {
+        return findUnit(upperName, kind);
+    }
+
+    const slash = upperName.lastIndexOf('/');
+    if (slash === -1) return undefined;
+
+    const time = findUnit(upperName.slice(slash + 1), 'time');
+    const amountName = upperName.slice(0, slash);
+    if (!time) return undefined;
+
+    let amount: Unit | undefined;
+    switch (kind) {
+        case 'massRate':
+            amount = findUnit(amountName, 'mass');
+            break;
+        case 'moleRate': {
+            const mass = findUnit(amountName.replace(/-?MOL$/, ''), 'mass');
+            amount = mass && /-?MOL$/.test(amountName)
+                ? { ...mass, name: amountName, label: `${mass.label}-mol`, factor: mass.factor * 1000 }
+                : undefined;
+            break;
+        }
+        case 'liquidVolumeRate':
+            amount = findUnit(amountName, 'liquidVolume');
+            break;
+        case 'vaporVolumeRate':
+            amount = findUnit(amountName, 'vaporVolume');
+            break;
+        case 'duty': {
+            // M*BTU/HR: millions of the energy unit
+            const millions = amountName.startsWith('M*');
+            const energy = findUnit(millions ? amountName.slice(2) : amountName, 'energy');
+            amount = energy && millions
+                ? { ...energy, label: `M*${energy.label}`, factor: energy.factor * 1e6 }
+                : energy;
+            break;
+        }
+    }
+
+    return amount ? { ...rateUnit(kind, amount, time), name: upperName } : undefined;
+}
+
+/**
+ * Convert a quantity to another unit of the same kind
+ */
+export function convert(quantity: Quantity, to: Unit): Quantity {
+    const si = quantity.value * quantity.unit.factor + quantity.unit.offset;
+    return { value: (si - to.offset) / to.factor, unit: to };
+}
+
+/**
+ * Format a quantity for display, e.g. "100 °F"
+ */
+export function formatQuantity(quantity: Quantity, precision = 6): string {
+    return `${formatValue(quantity.value, precision)} ${quantity.unit.label}`;
+}
+
+/**
+ * Format a number to a number of significant digits, without trailing zeros
+ */
+export function formatValue(value: number, precision = 6): string {
+    return String(Number(value.toPrecision(precision)));
+}
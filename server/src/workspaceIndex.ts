@@ -0,0 +1,252 @@
+/**
+ * Workspace Index for PRO/II Language Server
+ * Keeps the symbols of every PRO/II file in the workspace folders so
+ * workspace/symbol can find streams, units and components in closed files
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { SymbolInformation, SymbolKind as LspSymbolKind } from 'vscode-languageserver/node';
+import { Lexer } from './lexer';
+import { Parser } from './parser';
+import { SymbolTable, SymbolKind } from './symbolTable';
+import { getDefinitionRange } from './definitionProvider';
+
+/**
+ * File extensions indexed from disk
+ */
+const INDEXED_EXTENSIONS = new Set(['.inp', '.p2i']);
+
+/**
+ * Directories never worth walking into
+ */
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'out', 'dist']);
+
+/**
+ * Default maximum number of workspace symbol results
+ */
+const MAX_RESULTS = 200;
+
+/**
+ * LSP symbol kind for each PRO/II symbol kind
+ */
+const LSP_KINDS: Record<SymbolKind, LspSymbolKind> = {
+    [SymbolKind.STREAM]: LspSymbolKind.Variable,
+    [SymbolKind.UNIT]: LspSymbolKind.Class,
+    [SymbolKind.COMPONENT]: LspSymbolKind.Constant,
+    [SymbolKind.PARAMETER]: LspSymbolKind.Property
+};
+
+/**
+ * Check if a file path should be indexed
+ */
+export function isIndexedFile(filePath: string): boolean {
+    return INDEXED_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Fuzzy match a query against a symbol name.
+ * Every query character must appear in order; prefixes, consecutive runs
+ * and exact matches score higher. Returns null when there is no match.
+ */
+export function fuzzyScore(query: string, candidate: string): number | null {
+    const q = query.toUpperCase();
+    const c = candidate.toUpperCase();
+
+    if (!q) return 0;
+
+    let score = 0;
+    let qi = 0;
+    let previousMatch = -2;
+
+    for (let ci = 0; ci < c.length && qi < q.length; ci++) {
+        if (c[ci] !== q[qi]) continue;
+
+        score += ci === previousMatch + 1 ? 5 : 1;
+        if (ci === 0) score += 10;
+        previousMatch = ci;
+        qi++;
+    }
+
+    if (qi < q.length) return null;
+
+    if (c === q) {
+        score += 100;
+    } else if (c.startsWith(q)) {
+        score += 50;
+    }
+
+    // Prefer shorter names for the same matched characters
+    return score - (c.length - q.length) * 0.1;
+}
+
+/**
+ * Key used to store a document, so the same file opened in the editor and
+ * found on disk is only indexed once
+ */
+function documentKey(uri: string): string {
+    if (!uri.startsWith('file:')) return uri;
+
+    try {
+        const filePath = path.normalize(fileURLToPath(uri));
+        return process.platform === 'win32' ? filePath.toLowerCase() : filePath;
+    } catch {
+        return uri;
+    }
+}
+
+/**
+ * Index of symbols across all PRO/II files in the workspace
+ */
+export class WorkspaceIndex {
+    private documents: Map<string, SymbolInformation[]> = new Map();
+    private openDocuments: Set<string> = new Set();
+
+    /**
+     * Index an open document from its symbol table.
+     * Open documents take precedence over their contents on disk.
+     */
+    public updateDocument(uri: string, symbolTable: SymbolTable): void {
+        const key = documentKey(uri);
+        this.openDocuments.add(key);
+        this.documents.set(key, this.createSymbols(uri, symbolTable));
+    }
+
+    /**
+     * Stop tracking an open document and fall back to its contents on disk
+     */
+    public async closeDocument(uri: string): Promise<void> {
+        const key = documentKey(uri);
+        this.openDocuments.delete(key);
+        this.documents.delete(key);
+
+        if (uri.startsWith('file:')) {
+            await this.indexFile(fileURLToPath(uri));
+        }
+    }
+
+    /**
+     * Index a file's text, unless the file is open in the editor
+     *
+     * @returns true if the text was parsed and indexed
+     */
+    public indexText(uri: string, text: string): boolean {
+        const key = documentKey(uri);
+        if (this.openDocuments.has(key)) return false;
+
+        try {
+            const lexer = new Lexer(text);
+            const parser = new Parser(lexer.tokenize());
+            const symbolTable = new SymbolTable();
+            symbolTable.build(parser.parse(), text);
+            this.documents.set(key, this.createSymbols(uri, symbolTable));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Read and index a file from disk
+     */
+    public async indexFile(filePath: string): Promise<boolean> {
+        if (!isIndexedFile(filePath)) return false;
+
+        try {
+            const text = await fs.promises.readFile(filePath, 'utf8');
+            return this.indexText(pathToFileURL(filePath).toString(), text);
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Recursively index all PRO/II files below a folder.
+     * Yields to the event loop between files so requests keep being served.
+     *
+     * @returns Number of files indexed
+     */
+    public async indexFolder(folderPath: string): Promise<number> {
+        let count = 0;
+        let entries: fs.Dirent[];
+
+        try {
+            entries = await fs.promises.readdir(folderPath, { withFileTypes: true });
+        } catch {
+            return 0;
+        }
+
+        for (const entry of entries) {
+            const entryPath = path.join(folderPath, entry.name);
+
+            if (entry.isDirectory()) {
+                if (!entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.has(entry.name)) {
+                    count += await this.indexFolder(entryPath);
+                }
+            } else if (entry.isFile() && isIndexedFile(entry.name)) {
+                if (await this.indexFile(entryPath)) count++;
+                await new Promise(resolve => setImmediate(resolve));
+            }
+        }
+
+        return count;
+    }
+
+    /**
+     * Remove a document from the index (e.g. deleted from disk)
+     */
+    public removeDocument(uri: string): void {
+        const key = documentKey(uri);
+        this.openDocuments.delete(key);
+        this.documents.delete(key);
+    }
+
+    /**
+     * Find symbols across the workspace whose names fuzzy-match the query,
+     * best matches first
+     */
+    public search(query: string, limit: number = MAX_RESULTS): SymbolInformation[] {
+        const matches: Array<{ symbol: SymbolInformation; score: number }> = [];
+
+        for (const symbols of this.documents.values()) {
+            for (const symbol of symbols) {
+                const score = fuzzyScore(query, symbol.name);
+                if (score !== null) {
+                    matches.push({ symbol, score });
+                }
+            }
+        }
+
+        return matches
+            .sort((a, b) => b.score - a.score || a.symbol.name.localeCompare(b.symbol.name))
+            .slice(0, limit)
+            .map(match => match.symbol);
+    }
+
+    /**
+     * Get statistics
+     */
+    public getStats(): { files: number; symbols: number } {
+        let symbols = 0;
+        for (const fileSymbols of this.documents.values()) {
+            symbols += fileSymbols.length;
+        }
+        return { files: this.documents.size, symbols };
+    }
+
+    /**
+     * Convert a document's symbol table to workspace symbols
+     */
+    private createSymbols(uri: string, symbolTable: SymbolTable): SymbolInformation[] {
+        return symbolTable.getAllSymbols()
+            .filter(symbol => symbol.kind !== SymbolKind.PARAMETER)
+            .map(symbol => SymbolInformation.create(
+                symbol.name,
+                LSP_KINDS[symbol.kind],
+                getDefinitionRange(symbol),
+                uri,
+                symbol.metadata?.unitType || symbol.kind
+            ));
+    }
+}